@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Ban, EyeOff, RotateCcw, ShieldCheck, X } from "lucide-react";
+import { ApiError, apiFetch, toApiError } from "@/lib/api";
+import { useAuthUser } from "@/hooks/useAuthUser";
+import { ToastContainer, useToasts } from "@/components/Toasts";
+import type { ModerationAction } from "@/lib/moderation";
+import type { ReportWithTarget } from "@/lib/schemas";
+import { cn } from "@/lib/utils";
+
+const STATUS_TABS = ["open", "actioned", "dismissed", "all"] as const;
+type StatusTab = (typeof STATUS_TABS)[number];
+
+const ACTIONS: { action: ModerationAction; label: string; icon: React.ReactNode; className: string }[] = [
+  { action: "hide", label: "Hide", icon: <EyeOff className="w-4 h-4" />, className: "border-gray-300 hover:bg-gray-50" },
+  { action: "restore", label: "Restore", icon: <RotateCcw className="w-4 h-4" />, className: "border-gray-300 hover:bg-gray-50" },
+  { action: "dismiss", label: "Dismiss", icon: <X className="w-4 h-4" />, className: "border-gray-300 hover:bg-gray-50" },
+  { action: "ban", label: "Ban author", icon: <Ban className="w-4 h-4" />, className: "border-red-300 text-red-600 hover:bg-red-50" },
+];
+
+const ReportCard = ({ report, busy, onAction }: {
+  report: ReportWithTarget;
+  busy: boolean;
+  onAction: (action: ModerationAction) => void;
+}) => {
+  const target = report.target;
+  const removed = target && (target.hidden_at ? "Hidden" : target.deleted_at ? "Deleted by author" : null);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm space-y-3">
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="uppercase font-semibold tracking-wide">{report.target_type}</span>
+        <span>·</span>
+        <span>{report.reason}</span>
+        {report.target_report_count > 1 && <span>· {report.target_report_count} reports</span>}
+        <span className="ml-auto">{new Date(report.created_at).toLocaleString()}</span>
+      </div>
+
+      {target ? (
+        <div className="border-l-2 border-gray-200 pl-3 space-y-1">
+          {target.title && <div className="font-bold">{target.title}</div>}
+          <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-6">{target.text}</p>
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            {target.author_id ? (
+              <Link href={`/u/${target.author_id}`} className="hover:underline">{target.author_name}</Link>
+            ) : target.author_name}
+            {target.author_banned && <span className="bg-red-100 text-red-700 px-1.5 rounded">banned</span>}
+            {removed && <span className="bg-gray-100 px-1.5 rounded">{removed}</span>}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 italic">This content has been permanently removed.</p>
+      )}
+
+      {report.details && <p className="text-sm text-gray-600">&ldquo;{report.details}&rdquo;</p>}
+
+      <div className="flex items-center gap-2">
+        {report.status === "open" ? ACTIONS.map(({ action, label, icon, className }) => (
+          <button
+            key={action}
+            disabled={busy || !target}
+            onClick={() => onAction(action)}
+            className={cn("flex items-center gap-1 border px-3 py-1 rounded-lg text-sm disabled:opacity-50", className)}
+          >
+            {icon} {label}
+          </button>
+        )) : (
+          <span className="text-sm text-gray-500">
+            {report.status === "actioned" ? "Actioned" : "Dismissed"}
+            {report.resolved_at && ` ${new Date(report.resolved_at).toLocaleString()}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default function AdminReportsPage() {
+  const [user] = useAuthUser();
+  const { toasts, addToast, removeToast } = useToasts();
+  const [status, setStatus] = useState<StatusTab>("open");
+  const [reports, setReports] = useState<ReportWithTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch(`/api/admin/reports?status=${status}`);
+      if (!res.ok) throw await toApiError(res, "Could not load reports");
+      setReports(await res.json());
+      setForbidden(false);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 403) setForbidden(true);
+      else addToast(err instanceof Error ? err.message : "Could not load reports", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, status, addToast]);
+
+  useEffect(() => { loadReports(); }, [loadReports]);
+
+  const handleAction = async (report: ReportWithTarget, action: ModerationAction) => {
+    if (action === "ban" && !confirm(`Ban ${report.target?.author_name ?? "this author"}? Their content in this report is hidden too.`)) return;
+    setBusyId(report.id);
+    try {
+      const res = await apiFetch(`/api/admin/reports/${report.id}`, {
+        method: "POST",
+        body: JSON.stringify({ action }),
+      });
+      if (!res.ok) throw await toApiError(res, "Could not update report");
+      addToast(action === "dismiss" ? "Report dismissed" : "Report actioned");
+      await loadReports();
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : "Could not update report", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-slate-900 font-sans">
+      <ToastContainer toasts={toasts} removeToast={removeToast} />
+
+      <main className="max-w-2xl mx-auto p-4 space-y-6">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" /> Back to feed
+        </Link>
+
+        <h1 className="font-bold text-2xl flex items-center gap-2">
+          <ShieldCheck className="w-6 h-6" /> Reports
+        </h1>
+
+        {!user ? (
+          <p className="text-sm text-gray-500">Sign in to see the report queue.</p>
+        ) : forbidden ? (
+          <p className="text-sm text-gray-500">Admins only.</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              {STATUS_TABS.map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setStatus(tab)}
+                  className={cn(
+                    "px-3 py-1 rounded-full text-sm capitalize border",
+                    status === tab ? "bg-black text-white border-black" : "bg-white border-gray-300 hover:bg-gray-50"
+                  )}
+                >
+                  {tab}
+                </button>
+              ))}
+            </div>
+
+            {loading ? <div className="text-center py-10">Loading reports...</div> : reports.length === 0 ? (
+              <p className="text-sm text-gray-500">No reports here.</p>
+            ) : (
+              <div className="space-y-3">
+                {reports.map(r => (
+                  <ReportCard key={r.id} report={r} busy={busyId === r.id} onAction={action => handleAction(r, action)} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
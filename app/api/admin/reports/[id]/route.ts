@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkAdmin, getRequestUser } from "@/lib/auth";
+import { parseModerationInput } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Long enough to mean "until lifted"
+const BAN_DURATION = "876000h";
+
+
+// ✅ POST — act on a report (admins only)
+//   body: { action: "hide" | "restore" | "dismiss" | "ban" }
+//   hide     takes the content down
+//   restore  puts hidden content back (what its author deleted stays deleted)
+//   dismiss  closes the report without touching the content
+//   ban      takes the content down and bans its author
+//   Every open report on the same content is resolved along with this one.
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+  const denied = await checkAdmin(user);
+  if (denied) return denied;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseModerationInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+  const { action } = parsed.value;
+
+  const { data: report, error: reportError } = await supabaseServer
+    .from("reports")
+    .select("id, target_type, target_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (reportError) {
+    return NextResponse.json(
+      { error: reportError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!report) {
+    return NextResponse.json(
+      { error: "Report not found" },
+      { status: 404 }
+    );
+  }
+
+  const table = report.target_type === "prompt" ? "prompts" : "prompt_comments";
+  const authorColumn = report.target_type === "prompt" ? "author_id" : "user_id";
+
+  const { data: target, error: targetError } = await supabaseServer
+    .from(table)
+    .select(`id, ${authorColumn}`)
+    .eq("id", report.target_id)
+    .maybeSingle();
+
+  if (targetError) {
+    return NextResponse.json(
+      { error: targetError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!target && action !== "dismiss") {
+    return NextResponse.json(
+      { error: "The reported content no longer exists" },
+      { status: 404 }
+    );
+  }
+
+  const now = new Date().toISOString();
+  const changes =
+    action === "hide" || action === "ban" ? { hidden_at: now }
+    : action === "restore" ? { hidden_at: null }
+    : null;
+
+  if (changes) {
+    const { error } = await supabaseServer
+      .from(table)
+      .update(changes)
+      .eq("id", report.target_id);
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+  }
+
+  const authorId = (target as Record<string, string | null> | null)?.[authorColumn];
+
+  if (action === "ban" && authorId) {
+    const { error } = await supabaseServer
+      .from("profiles")
+      .update({ banned_at: now })
+      .eq("id", authorId);
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    // Also stops them signing in again; the profile flag covers tokens
+    // that are still valid
+    const { error: banError } = await supabaseServer.auth.admin.updateUserById(authorId, { ban_duration: BAN_DURATION });
+
+    if (banError) {
+      return NextResponse.json(
+        { error: banError.message },
+        { status: 500 }
+      );
+    }
+  }
+
+  const { error } = await supabaseServer
+    .from("reports")
+    .update({
+      status: action === "hide" || action === "ban" ? "actioned" : "dismissed",
+      resolved_at: now,
+      resolved_by: user!.id,
+    })
+    .eq("target_type", report.target_type)
+    .eq("target_id", report.target_id)
+    .or(`status.eq.open,id.eq.${report.id}`);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
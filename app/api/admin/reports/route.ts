@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkAdmin, getRequestUser } from "@/lib/auth";
+import type { Report, ReportedContent, ReportWithTarget } from "@/lib/schemas";
+
+const STATUSES = ["open", "actioned", "dismissed", "all"];
+const MAX_REPORTS = 100;
+
+
+// ✅ GET — the report queue, newest first, with the reported content (admins only)
+//   ?status=open|actioned|dismissed|all  (default open)
+export async function GET(request: Request) {
+  const user = await getRequestUser(request);
+  const denied = await checkAdmin(user);
+  if (denied) return denied;
+
+  const status = new URL(request.url).searchParams.get("status") ?? "open";
+
+  if (!STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `status must be one of: ${STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  let query = supabaseServer
+    .from("reports")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(MAX_REPORTS);
+
+  if (status !== "all") query = query.eq("status", status);
+
+  const { data: reports, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const idsOf = (type: string) => Array.from(new Set(
+    (reports as Report[]).filter((r) => r.target_type === type).map((r) => r.target_id)
+  ));
+  const promptIds = idsOf("prompt");
+  const commentIds = idsOf("comment");
+
+  const [prompts, comments] = await Promise.all([
+    promptIds.length > 0
+      ? supabaseServer.from("prompts").select("id, title, content, author_id, author_name, deleted_at, hidden_at").in("id", promptIds)
+      : { data: [], error: null },
+    commentIds.length > 0
+      ? supabaseServer.from("prompt_comments").select("id, prompt_id, text, user_id, user_name, deleted_at, hidden_at").in("id", commentIds)
+      : { data: [], error: null },
+  ]);
+
+  const lookupError = prompts.error ?? comments.error;
+  if (lookupError) {
+    return NextResponse.json(
+      { error: lookupError.message },
+      { status: 500 }
+    );
+  }
+
+  const targets = new Map<string, Omit<ReportedContent, "author_banned">>();
+  for (const p of prompts.data ?? []) {
+    targets.set(`prompt:${p.id}`, {
+      type: "prompt", id: p.id, prompt_id: p.id, title: p.title, text: p.content,
+      author_id: p.author_id, author_name: p.author_name, deleted_at: p.deleted_at, hidden_at: p.hidden_at,
+    });
+  }
+  for (const c of comments.data ?? []) {
+    targets.set(`comment:${c.id}`, {
+      type: "comment", id: c.id, prompt_id: c.prompt_id, title: null, text: c.text,
+      author_id: c.user_id, author_name: c.user_name, deleted_at: c.deleted_at, hidden_at: c.hidden_at,
+    });
+  }
+
+  const authorIds = Array.from(new Set(Array.from(targets.values()).flatMap((t) => (t.author_id ? [t.author_id] : []))));
+  const { data: banned, error: bannedError } = authorIds.length > 0
+    ? await supabaseServer.from("profiles").select("id").in("id", authorIds).not("banned_at", "is", null)
+    : { data: [], error: null };
+
+  if (bannedError) {
+    return NextResponse.json(
+      { error: bannedError.message },
+      { status: 500 }
+    );
+  }
+
+  const bannedIds = new Set(banned.map((b) => b.id));
+  const counts = new Map<string, number>();
+  for (const r of reports as Report[]) {
+    const key = `${r.target_type}:${r.target_id}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return NextResponse.json<ReportWithTarget[]>(
+    (reports as Report[]).map((r) => {
+      const key = `${r.target_type}:${r.target_id}`;
+      const target = targets.get(key);
+      return {
+        ...r,
+        target: target ? { ...target, author_banned: !!target.author_id && bannedIds.has(target.author_id) } : null,
+        target_report_count: counts.get(key) ?? 1,
+      };
+    })
+  );
+}
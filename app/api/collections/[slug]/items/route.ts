@@ -0,0 +1,193 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import { getOwnedCollection } from "@/lib/collections";
+import { isUuid, parseCollectionItemInput, parseCollectionOrderInput } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+
+// ✅ POST — add a prompt to the end of a collection
+//   body: { prompt_id }
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "collections:write");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseCollectionItemInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+  const { prompt_id } = parsed.value;
+
+  const found = await getOwnedCollection(slug, user);
+  if ("response" in found) return found.response;
+
+  const hidden = await checkPromptVisible(prompt_id, user);
+  if (hidden) return hidden;
+
+  const { data: last, error: lastError } = await supabaseServer
+    .from("collection_items")
+    .select("position")
+    .eq("collection_id", found.collection.id)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) {
+    return NextResponse.json(
+      { error: lastError.message },
+      { status: 500 }
+    );
+  }
+
+  const { error } = await supabaseServer
+    .from("collection_items")
+    .insert([{
+      collection_id: found.collection.id,
+      prompt_id,
+      position: (last?.position ?? -1) + 1,
+    }]);
+
+  if (error?.code === "23505") {
+    return NextResponse.json(
+      { error: "Prompt is already in this collection" },
+      { status: 409 }
+    );
+  }
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  await supabaseServer
+    .from("collections")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", found.collection.id);
+
+  return NextResponse.json({ success: true }, { status: 201 });
+}
+
+
+// ✅ PUT — reorder a collection
+//   body: { prompt_ids: [...] } — every prompt in the collection, in the new order
+export async function PUT(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "collections:write");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseCollectionOrderInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+  const { prompt_ids } = parsed.value;
+
+  const found = await getOwnedCollection(slug, user);
+  if ("response" in found) return found.response;
+
+  const { data: items, error: itemsError } = await supabaseServer
+    .from("collection_items")
+    .select("prompt_id")
+    .eq("collection_id", found.collection.id);
+
+  if (itemsError) {
+    return NextResponse.json(
+      { error: itemsError.message },
+      { status: 500 }
+    );
+  }
+
+  const current = new Set(items.map((i) => i.prompt_id));
+  if (prompt_ids.length !== current.size || new Set(prompt_ids).size !== current.size || !prompt_ids.every((id) => current.has(id))) {
+    return NextResponse.json(
+      { error: "prompt_ids must list every prompt in the collection exactly once" },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await supabaseServer
+    .from("collection_items")
+    .upsert(
+      prompt_ids.map((prompt_id, position) => ({
+        collection_id: found.collection.id,
+        prompt_id,
+        position,
+      })),
+      { onConflict: "collection_id,prompt_id" }
+    );
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+
+// ✅ DELETE — remove a prompt from a collection
+//   ?prompt_id=
+export async function DELETE(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const promptId = new URL(request.url).searchParams.get("prompt_id");
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isUuid(promptId)) {
+    return NextResponse.json(
+      { error: "prompt_id must be a prompt ID" },
+      { status: 400 }
+    );
+  }
+
+  const found = await getOwnedCollection(slug, user);
+  if ("response" in found) return found.response;
+
+  const { error } = await supabaseServer
+    .from("collection_items")
+    .delete()
+    .eq("collection_id", found.collection.id)
+    .eq("prompt_id", promptId);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { getOwnedCollection, getVisibleCollection } from "@/lib/collections";
+import { parseCollectionInput, type Prompt } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { restoreDeadline } from "@/lib/moderation";
+import { canViewPrompt } from "@/lib/visibility";
+import { getWorkspaceIds } from "@/lib/workspaces";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+
+// ✅ GET — a collection with its prompts, in order
+export async function GET(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  const found = await getVisibleCollection(slug, user);
+  if ("response" in found) return found.response;
+
+  const workspaces = await getWorkspaceIds(user);
+  if ("response" in workspaces) return workspaces.response;
+
+  const { data, error } = await supabaseServer
+    .from("collection_items")
+    .select("position, prompts(*)")
+    .eq("collection_id", found.collection.id)
+    .order("position", { ascending: true });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    ...found.collection,
+    // Removed prompts, and ones this viewer can't see, stay in the
+    // collection but aren't shown
+    prompts: data
+      .map((item) => item.prompts as unknown as Prompt | null)
+      .filter((p) => p && !p.deleted_at && !p.hidden_at && canViewPrompt(p, user?.id ?? null, workspaces.ids)),
+  });
+}
+
+
+// ✅ PATCH — rename, describe or change visibility (owner only)
+export async function PATCH(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "collections:write");
+  if (limited) return limited;
+
+  const found = await getOwnedCollection(slug, user);
+  if ("response" in found) return found.response;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseCollectionInput(json.body, true);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const { data, error } = await supabaseServer
+    .from("collections")
+    .update({ ...parsed.value, updated_at: new Date().toISOString() })
+    .eq("id", found.collection.id)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+
+// ✅ DELETE — delete a collection (its prompts are left alone)
+//   Soft delete: the owner can undo it via /undelete within the restore window
+export async function DELETE(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const found = await getOwnedCollection(slug, user);
+  if ("response" in found) return found.response;
+
+  const deletedAt = new Date().toISOString();
+
+  const { error } = await supabaseServer
+    .from("collections")
+    .update({ deleted_at: deletedAt })
+    .eq("id", found.collection.id);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, restore_until: restoreDeadline(deletedAt).toISOString() });
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { canStillRestore } from "@/lib/moderation";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+
+// ✅ POST — bring back a deleted collection, within the restore window
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const { data: collection, error: collectionError } = await supabaseServer
+    .from("collections")
+    .select("id, owner_id, deleted_at")
+    .eq("slug", slug)
+    .maybeSingle();
+
+  if (collectionError) {
+    return NextResponse.json(
+      { error: collectionError.message },
+      { status: 500 }
+    );
+  }
+
+  // Someone else's collection is reported as missing, as on GET
+  if (!collection?.deleted_at || collection.owner_id !== user.id) {
+    return NextResponse.json(
+      { error: "No deleted collection to restore" },
+      { status: 404 }
+    );
+  }
+
+  if (!canStillRestore(collection.deleted_at)) {
+    return NextResponse.json(
+      { error: "The restore window for this collection has passed" },
+      { status: 410 }
+    );
+  }
+
+  const { data, error } = await supabaseServer
+    .from("collections")
+    .update({ deleted_at: null })
+    .eq("id", collection.id)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
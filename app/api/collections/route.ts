@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getDisplayName, getRequestUser } from "@/lib/auth";
+import { parseCollectionInput } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { slugify } from "@/lib/slug";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+
+// ✅ GET — list collections with their prompt counts
+//   ?mine=1  the caller's own collections, private ones included
+//   otherwise the most recently updated public collections
+export async function GET(request: Request) {
+  const mine = new URL(request.url).searchParams.get("mine") === "1";
+  const user = mine ? await getRequestUser(request) : null;
+
+  if (mine && !user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  let query = supabaseServer
+    .from("collections")
+    .select("*, collection_items(count)")
+    .is("deleted_at", null)
+    .order("updated_at", { ascending: false })
+    .limit(100);
+
+  query = user ? query.eq("owner_id", user.id) : query.eq("is_public", true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    data.map(({ collection_items, ...c }) => ({
+      ...c,
+      item_count: collection_items?.[0]?.count ?? 0,
+    }))
+  );
+}
+
+
+// ✅ POST — create a collection owned by the caller
+export async function POST(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "collections:write");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseCollectionInput(json.body, false);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const { data, error } = await supabaseServer
+    .from("collections")
+    .insert([{
+      ...parsed.value,
+      slug: slugify(parsed.value.name!),
+      owner_id: user.id,
+      owner_name: getDisplayName(user),
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ ...data, item_count: 0 }, { status: 201 });
+}
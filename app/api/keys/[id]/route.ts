@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getSessionUser } from "@/lib/auth";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ DELETE — revoke one of your API keys. It stops working straight away.
+export async function DELETE(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const session = await getSessionUser(request);
+  if ("response" in session) return session.response;
+
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("user_id", session.user.id)
+    .is("revoked_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: "API key not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getSessionUser } from "@/lib/auth";
+import { generateApiKey, hashApiKey, visiblePrefix } from "@/lib/apiKeys";
+import { parseApiKeyInput, type ApiKey, type CreatedApiKey } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+
+const KEY_COLUMNS = "id, name, prefix, scope, created_at, last_used_at";
+const MAX_KEYS = 20;
+
+
+// ✅ GET — your API keys, newest first (revoked keys are left out)
+export async function GET(request: Request) {
+  const session = await getSessionUser(request);
+  if ("response" in session) return session.response;
+
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .select(KEY_COLUMNS)
+    .eq("user_id", session.user.id)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<ApiKey[]>(data);
+}
+
+
+// ✅ POST — create an API key. The response is the only time the key is shown.
+//   body: { name, scope: "read" | "write" }
+export async function POST(request: Request) {
+  const session = await getSessionUser(request);
+  if ("response" in session) return session.response;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseApiKeyInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const { count, error: countError } = await supabaseServer
+    .from("api_keys")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", session.user.id)
+    .is("revoked_at", null);
+
+  if (countError) {
+    return NextResponse.json(
+      { error: countError.message },
+      { status: 500 }
+    );
+  }
+
+  if ((count ?? 0) >= MAX_KEYS) {
+    return NextResponse.json(
+      { error: `You can have at most ${MAX_KEYS} API keys. Revoke one first.` },
+      { status: 409 }
+    );
+  }
+
+  const key = generateApiKey();
+
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .insert({
+      user_id: session.user.id,
+      name: parsed.value.name,
+      scope: parsed.value.scope,
+      prefix: visiblePrefix(key),
+      key_hash: await hashApiKey(key),
+    })
+    .select(KEY_COLUMNS)
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<CreatedApiKey>({ ...data, key }, { status: 201 });
+}
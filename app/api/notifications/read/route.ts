@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { parseMarkReadInput } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+
+
+// ✅ POST — mark notifications read
+//   body: { ids? } — without ids, every notification is marked read
+export async function POST(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseMarkReadInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  let query = supabaseServer
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", user.id)
+    .is("read_at", null);
+
+  if (parsed.value.ids) query = query.in("id", parsed.value.ids);
+
+  const { error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
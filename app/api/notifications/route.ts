@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import type { NotificationList } from "@/lib/schemas";
+import { visiblePromptsFilter } from "@/lib/visibility";
+import { getWorkspaceIds } from "@/lib/workspaces";
+
+const PAGE_SIZE = 30;
+
+
+// ✅ GET — the caller's latest notifications and how many are unread
+//   ?unread=1  only unread ones
+//   Notifications about prompts the caller can no longer see are left out.
+export async function GET(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const workspaces = await getWorkspaceIds(user);
+  if ("response" in workspaces) return workspaces.response;
+
+  const visible = visiblePromptsFilter(user.id, workspaces.ids);
+  const unreadOnly = new URL(request.url).searchParams.get("unread") === "1";
+
+  let list = supabaseServer
+    .from("notifications")
+    .select("id, type, actor_id, actor_name, prompt_id, comment_id, created_at, read_at, prompts!inner(title)")
+    .eq("user_id", user.id)
+    .is("prompts.deleted_at", null)
+    .is("prompts.hidden_at", null)
+    .or(visible, { referencedTable: "prompts" })
+    .order("created_at", { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (unreadOnly) list = list.is("read_at", null);
+
+  const [items, unread] = await Promise.all([
+    list,
+    supabaseServer
+      .from("notifications")
+      .select("id, prompts!inner(id)", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("read_at", null)
+      .is("prompts.deleted_at", null)
+      .is("prompts.hidden_at", null)
+      .or(visible, { referencedTable: "prompts" }),
+  ]);
+
+  const error = items.error ?? unread.error;
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<NotificationList>({
+    items: (items.data ?? []).map(({ prompts, ...n }) => ({
+      ...n,
+      prompt_title: (prompts as unknown as { title: string }).title,
+    })),
+    unread_count: unread.count ?? 0,
+  });
+}
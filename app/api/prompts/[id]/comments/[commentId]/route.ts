@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { parseCommentInput, type Comment } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { notifyCommentEdit } from "@/lib/notifications";
+
+type RouteContext = { params: Promise<{ id: string; commentId: string }> };
+
+// Looks up one of the caller's own live comments on the prompt
+async function getOwnComment(
+  promptId: string,
+  commentId: string,
+  user: User
+): Promise<{ comment: Comment } | { response: NextResponse }> {
+  const { data, error } = await supabaseServer
+    .from("prompt_comments")
+    .select("*")
+    .eq("id", commentId)
+    .eq("prompt_id", promptId)
+    .is("deleted_at", null)
+    .is("hidden_at", null)
+    .maybeSingle();
+
+  if (error) {
+    return {
+      response: NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      ),
+    };
+  }
+
+  if (!data) {
+    return {
+      response: NextResponse.json(
+        { error: "Comment not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (data.user_id !== user.id) {
+    return {
+      response: NextResponse.json(
+        { error: "You can only change your own comments" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { comment: data };
+}
+
+
+// ✅ PATCH — edit your own comment
+//   body: { text }
+export async function PATCH(request: Request, context: RouteContext) {
+  const { id, commentId } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "comments:update");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseCommentInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const found = await getOwnComment(id, commentId, user);
+  if ("response" in found) return found.response;
+
+  const { data, error } = await supabaseServer
+    .from("prompt_comments")
+    .update({ text: parsed.value.text, updated_at: new Date().toISOString() })
+    .eq("id", commentId)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const { data: prompt } = await supabaseServer
+    .from("prompts")
+    .select("id, visibility, author_id, workspace_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (prompt) await notifyCommentEdit(user, data, found.comment.text, prompt);
+
+  return NextResponse.json<Comment>(data);
+}
+
+
+// ✅ DELETE — delete your own comment. Its replies stay.
+export async function DELETE(request: Request, context: RouteContext) {
+  const { id, commentId } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const found = await getOwnComment(id, commentId, user);
+  if ("response" in found) return found.response;
+
+  const { error } = await supabaseServer
+    .from("prompt_comments")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", commentId);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getDisplayName, getRequestUser } from "@/lib/auth";
+import { parseCommentInput, type Comment } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { notifyComment } from "@/lib/notifications";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ GET — list a prompt's comments and replies, oldest first
+//   A deleted comment that still has replies stays, with its text removed.
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data, error } = await supabaseServer
+    .from("prompt_comments")
+    .select("*")
+    .eq("prompt_id", id)
+    .is("hidden_at", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const repliedTo = new Set(data.filter((c) => !c.deleted_at && c.parent_id).map((c) => c.parent_id));
+
+  return NextResponse.json<Comment[]>(
+    data
+      .filter((c) => !c.deleted_at || repliedTo.has(c.id))
+      .map((c) => (c.deleted_at ? { ...c, text: "" } : c))
+  );
+}
+
+
+// ✅ POST — add a comment, or a reply to one
+//   body: { text, parent_id? }
+//   Notifies the prompt's author, the comment replied to and @mentions.
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "comments:create");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseCommentInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data: prompt, error: promptError } = await supabaseServer
+    .from("prompts")
+    .select("id, visibility, author_id, workspace_id")
+    .eq("id", id)
+    .single();
+
+  if (promptError) {
+    return NextResponse.json(
+      { error: promptError.message },
+      { status: 500 }
+    );
+  }
+
+  // Replies to a reply join the same thread
+  let parent: { id: string; user_id: string } | null = null;
+
+  if (parsed.value.parent_id) {
+    const { data: replyingTo, error: parentError } = await supabaseServer
+      .from("prompt_comments")
+      .select("id, parent_id, user_id")
+      .eq("id", parsed.value.parent_id)
+      .eq("prompt_id", id)
+      .is("deleted_at", null)
+      .is("hidden_at", null)
+      .maybeSingle();
+
+    if (parentError) {
+      return NextResponse.json(
+        { error: parentError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!replyingTo) return validationError({ parent_id: ["The comment you replied to no longer exists"] });
+    parent = { id: replyingTo.parent_id ?? replyingTo.id, user_id: replyingTo.user_id };
+  }
+
+  const { data, error } = await supabaseServer
+    .from("prompt_comments")
+    .insert([{
+      prompt_id: id,
+      parent_id: parent?.id ?? null,
+      user_id: user.id,
+      user_name: getDisplayName(user),
+      text: parsed.value.text,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  await notifyComment(user, data, prompt, parent?.user_id ?? null);
+
+  return NextResponse.json<Comment>(data, { status: 201 });
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import { parseUsageEventInput, type PromptUsageDay } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { fillUsageDays, USAGE_DAYS, usageSince } from "@/lib/usage";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_DAYS = 90;
+
+
+// ✅ GET — a prompt's copies and views per day, oldest first
+//   ?days=  how many days back, up to 90 (default 14)
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+  const days = Math.min(Math.max(Number(new URL(request.url).searchParams.get("days")) || USAGE_DAYS, 1), MAX_DAYS);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const { data, error } = await supabaseServer
+    .from("prompt_usage_daily")
+    .select("day, copies, views")
+    .eq("prompt_id", id)
+    .gte("day", usageSince(today, days));
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<PromptUsageDay[]>(fillUsageDays(data, today, days));
+}
+
+
+// ✅ POST — record that a prompt was copied or viewed
+//   body: { type: "copy" | "view" }
+//   Anyone can send events; a signed-in caller's copies also count towards
+//   their most-used prompts.
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  const limited = await checkRateLimit(request, user, "events");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseUsageEventInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data, error } = await supabaseServer.rpc("record_prompt_event", {
+    target: id,
+    kind: parsed.value.type,
+    actor: user?.id ?? null,
+  });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (data === null) {
+    return NextResponse.json(
+      { error: "Prompt not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ copy_count: data }, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import type { PromptFork } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ GET — every prompt descended from this one, as a depth-first list
+//   Each entry has `depth` (1 = direct fork) and `forked_from` for its parent.
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data, error } = await supabaseServer.rpc("prompt_descendants", { root: id, viewer: user?.id ?? null });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<PromptFork[]>(data);
+}
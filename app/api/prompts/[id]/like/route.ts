@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import type { LikeState } from "@/lib/schemas";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { notify } from "@/lib/notifications";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function likeState(promptId: string, liked: boolean) {
+  const { data, error } = await supabaseServer
+    .from("prompts")
+    .select("likes")
+    .eq("id", promptId)
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<LikeState>({ likes: data.likes, liked_by_user: liked });
+}
+
+
+// ✅ POST — like a prompt (its author is notified the first time)
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "likes");
+  if (limited) return limited;
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { error } = await supabaseServer
+    .from("prompt_likes")
+    .upsert(
+      [{ prompt_id: id, user_id: user.id }],
+      { onConflict: "prompt_id,user_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const { data: prompt } = await supabaseServer
+    .from("prompts")
+    .select("author_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (prompt) await notify(user, [{ user_id: prompt.author_id, type: "like", prompt_id: id }]);
+
+  return likeState(id, true);
+}
+
+
+// ✅ DELETE — unlike a prompt
+export async function DELETE(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "likes");
+  if (limited) return limited;
+
+  const { error } = await supabaseServer
+    .from("prompt_likes")
+    .delete()
+    .eq("prompt_id", id)
+    .eq("user_id", user.id);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return likeState(id, false);
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptOwner, checkPromptVisible, getRequestUser } from "@/lib/auth";
+import type { PromptOutput } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_OUTPUTS = 20;
+
+
+// ✅ GET — a prompt's saved example outputs, newest first
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data, error } = await supabaseServer
+    .from("prompt_outputs")
+    .select("*")
+    .eq("prompt_id", id)
+    .order("created_at", { ascending: false })
+    .limit(MAX_OUTPUTS);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<PromptOutput[]>(data);
+}
+
+
+// ✅ DELETE — remove an example output (author only)
+//   ?output_id=
+export async function DELETE(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const outputId = new URL(request.url).searchParams.get("output_id");
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  if (!outputId) {
+    return NextResponse.json(
+      { error: "output_id required" },
+      { status: 400 }
+    );
+  }
+
+  const denied = await checkPromptOwner(id, user);
+  if (denied) return denied;
+
+  const { error } = await supabaseServer
+    .from("prompt_outputs")
+    .delete()
+    .eq("id", outputId)
+    .eq("prompt_id", id);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
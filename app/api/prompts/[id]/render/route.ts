@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import { renderTemplate } from "@/lib/templates";
+import { parseRenderInput } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ POST — fill in a prompt's {{variables}} and return the rendered text
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseRenderInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const user = await getRequestUser(request);
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data, error } = await supabaseServer
+    .from("prompts")
+    .select("content, variables")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: "Prompt not found" },
+      { status: 404 }
+    );
+  }
+
+  const { output, missing } = renderTemplate(data.content, parsed.value.values, data.variables ?? {});
+
+  if (missing.length > 0) {
+    return validationError(
+      Object.fromEntries(missing.map((name) => [`values.${name}`, [`No value for {{${name}}}`]]))
+    );
+  }
+
+  return NextResponse.json({ output });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptOwner, getRequestUser } from "@/lib/auth";
+import { parseRestoreInput, type Prompt } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ POST — restore an earlier revision; the current one is kept in history
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseRestoreInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const denied = await checkPromptOwner(id, user);
+  if (denied) return denied;
+
+  const { data: revision, error: revisionError } = await supabaseServer
+    .from("prompt_revisions")
+    .select("title, content, tags")
+    .eq("prompt_id", id)
+    .eq("version", parsed.value.version)
+    .maybeSingle();
+
+  if (revisionError) {
+    return NextResponse.json(
+      { error: revisionError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!revision) {
+    return NextResponse.json(
+      { error: "Revision not found" },
+      { status: 404 }
+    );
+  }
+
+  const { data, error } = await supabaseServer
+    .from("prompts")
+    .update(revision)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<Prompt>(data);
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import type { PromptRevision } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ GET — earlier revisions of a prompt, newest first
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data, error } = await supabaseServer
+    .from("prompt_revisions")
+    .select("*")
+    .eq("prompt_id", id)
+    .order("version", { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<PromptRevision[]>(data);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import { DELETE } from "./route";
+import { memoryPrompt } from "@/lib/memoryPromptRepository";
+import { apiRequest, routeParams, USERS, setUpMemoryBackend } from "@/test/routes";
+
+const repository = setUpMemoryBackend();
+
+function seedPrompt(fields: Partial<Parameters<typeof memoryPrompt>[0]> = {}) {
+  const prompt = memoryPrompt({ id: "p1", author_id: USERS.alice.id, ...fields });
+  repository().data.prompts.push(prompt);
+  return prompt;
+}
+
+function deletePrompt(path: string, as?: "alice" | "bob") {
+  return DELETE(apiRequest(path, { method: "DELETE", as }), routeParams({ id: "p1" }));
+}
+
+describe("DELETE /api/prompts/[id]", () => {
+  it("soft-deletes the caller's prompt", async () => {
+    const prompt = seedPrompt();
+
+    const res = await deletePrompt("/api/prompts/p1", "alice");
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    expect(prompt.deleted_at).toBeTruthy();
+    expect(new Date(body.restore_until).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("takes a deleted fork off its original's fork count", async () => {
+    const original = memoryPrompt({ id: "p0", author_id: USERS.bob.id, fork_count: 1 });
+    repository().data.prompts.push(original);
+    seedPrompt({ forked_from: "p0" });
+
+    expect((await deletePrompt("/api/prompts/p1", "alice")).status).toBe(200);
+    expect(original.fork_count).toBe(0);
+  });
+
+  it("requires a signed-in caller", async () => {
+    const prompt = seedPrompt();
+    expect((await deletePrompt("/api/prompts/p1")).status).toBe(401);
+    expect(prompt.deleted_at).toBeNull();
+  });
+
+  it("only lets the author delete a prompt", async () => {
+    const prompt = seedPrompt();
+    expect((await deletePrompt("/api/prompts/p1", "bob")).status).toBe(403);
+    expect(prompt.deleted_at).toBeNull();
+  });
+
+  it("answers 404 for a missing or already deleted prompt", async () => {
+    expect((await deletePrompt("/api/prompts/p1", "alice")).status).toBe(404);
+
+    seedPrompt({ deleted_at: "2026-01-01T00:00:00Z" });
+    expect((await deletePrompt("/api/prompts/p1", "alice")).status).toBe(404);
+  });
+
+  it("only deletes the expected version", async () => {
+    const prompt = seedPrompt({ version: 3 });
+
+    const stale = await deletePrompt("/api/prompts/p1?version=2", "alice");
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toEqual({ error: "Prompt has changed since version 2" });
+    expect(prompt.deleted_at).toBeNull();
+
+    expect((await deletePrompt("/api/prompts/p1?version=3", "alice")).status).toBe(200);
+    expect(prompt.deleted_at).toBeTruthy();
+  });
+
+  it("won't delete a prompt edited between the checks and the delete", async () => {
+    const prompt = seedPrompt({ version: 1 });
+    const remove = repository().deletePrompt;
+    vi.spyOn(repository(), "deletePrompt").mockImplementation((...args) => {
+      prompt.version = 2;
+      return remove(...args);
+    });
+
+    expect((await deletePrompt("/api/prompts/p1?version=1", "alice")).status).toBe(409);
+    expect(prompt.deleted_at).toBeNull();
+  });
+
+  it("rejects a version that isn't a positive whole number", async () => {
+    seedPrompt();
+    expect((await deletePrompt("/api/prompts/p1?version=abc", "alice")).status).toBe(400);
+    expect((await deletePrompt("/api/prompts/p1?version=0", "alice")).status).toBe(400);
+  });
+
+  it("answers 500 when the database fails", async () => {
+    const prompt = seedPrompt();
+
+    repository().fail("deletePrompt", "connection refused");
+    const res = await deletePrompt("/api/prompts/p1", "alice");
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "connection refused" });
+    expect(prompt.deleted_at).toBeNull();
+  });
+});
@@ -1,16 +1,75 @@
 import { NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptOwner, getRequestUser } from "@/lib/auth";
+import { pickVariables } from "@/lib/templates";
+import { parsePromptUpdate, type Prompt } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { restoreDeadline } from "@/lib/moderation";
+import { checkWorkspaceMember } from "@/lib/workspaces";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { getPromptRepository } from "@/lib/promptRepository";
 
-export async function DELETE(
-  request: Request,
-  context: { params: Promise<{ id: string }> }
-) {
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ PATCH — edit a prompt in place (the previous version goes to history)
+//   visibility and workspace_id move it between private, a workspace and public
+export async function PATCH(request: Request, context: RouteContext) {
   const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "prompts:update");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parsePromptUpdate(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+  const changes = parsed.value;
+
+  const denied = await checkPromptOwner(id, user);
+  if (denied) return denied;
+
+  if (changes.workspace_id) {
+    const notMember = await checkWorkspaceMember(changes.workspace_id, user);
+    if (notMember) return notMember;
+  }
 
-  const { error } = await supabaseServer
-    .from("prompts")
-    .delete()
-    .eq("id", id);
+  // Variables only make sense for placeholders the content still has
+  if (changes.variables) {
+    let content = changes.content;
+
+    if (content === undefined) {
+      const { data: current, error: currentError } = await getPromptRepository().findPrompt(id);
+
+      if (currentError) {
+        return NextResponse.json(
+          { error: currentError.message },
+          { status: 500 }
+        );
+      }
+
+      // Deleted since the ownership check
+      if (!current) {
+        return NextResponse.json(
+          { error: "Prompt not found" },
+          { status: 404 }
+        );
+      }
+      content = current.content;
+    }
+
+    changes.variables = pickVariables(changes.variables, content);
+  }
+
+  const { data, error } = await getPromptRepository().updatePrompt(id, changes);
 
   if (error) {
     return NextResponse.json(
@@ -19,5 +78,63 @@ export async function DELETE(
     );
   }
 
-  return NextResponse.json({ success: true });
+  return NextResponse.json<Prompt>({ ...data, liked_by_user: false });
+}
+
+
+// ✅ DELETE — delete a prompt
+//   Soft delete: the author can undo it via /undelete within the restore window
+//   ?version=  only if the prompt is still at this version, else 409
+export async function DELETE(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const versionParam = new URL(request.url).searchParams.get("version");
+  const expectedVersion = versionParam === null ? null : Number(versionParam);
+  if (expectedVersion !== null && (!Number.isInteger(expectedVersion) || expectedVersion < 1)) {
+    return validationError({ version: ["version must be a positive whole number"] });
+  }
+
+  const denied = await checkPromptOwner(id, user);
+  if (denied) return denied;
+
+  const repository = getPromptRepository();
+  const deletedAt = new Date().toISOString();
+
+  // The version is checked by the update itself, so an edit landing between
+  // a check and the delete can't be lost
+  const { data: deleted, error } = await repository.deletePrompt(id, deletedAt, expectedVersion);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!deleted) {
+    // Deleted, or changed from the expected version, since the ownership check
+    const { data: current } = await repository.findPrompt(id);
+
+    if (current && expectedVersion !== null) {
+      return NextResponse.json(
+        { error: `Prompt has changed since version ${expectedVersion}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Prompt not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, restore_until: restoreDeadline(deletedAt).toISOString() });
 }
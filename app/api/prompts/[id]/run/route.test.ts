@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { POST } from "./route";
+import { createMockProvider, LlmError, setLlmProvider } from "@/lib/llm";
+import { memoryPrompt } from "@/lib/memoryPromptRepository";
+import { apiRequest, routeParams, USERS, setUpMemoryBackend } from "@/test/routes";
+
+const repository = setUpMemoryBackend();
+
+beforeEach(() => {
+  setLlmProvider(createMockProvider());
+  repository().data.prompts.push(memoryPrompt({
+    id: "p1",
+    author_id: USERS.bob.id,
+    content: "Summarize {{text}} in {{language}}",
+    variables: { language: { default: "English" } },
+  }));
+});
+
+afterEach(() => {
+  setLlmProvider(null);
+});
+
+function run(body: unknown, as: "alice" | "bob" | undefined = "alice") {
+  return POST(apiRequest("/api/prompts/p1/run", { method: "POST", as, body }), routeParams({ id: "p1" }));
+}
+
+describe("POST /api/prompts/[id]/run", () => {
+  it("streams the model's reply to the filled-in prompt", async () => {
+    const res = await run({ values: { text: "the news" } });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Model")).toBe("mock/mock-echo");
+    expect(await res.text()).toBe("Mock response to a 5-word prompt:\n\nSummarize the news in English");
+  });
+
+  it("rejects a run with a variable left without a value", async () => {
+    const res = await run({ values: {} });
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields).toEqual({ "values.text": ["No value for {{text}}"] });
+  });
+
+  it("answers 502 when the provider fails", async () => {
+    setLlmProvider({
+      name: "broken",
+      model: "broken-1",
+      async *stream() {
+        throw new LlmError("Model provider answered 503");
+      },
+    });
+
+    const res = await run({ values: { text: "the news" } });
+    expect(res.status).toBe(502);
+    expect(await res.json()).toEqual({ error: "Model provider answered 503" });
+  });
+
+  it("answers 404 for a prompt the caller can't see", async () => {
+    repository().data.prompts[0].visibility = "private";
+    expect((await run({ values: { text: "the news" } })).status).toBe(404);
+  });
+
+  it("only lets the author save the output", async () => {
+    expect((await run({ values: { text: "the news" }, save: true })).status).toBe(403);
+  });
+});
@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import { getLlmProvider, LlmError } from "@/lib/llm";
+import { renderTemplate } from "@/lib/templates";
+import { parseRunInput } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { getPromptRepository } from "@/lib/promptRepository";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ POST — run a prompt through the configured model, streaming the reply
+//   body: { values?, save? } — `save` keeps the output as an example (author only)
+//   The response is plain text; X-Model names the provider and model used.
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "prompts:run");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseRunInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const hidden = await checkPromptVisible(id, user);
+  if (hidden) return hidden;
+
+  const { data, error } = await getPromptRepository().findPrompt(id);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: "Prompt not found" },
+      { status: 404 }
+    );
+  }
+
+  if (parsed.value.save && data.author_id !== user.id) {
+    return NextResponse.json(
+      { error: "Only the author can save example outputs" },
+      { status: 403 }
+    );
+  }
+
+  const { output: prompt, missing } = renderTemplate(data.content, parsed.value.values, data.variables ?? {});
+
+  if (missing.length > 0) {
+    return validationError(
+      Object.fromEntries(missing.map((name) => [`values.${name}`, [`No value for {{${name}}}`]]))
+    );
+  }
+
+  const provider = getLlmProvider();
+  const chunks = provider.stream({ prompt, signal: request.signal })[Symbol.asyncIterator]();
+
+  // Wait for the first chunk, so a provider that is down gets an error
+  // status instead of an empty 200
+  let first: IteratorResult<string>;
+  try {
+    first = await chunks.next();
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof LlmError ? err.message : "The model provider failed" },
+      { status: 502 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let reply = "";
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (let next = first; !next.done; next = await chunks.next()) {
+          reply += next.value;
+          controller.enqueue(encoder.encode(next.value));
+        }
+
+        if (parsed.value.save && !request.signal.aborted) {
+          const { error: saveError } = await supabaseServer
+            .from("prompt_outputs")
+            .insert([{
+              prompt_id: id,
+              user_id: user.id,
+              provider: provider.name,
+              model: provider.model,
+              input_values: parsed.value.values,
+              output: reply,
+            }]);
+          if (saveError) throw new Error(saveError.message);
+        }
+
+        controller.close();
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await chunks.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Model": `${provider.name}/${provider.model}`,
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { canStillRestore } from "@/lib/moderation";
+import type { Prompt } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+
+// ✅ POST — bring back a prompt its author deleted, within the restore window
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const { data: prompt, error: promptError } = await supabaseServer
+    .from("prompts")
+    .select("author_id, deleted_at")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (promptError) {
+    return NextResponse.json(
+      { error: promptError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!prompt?.deleted_at) {
+    return NextResponse.json(
+      { error: "No deleted prompt to restore" },
+      { status: 404 }
+    );
+  }
+
+  if (prompt.author_id !== user.id) {
+    return NextResponse.json(
+      { error: "You can only restore your own prompts" },
+      { status: 403 }
+    );
+  }
+
+  if (!canStillRestore(prompt.deleted_at)) {
+    return NextResponse.json(
+      { error: "The restore window for this prompt has passed" },
+      { status: 410 }
+    );
+  }
+
+  const { data, error } = await supabaseServer
+    .from("prompts")
+    .update({ deleted_at: null })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<Prompt>(data);
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { visiblePromptsFilter } from "@/lib/visibility";
+import { getWorkspaceIds } from "@/lib/workspaces";
+import { FORMAT_MIME_TYPES, isPromptFormat, serializePrompts } from "@/lib/promptFormats";
+import { isUuid } from "@/lib/schemas";
+import { validationError } from "@/lib/http";
+
+// PostgREST caps each response, so larger libraries are read in batches
+const BATCH_SIZE = 1000;
+const MAX_EXPORT = 10000;
+
+
+// ✅ GET — download the prompts you can see as a library file
+//   ?format=  json (default) | csv | md
+//   ?author=  only this author_id's prompts
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const format = params.get("format") ?? "json";
+  const author = params.get("author");
+
+  if (!isPromptFormat(format)) {
+    return NextResponse.json(
+      { error: "format must be json, csv or md" },
+      { status: 400 }
+    );
+  }
+
+  if (author && !isUuid(author)) {
+    return validationError({ author: ["author must be a user ID"] });
+  }
+
+  const user = await getRequestUser(request);
+  const workspaces = await getWorkspaceIds(user);
+  if ("response" in workspaces) return workspaces.response;
+
+  // Visibility is kept, so re-importing a library doesn't publish its private
+  // prompts. The workspace prompts among them are all from workspaces the
+  // caller belongs to, since those are the only ones they can see.
+  const rows = [];
+
+  for (let from = 0; from < MAX_EXPORT; from += BATCH_SIZE) {
+    let query = supabaseServer
+      .from("prompts")
+      .select("title, content, tags, variables, visibility, workspace_id, author_name, created_at")
+      .is("deleted_at", null)
+      .is("hidden_at", null)
+      .or(visiblePromptsFilter(user?.id ?? null, workspaces.ids))
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(from, from + BATCH_SIZE - 1);
+
+    if (author) query = query.eq("author_id", author);
+
+    const { data, error } = await query;
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    rows.push(...data);
+    if (data.length < BATCH_SIZE) break;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new NextResponse(serializePrompts(rows, format), {
+    headers: {
+      "Content-Type": `${FORMAT_MIME_TYPES[format]}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="prompts-${date}.${format}"`,
+    },
+  });
+}
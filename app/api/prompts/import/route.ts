@@ -0,0 +1,185 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getDisplayName, getRequestUser } from "@/lib/auth";
+import { isObject, parsePromptInput, summarizeErrors, type FieldErrors, type PromptInput } from "@/lib/schemas";
+import { readJson } from "@/lib/http";
+import { isPromptFormat, parsePrompts } from "@/lib/promptFormats";
+import { getWorkspaceIds } from "@/lib/workspaces";
+import { visiblePromptsFilter } from "@/lib/visibility";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+const MAX_IMPORT_ROWS = 500;
+
+// Titles looked up per query when checking for duplicates, to keep each
+// request URL well under PostgREST's length limit
+const TITLE_BATCH_SIZE = 50;
+
+type RowResult = {
+  row: number; // 1-based position in the file
+  title: string;
+  status: "ready" | "created" | "duplicate" | "invalid";
+  error?: string;
+  fields?: FieldErrors;
+};
+
+// Two prompts are duplicates when their title and content match, ignoring
+// case and whitespace differences.
+function duplicateKey(title: string, content: string) {
+  const squash = (s: string) => s.trim().replace(/\s+/g, " ").toLowerCase();
+  return `${squash(title)}\u0000${squash(content)}`;
+}
+
+
+// ✅ POST — import a library file as the calling user
+//   body: { format: "json" | "csv" | "md", data: string, dry_run?: boolean }
+// Each row goes through the same checks as POST /api/prompts. Rows that fail
+// them, or duplicate an existing prompt or an earlier row, are skipped and
+// reported. Rows that don't say otherwise are imported as private. With
+// dry_run nothing is written.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "prompts:import");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const body = (json.body ?? {}) as { format?: unknown; data?: unknown; dry_run?: unknown };
+
+  if (!isPromptFormat(body.format) || typeof body.data !== "string") {
+    return NextResponse.json(
+      { error: "format (json, csv or md) and data required" },
+      { status: 400 }
+    );
+  }
+
+  const dryRun = body.dry_run === true;
+  let rows: unknown[];
+
+  try {
+    rows = parsePrompts(body.data, body.format);
+  } catch (err) {
+    return NextResponse.json(
+      { error: `Could not read ${body.format} file: ${err instanceof Error ? err.message : "malformed"}` },
+      { status: 400 }
+    );
+  }
+
+  if (rows.length === 0) {
+    return NextResponse.json(
+      { error: "No prompts found in file" },
+      { status: 400 }
+    );
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_IMPORT_ROWS} prompts can be imported at once` },
+      { status: 400 }
+    );
+  }
+
+  const workspaces = await getWorkspaceIds(user);
+  if ("response" in workspaces) return workspaces.response;
+
+  // Rows without a visibility are private, so importing a file from
+  // elsewhere never publishes anything by accident. They can only be shared
+  // into the caller's own workspaces.
+  const parsed = rows.map((row) => {
+    const p = parsePromptInput(isObject(row) && row.visibility === undefined ? { ...row, visibility: "private" } : row);
+    if ("value" in p && p.value.workspace_id && !workspaces.ids.includes(p.value.workspace_id)) {
+      return { errors: { workspace_id: ["You aren't a member of that workspace"] } as FieldErrors };
+    }
+    return p;
+  });
+  const titles = Array.from(new Set(parsed.flatMap((p) => ("value" in p ? [p.value.title, p.value.title.trim()] : []))));
+
+  // Only prompts the caller can see count as duplicates; anything else would
+  // give away that a hidden or someone else's private prompt exists
+  const seen = new Set<string>();
+
+  for (let i = 0; i < titles.length; i += TITLE_BATCH_SIZE) {
+    const { data: existing, error: existingError } = await supabaseServer
+      .from("prompts")
+      .select("title, content")
+      .in("title", titles.slice(i, i + TITLE_BATCH_SIZE))
+      .is("deleted_at", null)
+      .is("hidden_at", null)
+      .or(visiblePromptsFilter(user.id, workspaces.ids));
+
+    if (existingError) {
+      return NextResponse.json(
+        { error: existingError.message },
+        { status: 500 }
+      );
+    }
+
+    for (const p of existing) seen.add(duplicateKey(p.title, p.content));
+  }
+
+  const results: RowResult[] = [];
+  const toInsert: PromptInput[] = [];
+
+  parsed.forEach((p, i) => {
+    const row = i + 1;
+    if ("errors" in p) {
+      const raw = rows[i] as { title?: unknown } | null;
+      results.push({
+        row,
+        title: typeof raw?.title === "string" ? raw.title : "",
+        status: "invalid",
+        error: summarizeErrors(p.errors),
+        fields: p.errors,
+      });
+      return;
+    }
+
+    const key = duplicateKey(p.value.title, p.value.content);
+    if (seen.has(key)) {
+      results.push({ row, title: p.value.title, status: "duplicate" });
+      return;
+    }
+
+    seen.add(key);
+    // Imported prompts start their own lineage
+    toInsert.push({ ...p.value, forked_from: null });
+    results.push({ row, title: p.value.title, status: dryRun ? "ready" : "created" });
+  });
+
+  if (!dryRun && toInsert.length > 0) {
+    const { error } = await supabaseServer
+      .from("prompts")
+      .insert(toInsert.map((p) => ({
+        ...p,
+        author_id: user.id,
+        author_name: getDisplayName(user),
+      })));
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+  }
+
+  const count = (status: RowResult["status"]) => results.filter((r) => r.status === status).length;
+
+  return NextResponse.json({
+    dry_run: dryRun,
+    summary: {
+      [dryRun ? "ready" : "created"]: toInsert.length,
+      duplicate: count("duplicate"),
+      invalid: count("invalid"),
+    },
+    rows: results,
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import type { MostUsedPrompt, Prompt } from "@/lib/schemas";
+import { canViewPrompt } from "@/lib/visibility";
+import { getWorkspaceIds } from "@/lib/workspaces";
+
+const MOST_USED = 5;
+
+
+// ✅ GET — the prompts the caller copies most, most copied first
+export async function GET(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const workspaces = await getWorkspaceIds(user);
+  if ("response" in workspaces) return workspaces.response;
+
+  // A few extra rows make up for prompts that have since gone away
+  const { data, error } = await supabaseServer
+    .from("prompt_user_usage")
+    .select("copies, last_used_at, prompts(id, title, content, variables, visibility, author_id, workspace_id, deleted_at, hidden_at)")
+    .eq("user_id", user.id)
+    .order("copies", { ascending: false })
+    .order("last_used_at", { ascending: false })
+    .limit(MOST_USED * 2);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const items: MostUsedPrompt[] = [];
+
+  for (const row of data) {
+    const p = row.prompts as unknown as Prompt | null;
+    if (!p || p.deleted_at || p.hidden_at || !canViewPrompt(p, user.id, workspaces.ids)) continue;
+    items.push({ id: p.id, title: p.title, content: p.content, variables: p.variables, copies: row.copies, last_used_at: row.last_used_at });
+  }
+
+  return NextResponse.json<MostUsedPrompt[]>(items.slice(0, MOST_USED));
+}
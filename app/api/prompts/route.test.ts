@@ -0,0 +1,265 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "./route";
+import { memoryPrompt } from "@/lib/memoryPromptRepository";
+import { apiRequest, USERS, setUpMemoryBackend } from "@/test/routes";
+import type { CreatedPrompt, Prompt, PromptPage } from "@/lib/schemas";
+
+const repository = setUpMemoryBackend();
+
+function seed(...prompts: Parameters<typeof memoryPrompt>[0][]) {
+  repository().data.prompts.push(...prompts.map(memoryPrompt));
+}
+
+const ORIGINAL_ID = "00000000-0000-4000-8000-0000000000f1";
+const NEW_PROMPT = { title: "Summarize", content: "Summarize {{text}} in one line", tags: ["writing"] };
+
+describe("GET /api/prompts", () => {
+  it("lists the prompts the caller can see, newest first", async () => {
+    seed(
+      { id: "p1", author_id: USERS.bob.id, title: "Older", created_at: "2026-01-01T00:00:00Z" },
+      { id: "p2", author_id: USERS.bob.id, title: "Newer", created_at: "2026-02-01T00:00:00Z" },
+      { id: "p3", author_id: USERS.bob.id, title: "Bob's private", visibility: "private" },
+      { id: "p4", author_id: USERS.alice.id, title: "Alice's private", visibility: "private" },
+      { id: "p5", author_id: USERS.bob.id, title: "Deleted", deleted_at: "2026-03-01T00:00:00Z" },
+    );
+
+    const anonymous: PromptPage = await (await GET(apiRequest("/api/prompts"))).json();
+    expect(anonymous.items.map((p) => p.title)).toEqual(["Newer", "Older"]);
+
+    const alice: PromptPage = await (await GET(apiRequest("/api/prompts", { as: "alice" }))).json();
+    expect(alice.items.map((p) => p.title)).toEqual(["Alice's private", "Newer", "Older"]);
+  });
+
+  it("filters by search and tags", async () => {
+    seed(
+      { id: "p1", author_id: USERS.bob.id, title: "SQL review", tags: ["sql", "review"] },
+      { id: "p2", author_id: USERS.bob.id, title: "SQL explain", tags: ["sql"] },
+      { id: "p3", author_id: USERS.bob.id, title: "Code review", tags: ["review"] },
+    );
+
+    const titles = async (query: string) => {
+      const page: PromptPage = await (await GET(apiRequest(`/api/prompts?${query}`))).json();
+      return page.items.map((p) => p.title).sort();
+    };
+
+    expect(await titles("q=review")).toEqual(["Code review", "SQL review"]);
+    expect(await titles("tags=sql,review")).toEqual(["SQL review"]);
+    expect(await titles("tags=sql,review&match=any")).toEqual(["Code review", "SQL explain", "SQL review"]);
+    expect(await titles("q=sql&tags=review")).toEqual(["SQL review"]);
+  });
+
+  it("includes the caller's likes and the prompts' usage", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    seed({ id: "p1", author_id: USERS.bob.id }, { id: "p2", author_id: USERS.bob.id });
+    repository().data.likes.push({ user_id: USERS.alice.id, prompt_id: "p1" });
+    repository().data.usage.push({ prompt_id: "p1", day: today, copies: 3, views: 7 });
+
+    const page: PromptPage = await (await GET(apiRequest("/api/prompts", { as: "alice" }))).json();
+    const p1 = page.items.find((p) => p.id === "p1")!;
+    const p2 = page.items.find((p) => p.id === "p2")!;
+
+    expect(p1.liked_by_user).toBe(true);
+    expect(p2.liked_by_user).toBe(false);
+    expect(p1.usage?.at(-1)).toEqual({ day: today, copies: 3, views: 7 });
+    expect(p2.usage?.every((d) => d.copies === 0 && d.views === 0)).toBe(true);
+  });
+
+  it("pages through results with the cursor", async () => {
+    seed(
+      { id: "p1", author_id: USERS.bob.id, title: "One", likes: 3 },
+      { id: "p2", author_id: USERS.bob.id, title: "Two", likes: 2 },
+      { id: "p3", author_id: USERS.bob.id, title: "Three", likes: 1 },
+    );
+
+    const first: PromptPage = await (await GET(apiRequest("/api/prompts?sort=likes&limit=2"))).json();
+    expect(first.items.map((p) => p.title)).toEqual(["One", "Two"]);
+    expect(first.next_cursor).toBeTruthy();
+
+    const second: PromptPage = await (await GET(apiRequest(`/api/prompts?sort=likes&limit=2&cursor=${first.next_cursor}`))).json();
+    expect(second.items.map((p) => p.title)).toEqual(["Three"]);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it("scores every page of the trending sort as of the first", async () => {
+    seed(
+      { id: "p1", author_id: USERS.bob.id, likes: 2 },
+      { id: "p2", author_id: USERS.bob.id, likes: 1 },
+    );
+    const search = vi.spyOn(repository(), "searchPromptIds");
+
+    const first: PromptPage = await (await GET(apiRequest("/api/prompts?sort=trending&limit=1"))).json();
+    await GET(apiRequest(`/api/prompts?sort=trending&limit=1&cursor=${first.next_cursor}`));
+
+    const [[{ asOf }], [second]] = search.mock.calls;
+    expect(asOf).toBeTruthy();
+    expect(second).toMatchObject({ asOf, after: [2, "p1"] });
+  });
+
+  it("rejects an unknown sort or a bad cursor", async () => {
+    expect((await GET(apiRequest("/api/prompts?sort=oldest"))).status).toBe(400);
+    expect((await GET(apiRequest("/api/prompts?sort=relevance"))).status).toBe(400);
+    expect((await GET(apiRequest("/api/prompts?cursor=nonsense"))).status).toBe(400);
+  });
+
+  it("rejects an author or workspace that isn't an ID", async () => {
+    expect((await GET(apiRequest("/api/prompts?author=bob"))).status).toBe(400);
+    expect((await GET(apiRequest("/api/prompts?workspace=team"))).status).toBe(400);
+    expect((await GET(apiRequest(`/api/prompts?author=${USERS.bob.id}`))).status).toBe(200);
+  });
+
+  it("keeps the page size between 1 and 50", async () => {
+    seed(...Array.from({ length: 60 }, (_, i) => ({ id: `p${i}`, author_id: USERS.bob.id })));
+
+    const size = async (limit: string) => {
+      const page: PromptPage = await (await GET(apiRequest(`/api/prompts?limit=${limit}`))).json();
+      return page.items.length;
+    };
+
+    expect(await size("2.5")).toBe(2);
+    expect(await size("-3")).toBe(20);
+    expect(await size("0.5")).toBe(20);
+    expect(await size("500")).toBe(50);
+  });
+
+  it("answers 500 when the database fails", async () => {
+    seed({ id: "p1", author_id: USERS.bob.id });
+
+    repository().fail("searchPromptIds", "connection refused");
+    const res = await GET(apiRequest("/api/prompts"));
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "connection refused" });
+
+    repository().fail("searchPromptIds", null);
+    repository().fail("getPrompts");
+    expect((await GET(apiRequest("/api/prompts"))).status).toBe(500);
+  });
+});
+
+describe("POST /api/prompts", () => {
+  it("creates a prompt as the caller", async () => {
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: NEW_PROMPT }));
+    expect(res.status).toBe(201);
+
+    const created: Prompt = await res.json();
+    expect(created).toMatchObject({
+      ...NEW_PROMPT,
+      author_id: USERS.alice.id,
+      author_name: "alice",
+      visibility: "public",
+      version: 1,
+      parent: null,
+    });
+    expect(repository().data.prompts.map((p) => p.id)).toEqual([created.id]);
+  });
+
+  it("returns what the prompt checks flag along with the new prompt, bar duplicates", async () => {
+    seed({ id: "p1", author_id: USERS.alice.id, title: NEW_PROMPT.title, content: NEW_PROMPT.content });
+
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: NEW_PROMPT }));
+    const created: CreatedPrompt = await res.json();
+    expect(created.warnings).toEqual([expect.objectContaining({ code: "no_default" })]);
+  });
+
+  it("requires a signed-in caller", async () => {
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", body: NEW_PROMPT }));
+    expect(res.status).toBe(401);
+    expect(repository().data.prompts).toEqual([]);
+  });
+
+  it("rejects a prompt without a title", async () => {
+    const untitled = { content: NEW_PROMPT.content, tags: NEW_PROMPT.tags };
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: untitled }));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "Title is required", fields: { title: ["Title is required"] } });
+
+    const blank = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: { ...NEW_PROMPT, title: "  " } }));
+    expect(blank.status).toBe(400);
+    expect(repository().data.prompts).toEqual([]);
+  });
+
+  it("rejects a body that isn't JSON", async () => {
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: "{ title: " }));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Request body must be valid JSON" });
+  });
+
+  it("rejects a prompt containing a secret", async () => {
+    const body = { ...NEW_PROMPT, content: "Use key sk-ant-REDACTED" };
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields.content).toHaveLength(1);
+  });
+
+  it("rejects a secret in the tags", async () => {
+    const body = { ...NEW_PROMPT, tags: ["sk-abcdefghijklmnopqrstuvwxyz"] };
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields.tags).toHaveLength(1);
+  });
+
+  it("links a fork to its original and tells the original's author", async () => {
+    seed({ id: ORIGINAL_ID, author_id: USERS.bob.id, author_name: "bob", title: "Original" });
+
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: { ...NEW_PROMPT, forked_from: ORIGINAL_ID } }));
+    expect(res.status).toBe(201);
+
+    const fork: Prompt = await res.json();
+    expect(fork.parent).toEqual({ id: ORIGINAL_ID, title: "Original", author_name: "bob", fork_count: 1 });
+    expect(repository().data.notifications).toEqual([
+      expect.objectContaining({ user_id: USERS.bob.id, type: "fork", prompt_id: fork.id, actor_id: USERS.alice.id }),
+    ]);
+  });
+
+  it("won't fork a prompt the caller can't see", async () => {
+    seed({ id: ORIGINAL_ID, author_id: USERS.bob.id, visibility: "private" });
+
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: { ...NEW_PROMPT, forked_from: ORIGINAL_ID } }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields.forked_from).toEqual(["The prompt you forked no longer exists"]);
+  });
+
+  it("rejects a forked_from that isn't a prompt ID", async () => {
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: { ...NEW_PROMPT, forked_from: "p1" } }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields.forked_from).toEqual(["forked_from must be a prompt ID"]);
+  });
+
+  it("answers 500 when the database fails", async () => {
+    repository().fail("insertPrompt", "duplicate key");
+    const res = await POST(apiRequest("/api/prompts", { method: "POST", as: "alice", body: NEW_PROMPT }));
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "duplicate key" });
+  });
+
+  describe("rate limit", () => {
+    const create = (as: "alice" | "bob") =>
+      POST(apiRequest("/api/prompts", { method: "POST", as, body: NEW_PROMPT }));
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("answers 429 with Retry-After once the caller is over the limit", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-05-01T12:00:00Z"));
+
+      for (let i = 0; i < 10; i++) expect((await create("alice")).status).toBe(201);
+
+      const limited = await create("alice");
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("Retry-After")).toBe("60");
+
+      vi.setSystemTime(new Date("2026-05-01T12:00:45Z"));
+      expect((await create("alice")).headers.get("Retry-After")).toBe("15");
+
+      vi.setSystemTime(new Date("2026-05-01T12:01:00Z"));
+      expect((await create("alice")).status).toBe(201);
+    });
+
+    it("counts callers apart when their IP address isn't known", async () => {
+      for (let i = 0; i < 10; i++) await create("alice");
+      expect((await create("alice")).status).toBe(429);
+      expect((await create("bob")).status).toBe(201);
+    });
+  });
+});
@@ -1,13 +1,120 @@
 import { NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getDisplayName, getRequestUser } from "@/lib/auth";
+import { normalizeTags } from "@/lib/tags";
+import { isUuid, parsePromptInput, type CreatedPrompt, type PromptPage } from "@/lib/schemas";
+import { pageLimit, readJson, validationError } from "@/lib/http";
+import { checkWorkspaceMember } from "@/lib/workspaces";
+import { fillUsageDays, usageSince } from "@/lib/usage";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { notifyFork } from "@/lib/notifications";
+import { getPromptRepository, PROMPT_SORTS, type PromptSort } from "@/lib/promptRepository";
+import { lintPrompt } from "@/lib/promptLint";
 
 
-// ✅ GET — fetch all prompts
-export async function GET() {
-  const { data, error } = await supabaseServer
-    .from("prompts")
-    .select("*")
-    .order("created_at", { ascending: false });
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// Cursors are the last row's (sort_key, id), opaque to the client. Trending
+// cursors also carry the time the first page was scored at, so later pages
+// are ranked by the same scores.
+type Cursor = { after: [number, string]; asOf: string | null };
+
+function encodeCursor(key: number, id: string, asOf: string | null) {
+  return Buffer.from(JSON.stringify(asOf ? [key, id, asOf] : [key, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const [key, id, asOf = null] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof key !== "number" || typeof id !== "string") return null;
+    if (asOf !== null && (typeof asOf !== "string" || Number.isNaN(Date.parse(asOf)))) return null;
+    return { after: [key, id], asOf };
+  } catch {
+    return null;
+  }
+}
+
+
+// ✅ GET — search the prompts the caller can see, one page at a time, with
+//   their like state and recent usage
+//   ?q=       full-text search, ranked by relevance unless another sort is given
+//   ?tags=    comma-separated tags; ?match=any for OR, otherwise AND
+//   ?author=  exact filter on author_id
+//   ?workspace=  only prompts shared with this workspace (by ID)
+//   ?sort=    newest | likes | comments | trending | relevance
+//             trending weighs recent copies, likes and comments
+//   ?cursor=  next_cursor from the previous page
+//   ?limit=   page size, up to 50
+export async function GET(request: Request) {
+  const repository = getPromptRepository();
+  const user = await getRequestUser(request);
+  const params = new URL(request.url).searchParams;
+
+  const q = params.get("q")?.trim() || null;
+  const sort = (params.get("sort") || (q ? "relevance" : "newest")) as PromptSort;
+  const limit = pageLimit(params, DEFAULT_LIMIT, MAX_LIMIT);
+  const cursorParam = params.get("cursor");
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  const tags = normalizeTags(params.get("tags")?.split(",") ?? []);
+  const match = params.get("match") === "any" ? "any" : "all";
+
+  if (!PROMPT_SORTS.includes(sort) || (sort === "relevance" && !q)) {
+    return NextResponse.json(
+      { error: `sort must be one of ${PROMPT_SORTS.join(", ")} (relevance needs q)` },
+      { status: 400 }
+    );
+  }
+
+  const author = params.get("author") || null;
+  const workspace = params.get("workspace") || null;
+
+  if ((author && !isUuid(author)) || (workspace && !isUuid(workspace))) {
+    return NextResponse.json(
+      { error: "author and workspace must be IDs" },
+      { status: 400 }
+    );
+  }
+
+  if (cursorParam && !cursor) {
+    return NextResponse.json(
+      { error: "Invalid cursor" },
+      { status: 400 }
+    );
+  }
+
+  const asOf = sort === "trending" ? cursor?.asOf ?? new Date().toISOString() : null;
+
+  // One extra row tells us whether there is another page
+  const { data: page, error: pageError } = await repository.searchPromptIds({
+    query: q,
+    tags,
+    tagsMatch: match,
+    authorId: author,
+    sort,
+    after: cursor?.after ?? null,
+    asOf,
+    limit: limit + 1,
+    viewerId: user?.id ?? null,
+    workspaceId: workspace,
+  });
+
+  if (pageError) {
+    return NextResponse.json(
+      { error: pageError.message },
+      { status: 500 }
+    );
+  }
+
+  const rows = page.slice(0, limit);
+  const last = rows[rows.length - 1];
+  const next_cursor = page.length > limit ? encodeCursor(last.sort_key, last.id, asOf) : null;
+  const ids = rows.map((r) => r.id);
+
+  if (ids.length === 0) {
+    return NextResponse.json<PromptPage>({ items: [], next_cursor });
+  }
+
+  const { data, error } = await repository.getPrompts(ids);
 
   if (error) {
     return NextResponse.json(
@@ -16,42 +123,121 @@ export async function GET() {
     );
   }
 
-  return NextResponse.json(data);
-}
+  let likedIds = new Set<string>();
 
+  if (user) {
+    const { data: likes, error: likesError } = await repository.likedPromptIds(user.id, ids);
 
-// ✅ POST — create prompt
-export async function POST(request: Request) {
-  try {
-    const body = await request.json();
-    const { title, content, category } = body;
-
-    if (!title || !content) {
+    if (likesError) {
       return NextResponse.json(
-        { error: "Title and content required" },
-        { status: 400 }
+        { error: likesError.message },
+        { status: 500 }
       );
     }
 
-    const { data, error } = await supabaseServer
-      .from("prompts")
-      .insert([{ title, content, category }])
-      .select()
-      .single();
+    likedIds = new Set(likes);
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const { data: usage, error: usageError } = await repository.promptUsage(ids, usageSince(today));
+
+  if (usageError) {
+    return NextResponse.json(
+      { error: usageError.message },
+      { status: 500 }
+    );
+  }
+
+  const byId = new Map(data.map((p) => [p.id, p]));
+  const items = ids
+    .filter((id) => byId.has(id))
+    .map((id) => ({
+      ...byId.get(id)!,
+      liked_by_user: likedIds.has(id),
+      usage: fillUsageDays(usage.filter((u) => u.prompt_id === id), today),
+    }));
+
+  return NextResponse.json<PromptPage>({ items, next_cursor });
+}
+
+
+// ✅ POST — create prompt as the calling user
+//   forked_from links it to the prompt it was forked from
+//   visibility is public unless given; "workspace" needs workspace_id
+//   The new prompt comes back with `warnings` from the editor's prompt
+//   checks, bar duplicates; secrets are rejected outright instead
+export async function POST(request: Request) {
+  const repository = getPromptRepository();
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "prompts:create");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parsePromptInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  if (parsed.value.workspace_id) {
+    const notMember = await checkWorkspaceMember(parsed.value.workspace_id, user);
+    if (notMember) return notMember;
+  }
+
+  let parent: { id: string; title: string; author_name: string; fork_count?: number } | null = null;
+  let parentAuthor: string | null = null;
+
+  if (parsed.value.forked_from) {
+    // Only what you can see can be forked
+    const hidden = await checkPromptVisible(parsed.value.forked_from, user);
+    if (hidden?.status === 404) return validationError({ forked_from: ["The prompt you forked no longer exists"] });
+    if (hidden) return hidden;
+
+    const { data: original, error: originalError } = await repository.findPrompt(parsed.value.forked_from);
 
-    if (error) {
+    if (originalError) {
       return NextResponse.json(
-        { error: error.message },
+        { error: originalError.message },
         { status: 500 }
       );
     }
 
-    return NextResponse.json(data, { status: 201 });
+    if (!original) return validationError({ forked_from: ["The prompt you forked no longer exists"] });
+    parent = { id: original.id, title: original.title, author_name: original.author_name };
+    parentAuthor = original.author_id;
+  }
 
-  } catch {
+  const { data, error } = await repository.insertPrompt({
+    ...parsed.value,
+    author_id: user.id,
+    author_name: getDisplayName(user),
+  });
+
+  if (error) {
     return NextResponse.json(
-      { error: "Invalid request" },
-      { status: 400 }
+      { error: error.message },
+      { status: 500 }
     );
   }
+
+  // The insert trigger has bumped the original's fork count
+  if (parent) {
+    const { data: counted } = await repository.findPrompt(parent.id);
+    parent = { ...parent, fork_count: counted?.fork_count ?? 0 };
+  }
+
+  if (parentAuthor) await notifyFork(user, data, parentAuthor);
+
+  // No `existing` prompts, so no duplicate warnings (see promptLint.ts)
+  const warnings = lintPrompt(parsed.value);
+
+  return NextResponse.json<CreatedPrompt>({ ...data, liked_by_user: false, parent, warnings }, { status: 201 });
 }
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { checkPromptVisible, getRequestUser } from "@/lib/auth";
+import { parseReportInput } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+
+// ✅ POST — report a prompt or comment to the moderators
+//   body: { target_type: "prompt" | "comment", target_id, reason, details? }
+export async function POST(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "reports:create");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseReportInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const { target_type, target_id } = parsed.value;
+
+  const { data: target, error: targetError } = await supabaseServer
+    .from(target_type === "prompt" ? "prompts" : "prompt_comments")
+    .select(target_type === "prompt" ? "id" : "prompt_id")
+    .eq("id", target_id)
+    .is("deleted_at", null)
+    .is("hidden_at", null)
+    .maybeSingle();
+
+  if (targetError) {
+    return NextResponse.json(
+      { error: targetError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!target) {
+    return NextResponse.json(
+      { error: `${target_type === "prompt" ? "Prompt" : "Comment"} not found` },
+      { status: 404 }
+    );
+  }
+
+  // Only what the reporter can see can be reported
+  const promptId = "prompt_id" in target ? target.prompt_id : target_id;
+  const hidden = await checkPromptVisible(promptId, user);
+  if (hidden?.status === 404 && target_type === "comment") {
+    return NextResponse.json(
+      { error: "Comment not found" },
+      { status: 404 }
+    );
+  }
+  if (hidden) return hidden;
+
+  const { error } = await supabaseServer
+    .from("reports")
+    .insert([{ ...parsed.value, reporter_id: user.id }]);
+
+  if (error?.code === "23505") {
+    return NextResponse.json(
+      { error: "You have already reported this" },
+      { status: 409 }
+    );
+  }
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true }, { status: 201 });
+}
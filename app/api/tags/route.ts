@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { normalizeTag } from "@/lib/tags";
+import { pageLimit } from "@/lib/http";
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+
+// ✅ GET — tags with how many prompts use them, most used first
+//   ?q=      only tags starting with this prefix (for autocomplete)
+//   ?limit=  up to 100
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const prefix = normalizeTag(params.get("q") ?? "");
+  const limit = pageLimit(params, DEFAULT_LIMIT, MAX_LIMIT);
+
+  let query = supabaseServer
+    .from("tag_usage")
+    .select("tag, count")
+    .order("count", { ascending: false })
+    .order("tag", { ascending: true })
+    .limit(limit);
+
+  if (prefix) {
+    // Normalized tags never contain the LIKE wildcards % or _
+    query = query.like("tag", `${prefix}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { findProfile, PROFILE_COLUMNS } from "@/lib/profiles";
+import { parseProfileInput, type Profile } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { visiblePromptsFilter } from "@/lib/visibility";
+import { getWorkspaceIds } from "@/lib/workspaces";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const TOP_PROMPTS = 5;
+
+
+// ✅ GET — a user's public profile with stats and their most copied prompts
+//   [id] is a user ID or a handle. Stats and prompts only cover what the
+//   caller can see.
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  const found = await findProfile(id);
+  if ("response" in found) return found.response;
+
+  const workspaces = await getWorkspaceIds(user);
+  if ("response" in workspaces) return workspaces.response;
+
+  const [stats, top] = await Promise.all([
+    supabaseServer.rpc("author_stats", { author: found.profile.id, viewer: user?.id ?? null }).single(),
+    supabaseServer
+      .from("prompts")
+      .select("id, title, content, tags, likes, comment_count, copy_count, created_at")
+      .eq("author_id", found.profile.id)
+      .is("deleted_at", null)
+      .is("hidden_at", null)
+      .or(visiblePromptsFilter(user?.id ?? null, workspaces.ids))
+      .gt("copy_count", 0)
+      .order("copy_count", { ascending: false })
+      .limit(TOP_PROMPTS),
+  ]);
+
+  const error = stats.error ?? top.error;
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  // bigint sums come back as strings
+  const totals = stats.data as Record<string, number | string>;
+
+  return NextResponse.json({
+    ...found.profile,
+    stats: {
+      prompt_count: Number(totals.prompt_count),
+      likes_received: Number(totals.likes_received),
+      comments_received: Number(totals.comments_received),
+      copies_received: Number(totals.copies_received),
+    },
+    top_prompts: top.data,
+  });
+}
+
+
+// ✅ PATCH — change your own handle or bio
+//   body: { handle?, bio? }
+export async function PATCH(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const found = await findProfile(id);
+  if ("response" in found) return found.response;
+
+  if (found.profile.id !== user.id) {
+    return NextResponse.json(
+      { error: "You can only edit your own profile" },
+      { status: 403 }
+    );
+  }
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseProfileInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const { data, error } = await supabaseServer
+    .from("profiles")
+    .update({ ...parsed.value, updated_at: new Date().toISOString() })
+    .eq("id", user.id)
+    .select(PROFILE_COLUMNS)
+    .single();
+
+  if (error?.code === "23505") {
+    return validationError({ handle: ["That handle is taken"] });
+  }
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<Profile>(data);
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { UserSuggestion } from "@/lib/schemas";
+
+const MAX_SUGGESTIONS = 8;
+
+
+// ✅ GET — people whose handle starts with a prefix, for @mention suggestions
+//   ?q=  the start of a handle
+export async function GET(request: Request) {
+  const q = new URL(request.url).searchParams.get("q")?.trim().replace(/^@/, "").toLowerCase() ?? "";
+
+  if (!/^[a-z0-9_]{1,30}$/.test(q)) {
+    return NextResponse.json<UserSuggestion[]>([]);
+  }
+
+  const { data, error } = await supabaseServer
+    .from("profiles")
+    .select("id, handle, display_name, avatar_url")
+    .like("handle", `${q.replace(/_/g, "\\_")}%`)
+    .order("handle", { ascending: true })
+    .limit(MAX_SUGGESTIONS);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<UserSuggestion[]>(data);
+}
@@ -0,0 +1,217 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { getInvitedWorkspace, getMemberWorkspace } from "@/lib/workspaces";
+import { parseInviteInput, type WorkspaceInvite } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+
+// ✅ GET — a workspace's pending invitations (members only)
+export async function GET(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const found = await getMemberWorkspace(slug, user);
+  if ("response" in found) return found.response;
+
+  const { data, error } = await supabaseServer
+    .from("workspace_invites")
+    .select("user_id, created_at")
+    .eq("workspace_id", found.workspace.id)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const { data: profiles, error: profilesError } = data.length > 0
+    ? await supabaseServer.from("profiles").select("id, handle, display_name").in("id", data.map((i) => i.user_id))
+    : { data: [], error: null };
+
+  if (profilesError) {
+    return NextResponse.json(
+      { error: profilesError.message },
+      { status: 500 }
+    );
+  }
+
+  const byId = new Map(profiles.map((p) => [p.id, p]));
+
+  return NextResponse.json<WorkspaceInvite[]>(
+    data.map((i) => ({
+      user_id: i.user_id,
+      handle: byId.get(i.user_id)?.handle ?? "",
+      display_name: byId.get(i.user_id)?.display_name ?? "Anonymous",
+      created_at: i.created_at,
+    }))
+  );
+}
+
+
+// ✅ POST — invite someone to a workspace by their handle (owner only)
+//   body: { handle }
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "workspaces:write");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseInviteInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const found = await getMemberWorkspace(slug, user);
+  if ("response" in found) return found.response;
+
+  if (found.role !== "owner") {
+    return NextResponse.json(
+      { error: "Only the workspace owner can invite people" },
+      { status: 403 }
+    );
+  }
+
+  const { data: invitee, error: inviteeError } = await supabaseServer
+    .from("profiles")
+    .select("id, handle, display_name")
+    .eq("handle", parsed.value.handle)
+    .maybeSingle();
+
+  if (inviteeError) {
+    return NextResponse.json(
+      { error: inviteeError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!invitee) return validationError({ handle: ["No one has that handle"] });
+
+  const { data: member, error: memberError } = await supabaseServer
+    .from("workspace_members")
+    .select("user_id")
+    .eq("workspace_id", found.workspace.id)
+    .eq("user_id", invitee.id)
+    .maybeSingle();
+
+  if (memberError) {
+    return NextResponse.json(
+      { error: memberError.message },
+      { status: 500 }
+    );
+  }
+
+  if (member) {
+    return NextResponse.json(
+      { error: `@${invitee.handle} is already a member` },
+      { status: 409 }
+    );
+  }
+
+  const { data, error } = await supabaseServer
+    .from("workspace_invites")
+    .insert([{ workspace_id: found.workspace.id, user_id: invitee.id, invited_by: user.id }])
+    .select("created_at")
+    .single();
+
+  if (error?.code === "23505") {
+    return NextResponse.json(
+      { error: `@${invitee.handle} has already been invited` },
+      { status: 409 }
+    );
+  }
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<WorkspaceInvite>({
+    user_id: invitee.id,
+    handle: invitee.handle,
+    display_name: invitee.display_name,
+    created_at: data.created_at,
+  }, { status: 201 });
+}
+
+
+// ✅ DELETE — decline your invitation, or cancel someone else's (owner only)
+//   ?user_id=  the invitation to cancel; without it, your own is declined
+export async function DELETE(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const inviteeId = new URL(request.url).searchParams.get("user_id");
+  let workspaceId: string;
+
+  if (inviteeId && inviteeId !== user.id) {
+    const found = await getMemberWorkspace(slug, user);
+    if ("response" in found) return found.response;
+
+    if (found.role !== "owner") {
+      return NextResponse.json(
+        { error: "Only the workspace owner can cancel invitations" },
+        { status: 403 }
+      );
+    }
+    workspaceId = found.workspace.id;
+  } else {
+    const found = await getInvitedWorkspace(slug, user);
+    if ("response" in found) return found.response;
+    workspaceId = found.workspace.id;
+  }
+
+  const { data, error } = await supabaseServer
+    .from("workspace_invites")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", inviteeId ?? user.id)
+    .select("user_id")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: "Invitation not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { getInvitedWorkspace, getMemberWorkspace } from "@/lib/workspaces";
+import type { Workspace, WorkspaceMember, WorkspaceRole } from "@/lib/schemas";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+
+// ✅ GET — a workspace's members, owner first (members only)
+export async function GET(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const found = await getMemberWorkspace(slug, user);
+  if ("response" in found) return found.response;
+
+  const { data, error } = await supabaseServer
+    .from("workspace_members")
+    .select("user_id, role, joined_at")
+    .eq("workspace_id", found.workspace.id)
+    .order("role", { ascending: false })
+    .order("joined_at", { ascending: true });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const { data: profiles, error: profilesError } = await supabaseServer
+    .from("profiles")
+    .select("id, handle, display_name")
+    .in("id", data.map((m) => m.user_id));
+
+  if (profilesError) {
+    return NextResponse.json(
+      { error: profilesError.message },
+      { status: 500 }
+    );
+  }
+
+  const byId = new Map(profiles.map((p) => [p.id, p]));
+
+  return NextResponse.json<WorkspaceMember[]>(
+    data.map((m) => ({
+      user_id: m.user_id,
+      role: m.role,
+      joined_at: m.joined_at,
+      handle: byId.get(m.user_id)?.handle ?? "",
+      display_name: byId.get(m.user_id)?.display_name ?? "Anonymous",
+    }))
+  );
+}
+
+
+// ✅ POST — accept your invitation and join the workspace
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const found = await getInvitedWorkspace(slug, user);
+  if ("response" in found) return found.response;
+
+  const { error } = await supabaseServer
+    .from("workspace_members")
+    .upsert(
+      [{ workspace_id: found.workspace.id, user_id: user.id, role: "member" }],
+      { onConflict: "workspace_id,user_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  await supabaseServer
+    .from("workspace_invites")
+    .delete()
+    .eq("workspace_id", found.workspace.id)
+    .eq("user_id", user.id);
+
+  return NextResponse.json<Workspace & { role: WorkspaceRole }>({ ...found.workspace, role: "member" }, { status: 201 });
+}
+
+
+// ✅ DELETE — leave a workspace, or remove a member from it (owner only)
+//   ?user_id=  the member to remove; without it, you leave
+// Prompts shared into the workspace stay there, visible to its members.
+export async function DELETE(request: Request, context: RouteContext) {
+  const { slug } = await context.params;
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const found = await getMemberWorkspace(slug, user);
+  if ("response" in found) return found.response;
+
+  const memberId = new URL(request.url).searchParams.get("user_id") ?? user.id;
+
+  if (memberId !== user.id && found.role !== "owner") {
+    return NextResponse.json(
+      { error: "Only the workspace owner can remove members" },
+      { status: 403 }
+    );
+  }
+
+  if (memberId === found.workspace.owner_id) {
+    return NextResponse.json(
+      { error: "The owner can't leave their own workspace" },
+      { status: 409 }
+    );
+  }
+
+  const { data, error } = await supabaseServer
+    .from("workspace_members")
+    .delete()
+    .eq("workspace_id", found.workspace.id)
+    .eq("user_id", memberId)
+    .select("user_id")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: "Member not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
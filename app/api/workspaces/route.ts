@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getRequestUser } from "@/lib/auth";
+import { parseWorkspaceInput, type Workspace, type WorkspaceList } from "@/lib/schemas";
+import { readJson, validationError } from "@/lib/http";
+import { slugify } from "@/lib/slug";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+const MAX_OWNED_WORKSPACES = 10;
+
+
+// ✅ GET — the caller's workspaces and their pending invitations
+export async function GET(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const [memberships, invites] = await Promise.all([
+    supabaseServer
+      .from("workspace_members")
+      .select("role, workspaces(*)")
+      .eq("user_id", user.id)
+      .order("joined_at", { ascending: true }),
+    supabaseServer
+      .from("workspace_invites")
+      .select("invited_by, created_at, workspaces(*)")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false }),
+  ]);
+
+  const error = memberships.error ?? invites.error;
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const memberRows = memberships.data ?? [];
+  const inviteRows = invites.data ?? [];
+
+  // Inviters are auth users, so their names come from profiles separately
+  const inviterIds = Array.from(new Set(inviteRows.map((i) => i.invited_by).filter(Boolean)));
+  const { data: inviters, error: invitersError } = inviterIds.length > 0
+    ? await supabaseServer.from("profiles").select("id, display_name").in("id", inviterIds)
+    : { data: [], error: null };
+
+  if (invitersError) {
+    return NextResponse.json(
+      { error: invitersError.message },
+      { status: 500 }
+    );
+  }
+
+  const names = new Map(inviters.map((p) => [p.id, p.display_name]));
+
+  return NextResponse.json<WorkspaceList>({
+    workspaces: memberRows.map((m) => ({
+      ...(m.workspaces as unknown as Workspace),
+      role: m.role,
+    })),
+    invites: inviteRows.map((i) => ({
+      workspace: i.workspaces as unknown as Workspace,
+      invited_by_name: names.get(i.invited_by) ?? null,
+      created_at: i.created_at,
+    })),
+  });
+}
+
+
+// ✅ POST — create a workspace, with the caller as its owner
+//   body: { name }
+export async function POST(request: Request) {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const limited = await checkRateLimit(request, user, "workspaces:write");
+  if (limited) return limited;
+
+  const json = await readJson(request);
+  if ("response" in json) return json.response;
+
+  const parsed = parseWorkspaceInput(json.body);
+  if ("errors" in parsed) return validationError(parsed.errors);
+
+  const { count, error: countError } = await supabaseServer
+    .from("workspaces")
+    .select("id", { count: "exact", head: true })
+    .eq("owner_id", user.id);
+
+  if (countError) {
+    return NextResponse.json(
+      { error: countError.message },
+      { status: 500 }
+    );
+  }
+
+  if ((count ?? 0) >= MAX_OWNED_WORKSPACES) {
+    return NextResponse.json(
+      { error: `You can own at most ${MAX_OWNED_WORKSPACES} workspaces` },
+      { status: 409 }
+    );
+  }
+
+  const { data, error } = await supabaseServer
+    .from("workspaces")
+    .insert([{
+      name: parsed.value.name,
+      slug: slugify(parsed.value.name),
+      owner_id: user.id,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const { error: memberError } = await supabaseServer
+    .from("workspace_members")
+    .insert([{ workspace_id: data.id, user_id: user.id, role: "owner" }]);
+
+  if (memberError) {
+    // Don't leave behind a workspace nobody can get into
+    await supabaseServer.from("workspaces").delete().eq("id", data.id);
+    return NextResponse.json(
+      { error: memberError.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<WorkspaceList["workspaces"][number]>({ ...data, role: "owner" }, { status: 201 });
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowDown, ArrowLeft, ArrowUp, Copy, Globe, Link2, Lock, Pencil, Trash2, X } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+import { useAuthUser } from "@/hooks/useAuthUser";
+import { RESTORE_WINDOW_DAYS } from "@/lib/moderation";
+import { ToastContainer, useToasts } from "@/components/Toasts";
+
+type CollectionPrompt = {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  author_name: string;
+};
+
+type CollectionDetail = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  owner_id: string;
+  owner_name: string;
+  is_public: boolean;
+  prompts: CollectionPrompt[];
+};
+
+export default function CollectionPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const router = useRouter();
+  const [user] = useAuthUser();
+  const { toasts, addToast, removeToast } = useToasts();
+  const [collection, setCollection] = useState<CollectionDetail | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ name: "", description: "" });
+  const [deleted, setDeleted] = useState(false);
+
+  const isOwner = !!user && collection?.owner_id === user.id;
+
+  const loadCollection = useCallback(async () => {
+    setLoadError(null);
+    try {
+      const res = await apiFetch(`/api/collections/${slug}`);
+      if (!res.ok) throw new Error(await readApiError(res, "Could not load collection"));
+      setCollection(await res.json());
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Could not load collection");
+    }
+  }, [slug]);
+
+  // Private collections only load once we know who is asking
+  useEffect(() => { loadCollection(); }, [loadCollection, user?.id]);
+
+  const updateCollection = async (changes: Partial<Pick<CollectionDetail, "name" | "description" | "is_public">>) => {
+    if (!collection) return;
+    try {
+      const res = await apiFetch(`/api/collections/${slug}`, { method: "PATCH", body: JSON.stringify(changes) });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not update collection"));
+      setCollection({ ...collection, ...(await res.json()) });
+      setEditing(false);
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : "Could not update collection", "error");
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    try {
+      const res = await apiFetch(`/api/collections/${slug}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not delete collection"));
+      setDeleted(true);
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : "Could not delete collection", "error");
+    }
+  };
+
+  const handleUndelete = async () => {
+    try {
+      const res = await apiFetch(`/api/collections/${slug}/undelete`, { method: "POST" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not restore collection"));
+      setDeleted(false);
+      addToast("Collection restored");
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : "Could not restore collection", "error");
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!collection) return;
+    const previous = collection.prompts;
+    const reordered = [...previous];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    setCollection({ ...collection, prompts: reordered });
+
+    try {
+      const res = await apiFetch(`/api/collections/${slug}/items`, {
+        method: "PUT",
+        body: JSON.stringify({ prompt_ids: reordered.map(p => p.id) }),
+      });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not reorder collection"));
+    } catch (err) {
+      setCollection(c => c && { ...c, prompts: previous });
+      addToast(err instanceof Error ? err.message : "Could not reorder collection", "error");
+    }
+  };
+
+  const handleRemove = async (promptId: string) => {
+    if (!collection) return;
+    const previous = collection.prompts;
+    setCollection({ ...collection, prompts: previous.filter(p => p.id !== promptId) });
+
+    try {
+      const res = await apiFetch(`/api/collections/${slug}/items?prompt_id=${encodeURIComponent(promptId)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not remove prompt"));
+    } catch (err) {
+      setCollection(c => c && { ...c, prompts: previous });
+      addToast(err instanceof Error ? err.message : "Could not remove prompt", "error");
+    }
+  };
+
+  const handleCopy = async (text: string, message: string) => {
+    await navigator.clipboard.writeText(text);
+    addToast(message);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-slate-900 font-sans">
+      <ToastContainer toasts={toasts} removeToast={removeToast} />
+
+      <main className="max-w-2xl mx-auto p-4 space-y-6">
+        <Link href="/collections" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" /> All collections
+        </Link>
+
+        {deleted ? (
+          <div className="bg-white border border-gray-200 rounded-xl p-6 text-center space-y-3">
+            <p className="text-sm text-gray-700">
+              Collection deleted. You can restore it for the next {RESTORE_WINDOW_DAYS} days.
+            </p>
+            <div className="flex justify-center gap-2">
+              <button onClick={handleUndelete} className="bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-800 transition">
+                Restore
+              </button>
+              <button onClick={() => router.push("/collections")} className="border border-gray-300 px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-50">
+                All collections
+              </button>
+            </div>
+          </div>
+        ) : loadError ? (
+          <div className="bg-white border border-red-200 rounded-xl p-6 text-center space-y-3">
+            <p className="text-sm text-red-700">{loadError}</p>
+            <button onClick={loadCollection} className="bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-800 transition">
+              Try again
+            </button>
+          </div>
+        ) : !collection ? (
+          <div className="text-center py-10">Loading collection...</div>
+        ) : (
+          <>
+            {/* Collection Header */}
+            <div className="bg-white border border-gray-200 rounded-xl p-5 shadow-sm space-y-3">
+              {editing ? (
+                <form
+                  onSubmit={e => { e.preventDefault(); updateCollection(form); }}
+                  className="space-y-2"
+                >
+                  <input
+                    className="w-full border p-2 rounded-lg font-bold"
+                    value={form.name}
+                    onChange={e => setForm({ ...form, name: e.target.value })}
+                  />
+                  <input
+                    placeholder="Description"
+                    className="w-full border p-2 rounded-lg text-sm"
+                    value={form.description}
+                    onChange={e => setForm({ ...form, description: e.target.value })}
+                  />
+                  <div className="flex gap-2 justify-end">
+                    <button type="button" onClick={() => setEditing(false)} className="p-1.5 text-gray-500"><X className="w-4 h-4" /></button>
+                    <button className="bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold">Save</button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex items-start gap-3">
+                  <div className="flex-1">
+                    <h1 className="text-2xl font-bold flex items-center gap-2">
+                      {collection.name}
+                      {!collection.is_public && <Lock className="w-4 h-4 text-gray-400" />}
+                    </h1>
+                    {collection.description && <p className="text-gray-600 mt-1">{collection.description}</p>}
+                    <p className="text-xs text-gray-400 mt-1">
+                      Curated by {collection.owner_name} · {collection.prompts.length} prompt{collection.prompts.length === 1 ? "" : "s"}
+                    </p>
+                  </div>
+                  {isOwner && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => { setForm({ name: collection.name, description: collection.description }); setEditing(true); }}
+                        className="text-gray-400 hover:text-gray-900 p-1"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={handleDeleteCollection} className="text-gray-400 hover:text-red-600 p-1" title="Delete collection">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                {collection.is_public && (
+                  <button
+                    onClick={() => handleCopy(window.location.href, "Link copied")}
+                    className="flex items-center gap-1 text-sm font-semibold bg-gray-100 px-3 py-1.5 rounded-full hover:bg-gray-200 transition"
+                  >
+                    <Link2 className="w-4 h-4" /> Copy link
+                  </button>
+                )}
+                {isOwner && (
+                  <button
+                    onClick={() => updateCollection({ is_public: !collection.is_public })}
+                    className="flex items-center gap-1 text-sm font-semibold bg-gray-100 px-3 py-1.5 rounded-full hover:bg-gray-200 transition"
+                  >
+                    {collection.is_public
+                      ? <><Lock className="w-4 h-4" /> Make private</>
+                      : <><Globe className="w-4 h-4" /> Make public</>}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Prompts */}
+            {collection.prompts.length === 0 ? (
+              <div className="text-center py-10 text-gray-500">
+                No prompts yet. Use the bookmark button on a post to add one.
+              </div>
+            ) : collection.prompts.map((p, i) => (
+              <div key={p.id} className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
+                <div className="p-4 bg-gray-50/50">
+                  <div className="flex items-start gap-2 mb-2">
+                    <span className="text-sm font-bold text-gray-400 mt-1">{i + 1}.</span>
+                    <div className="flex-1">
+                      <h3 className="font-bold text-lg">{p.title}</h3>
+                      <div className="text-xs text-gray-400">by {p.author_name}</div>
+                    </div>
+                    {isOwner && (
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => handleMove(i, -1)} disabled={i === 0} className="text-gray-400 hover:text-gray-900 p-1 disabled:opacity-30" title="Move up">
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleMove(i, 1)} disabled={i === collection.prompts.length - 1} className="text-gray-400 hover:text-gray-900 p-1 disabled:opacity-30" title="Move down">
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleRemove(p.id)} className="text-gray-400 hover:text-red-600 p-1" title="Remove from collection">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="font-mono text-sm text-gray-700 bg-white p-3 border rounded-md whitespace-pre-wrap">
+                    {p.content}
+                  </div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <div className="flex-1 flex flex-wrap gap-x-2 text-blue-600 text-sm font-medium">
+                      {p.tags?.map(tag => <span key={tag}>#{tag}</span>)}
+                    </div>
+                    <button
+                      onClick={() => handleCopy(p.content, "Copied to clipboard")}
+                      className="flex items-center gap-1 text-sm font-semibold bg-gray-100 px-3 py-1.5 rounded-full hover:bg-gray-200 transition"
+                    >
+                      <Copy className="w-4 h-4" /> Copy
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
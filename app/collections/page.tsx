@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, FolderOpen, Lock, Plus } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+import { useAuthUser } from "@/hooks/useAuthUser";
+import { ToastContainer, useToasts } from "@/components/Toasts";
+
+type CollectionSummary = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  owner_name: string;
+  is_public: boolean;
+  item_count: number;
+};
+
+const CollectionList = ({ title, collections }: { title: string; collections: CollectionSummary[] }) => (
+  <section className="space-y-3">
+    <h2 className="font-bold text-lg">{title}</h2>
+    {collections.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing here yet.</p>
+    ) : collections.map(c => (
+      <Link
+        key={c.id}
+        href={`/collections/${c.slug}`}
+        className="flex items-center gap-3 bg-white border border-gray-200 rounded-xl p-4 shadow-sm hover:border-gray-300 transition"
+      >
+        <FolderOpen className="w-6 h-6 text-gray-400 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-bold flex items-center gap-1.5">
+            {c.name}
+            {!c.is_public && <Lock className="w-3.5 h-3.5 text-gray-400" />}
+          </div>
+          {c.description && <div className="text-sm text-gray-600 truncate">{c.description}</div>}
+          <div className="text-xs text-gray-400">by {c.owner_name}</div>
+        </div>
+        <span className="text-sm text-gray-500">{c.item_count} prompt{c.item_count === 1 ? "" : "s"}</span>
+      </Link>
+    ))}
+  </section>
+);
+
+export default function CollectionsPage() {
+  const [user] = useAuthUser();
+  const { toasts, addToast, removeToast } = useToasts();
+  const [mine, setMine] = useState<CollectionSummary[]>([]);
+  const [publicCollections, setPublicCollections] = useState<CollectionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState({ name: "", description: "", is_public: false });
+
+  const loadCollections = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [publicRes, mineRes] = await Promise.all([
+        apiFetch("/api/collections"),
+        user ? apiFetch("/api/collections?mine=1") : null,
+      ]);
+      if (!publicRes.ok) throw new Error(await readApiError(publicRes, "Could not load collections"));
+      setPublicCollections(await publicRes.json());
+      if (mineRes) {
+        if (!mineRes.ok) throw new Error(await readApiError(mineRes, "Could not load your collections"));
+        setMine(await mineRes.json());
+      } else {
+        setMine([]);
+      }
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : "Could not load collections", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, addToast]);
+
+  useEffect(() => { loadCollections(); }, [loadCollections]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+    try {
+      const res = await apiFetch("/api/collections", { method: "POST", body: JSON.stringify(form) });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not create collection"));
+      const created: CollectionSummary = await res.json();
+      setMine(prev => [created, ...prev]);
+      setForm({ name: "", description: "", is_public: false });
+      addToast("Collection created");
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : "Could not create collection", "error");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-slate-900 font-sans">
+      <ToastContainer toasts={toasts} removeToast={removeToast} />
+
+      <main className="max-w-2xl mx-auto p-4 space-y-8">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" /> Back to feed
+        </Link>
+
+        {user && (
+          <form onSubmit={handleCreate} className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm space-y-3">
+            <h2 className="font-bold text-lg">New collection</h2>
+            <input
+              placeholder="Name, e.g. Onboarding"
+              className="w-full border p-2 rounded-lg"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+            />
+            <input
+              placeholder="Description (optional)"
+              className="w-full border p-2 rounded-lg"
+              value={form.description}
+              onChange={e => setForm({ ...form, description: e.target.value })}
+            />
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={form.is_public}
+                  onChange={e => setForm({ ...form, is_public: e.target.checked })}
+                />
+                Public — anyone with the link can view it
+              </label>
+              <button
+                disabled={!form.name.trim()}
+                className="flex items-center gap-1 bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-800 transition disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" /> Create
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading ? <div className="text-center py-10">Loading collections...</div> : (
+          <>
+            {user && <CollectionList title="Your collections" collections={mine} />}
+            <CollectionList title="Public collections" collections={publicCollections} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
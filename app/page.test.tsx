@@ -0,0 +1,177 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import SocialPromptApp from "./page";
+import { GET as listPrompts, POST as createPrompt } from "./api/prompts/route";
+import { memoryPrompt } from "@/lib/memoryPromptRepository";
+import { USERS, setUpMemoryBackend } from "@/test/routes";
+import { signInAs } from "@/test/supabaseClient";
+import type { Comment } from "@/lib/schemas";
+
+vi.mock("@/lib/supabaseClient", () => import("@/test/supabaseClient"));
+
+// IndexedDB isn't available here; the feed works without the offline copy
+vi.mock("@/lib/offlineStore", () => ({
+  saveCachedFeed: async () => {},
+  loadCachedFeed: async () => null,
+  listQueuedWrites: async () => [],
+  queueWrite: async () => {},
+  removeQueuedWrite: async () => {},
+  dropQueuedPrompt: async () => [],
+  dropQueuedReplies: async () => [],
+  replaceQueuedId: async () => {},
+}));
+
+const repository = setUpMemoryBackend();
+let comments: Comment[] = [];
+
+// The feed goes to the real /api/prompts handlers, backed by the in-memory
+// repository; the few other routes it needs are faked here
+async function api(request: Request): Promise<Response> {
+  const { pathname } = new URL(request.url);
+  const user = Object.entries(USERS).find(([token]) => request.headers.get("Authorization") === `Bearer ${token}`)?.[1];
+
+  if (pathname === "/api/prompts") {
+    return request.method === "POST" ? createPrompt(request) : listPrompts(request);
+  }
+
+  if (pathname === "/api/tags") {
+    const counts = new Map<string, number>();
+    for (const p of repository().data.prompts) for (const tag of p.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    return Response.json([...counts].map(([tag, count]) => ({ tag, count })));
+  }
+
+  const like = pathname.match(/^\/api\/prompts\/([^/]+)\/like$/);
+  if (like && user) {
+    const prompt = repository().data.prompts.find((p) => p.id === like[1])!;
+    const liked = request.method === "POST";
+    repository().data.likes = repository().data.likes.filter((l) => l.prompt_id !== prompt.id || l.user_id !== user.id);
+    if (liked) repository().data.likes.push({ user_id: user.id, prompt_id: prompt.id });
+    prompt.likes = repository().data.likes.filter((l) => l.prompt_id === prompt.id).length;
+    return Response.json({ liked_by_user: liked, likes: prompt.likes });
+  }
+
+  const thread = pathname.match(/^\/api\/prompts\/([^/]+)\/comments$/);
+  if (thread && request.method === "GET") {
+    return Response.json(comments.filter((c) => c.prompt_id === thread[1]));
+  }
+  if (thread && user) {
+    const { text } = await request.json();
+    const comment: Comment = {
+      id: crypto.randomUUID(),
+      prompt_id: thread[1],
+      parent_id: null,
+      user_id: user.id,
+      user_name: user.email.split("@")[0],
+      text,
+      created_at: new Date().toISOString(),
+      updated_at: null,
+    };
+    comments.push(comment);
+    return Response.json(comment, { status: 201 });
+  }
+
+  return Response.json({ error: "Not found" }, { status: 404 });
+}
+
+function seed(...prompts: Parameters<typeof memoryPrompt>[0][]) {
+  repository().data.prompts.push(...prompts.map(memoryPrompt));
+}
+
+// Titles of the prompts in the feed, in order
+function feedTitles() {
+  return screen.queryAllByRole("heading", { level: 3 }).map((h) => h.textContent);
+}
+
+beforeEach(() => {
+  comments = [];
+  signInAs(USERS.alice, "alice");
+  vi.stubGlobal("fetch", vi.fn((input: string, init?: RequestInit) => api(new Request(new URL(input, "http://localhost"), init))));
+  vi.stubGlobal("IntersectionObserver", class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  signInAs(null);
+});
+
+describe("feed", () => {
+  it("narrows the feed by search and by tag", async () => {
+    seed(
+      { id: "p1", author_id: USERS.bob.id, title: "SQL review", tags: ["sql"], created_at: "2026-03-01T00:00:00Z" },
+      { id: "p2", author_id: USERS.bob.id, title: "SQL explain", tags: ["sql"], created_at: "2026-02-01T00:00:00Z" },
+      { id: "p3", author_id: USERS.bob.id, title: "Code review", tags: ["code"], created_at: "2026-01-01T00:00:00Z" },
+    );
+    render(<SocialPromptApp />);
+    await waitFor(() => expect(feedTitles()).toEqual(["SQL review", "SQL explain", "Code review"]));
+
+    await userEvent.type(screen.getByPlaceholderText("Search prompts... (press /)"), "review");
+    await waitFor(() => expect(feedTitles().sort()).toEqual(["Code review", "SQL review"]));
+
+    await userEvent.clear(screen.getByPlaceholderText("Search prompts... (press /)"));
+    // The tag bar comes before the tags on each prompt
+    await userEvent.click(screen.getAllByRole("button", { name: "#code" })[0]);
+    await waitFor(() => expect(feedTitles()).toEqual(["Code review"]));
+  });
+
+  it("shows an error to retry when the feed can't load", async () => {
+    seed({ id: "p1", author_id: USERS.bob.id, title: "SQL review" });
+    repository().fail("searchPromptIds", "connection refused");
+    render(<SocialPromptApp />);
+    expect(await screen.findByText("connection refused")).toBeTruthy();
+
+    repository().fail("searchPromptIds", null);
+    await userEvent.click(screen.getByRole("button", { name: "Try again" }));
+    await waitFor(() => expect(feedTitles()).toEqual(["SQL review"]));
+  });
+
+  it("shares a new prompt", async () => {
+    render(<SocialPromptApp />);
+    await userEvent.click(await screen.findByRole("button", { name: "Share Prompt" }));
+
+    // Checked before anything is sent
+    await userEvent.click(screen.getByRole("button", { name: "Share" }));
+    expect(screen.getByText("Title is required")).toBeTruthy();
+
+    await userEvent.type(screen.getByPlaceholderText("Title"), "Haiku");
+    await userEvent.type(screen.getByPlaceholderText("Prompt content..."), "Write a haiku about the sea");
+    await userEvent.click(screen.getByRole("button", { name: "Share" }));
+
+    expect(await screen.findByText("Prompt Shared!")).toBeTruthy();
+    expect(feedTitles()).toEqual(["Haiku"]);
+    expect(repository().data.prompts).toEqual([
+      expect.objectContaining({ title: "Haiku", content: "Write a haiku about the sea", author_id: USERS.alice.id }),
+    ]);
+  });
+
+  it("likes and unlikes a prompt", async () => {
+    seed({ id: "p1", author_id: USERS.bob.id, title: "SQL review" });
+    render(<SocialPromptApp />);
+
+    await userEvent.click(await screen.findByTitle("Like"));
+    await waitFor(() => expect(screen.getByTitle("Unlike").textContent).toBe("1"));
+    expect(repository().data.likes).toEqual([{ user_id: USERS.alice.id, prompt_id: "p1" }]);
+
+    await userEvent.click(screen.getByTitle("Unlike"));
+    await waitFor(() => expect(screen.getByTitle("Like").textContent).toBe("0"));
+    expect(repository().data.likes).toEqual([]);
+  });
+
+  it("posts a comment", async () => {
+    seed({ id: "p1", author_id: USERS.bob.id, title: "SQL review" });
+    render(<SocialPromptApp />);
+
+    await userEvent.type(await screen.findByPlaceholderText("Add a comment... (@ to mention)"), "Works well on Postgres");
+    await userEvent.click(screen.getByRole("button", { name: "Post" }));
+
+    expect(await screen.findByText("Works well on Postgres")).toBeTruthy();
+    expect(screen.getByTitle("Comments").textContent).toBe("1");
+    expect(comments).toEqual([expect.objectContaining({ prompt_id: "p1", text: "Works well on Postgres", user_id: USERS.alice.id })]);
+  });
+});
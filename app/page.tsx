@@ -1,20 +1,50 @@
 "use client";
 
-import React, { useEffect, useState, useMemo, useCallback } from "react";
+import React, { useEffect, useState, useMemo, useCallback, useRef } from "react";
+import Link from "next/link";
 import { 
   Plus, Search, Copy, Trash2, Sparkles, 
   Tag, X, Command, Calendar, Filter,
-  Heart, MessageCircle, Send, User, MoreHorizontal, ThumbsDown, LogOut
+  Heart, MessageCircle, Send, User, ThumbsDown, LogOut,
+  Pencil, History, Download, Upload, ArrowUp, Play, GitFork, Lock, Users, LogIn
 } from "lucide-react";
-import { clsx, type ClassValue } from "clsx";
-import { twMerge } from "tailwind-merge";
 import { supabase } from "@/lib/supabaseClient"; // Make sure this path is correct
+import { ApiError, apiFetch, readApiError, recordUsageEvent, toApiError } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { useAuthUser } from "@/hooks/useAuthUser";
+import { useFeedRealtime, type FeedEvent } from "@/hooks/useFeedRealtime";
+import { useViewTracking } from "@/hooks/useViewTracking";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { ToastContainer, useToasts } from "@/components/Toasts";
+import SaveToCollectionMenu from "@/components/SaveToCollectionMenu";
+import ReportMenu from "@/components/ReportMenu";
+import CommentThread from "@/components/CommentThread";
+import MentionInput from "@/components/MentionInput";
+import NotificationsBell from "@/components/NotificationsBell";
+import { extractVariables } from "@/lib/templates";
+import PromptHistory from "@/components/PromptHistory";
+import PromptPlayground from "@/components/PromptPlayground";
+import PromptLineage from "@/components/PromptLineage";
+import TemplateDialog from "@/components/TemplateDialog";
+import TemplateVariablesFields from "@/components/TemplateVariablesFields";
+import TagInput from "@/components/TagInput";
+import ImportDialog from "@/components/ImportDialog";
+import WorkspaceSwitcher from "@/components/WorkspaceSwitcher";
+import UsageChart from "@/components/UsageChart";
+import OfflineBanner from "@/components/OfflineBanner";
+import CommandPalette, { type PaletteAction, type PalettePrompt } from "@/components/CommandPalette";
+import PromptLintPanel from "@/components/PromptLintPanel";
+import type { PromptFormat } from "@/lib/promptFormats";
+import { dropQueuedPrompt, loadCachedFeed, queueWrite, saveCachedFeed, type QueuedWrite } from "@/lib/offlineStore";
+import { isNetworkError, isOfflineId, offlineId, type SyncResult } from "@/lib/syncQueue";
+import {
+  parseCommentInput, parsePromptInput, parsePromptUpdate,
+  type Comment, type FieldErrors, type LikeState, type MostUsedPrompt, type Profile, type ProfileStats,
+  type Prompt as PromptRow, type PromptInput, type WorkspaceList,
+} from "@/lib/schemas";
 
 // --- UTILS ---
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
 function getRelativeTime(dateString: string) {
   const date = new Date(dateString);
   const now = new Date();
@@ -31,89 +61,113 @@ function getRelativeTime(dateString: string) {
 }
 
 // --- TYPES ---
-type Comment = {
-  id: string;
-  user_name: string;
-  text: string;
-  created_at: string;
+type Prompt = PromptRow & {
+  comments: Comment[]; // loaded on demand when the comment section is opened
 };
 
-type Prompt = {
-  id: string;
-  author_id: string;
-  author_name: string;
-  title: string;
-  content: string;
-  category: string;
-  created_at: string;
-  likes: number;
-  liked_by_user: boolean;
-  comments: Comment[];
-};
+// Fills in the client-only fields for a prompt row returned by the API
+function toPrompt(row: Partial<Prompt> & Pick<Prompt, "id" | "title" | "content" | "created_at">): Prompt {
+  return {
+    ...row,
+    tags: row.tags ?? [],
+    likes: row.likes || 0,
+    liked_by_user: row.liked_by_user ?? false,
+    comment_count: row.comment_count || 0,
+    copy_count: row.copy_count || 0,
+    comments: [],
+    version: row.version || 1,
+    variables: row.variables ?? {},
+    updated_at: row.updated_at ?? null,
+    author_id: row.author_id || "",
+    author_name: row.author_name || "Anonymous",
+    forked_from: row.forked_from ?? null,
+    fork_count: row.fork_count || 0,
+    parent: row.parent ?? null,
+    visibility: row.visibility ?? "public",
+    workspace_id: row.workspace_id ?? null
+  };
+}
 
-type ToastType = { id: number; message: string; type: "success" | "error" };
-
-// --- COMPONENTS ---
-
-const ToastContainer = ({ toasts, removeToast }: { toasts: ToastType[], removeToast: (id: number) => void }) => (
-  <div className="fixed bottom-6 right-6 z-50 flex flex-col gap-2 pointer-events-none">
-    {toasts.map((toast) => (
-      <div
-        key={toast.id}
-        onAnimationEnd={() => setTimeout(() => removeToast(toast.id), 3000)}
-        className={cn(
-          "pointer-events-auto flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg border backdrop-blur-md animate-in slide-in-from-bottom-5 fade-in duration-300",
-          toast.type === "success" 
-            ? "bg-emerald-50/90 border-emerald-200 text-emerald-800" 
-            : "bg-red-50/90 border-red-200 text-red-800"
-        )}
-      >
-        <span className="text-sm font-medium">{toast.message}</span>
-      </div>
-    ))}
-  </div>
-);
+type FeedPage = { items: Prompt[]; next_cursor: string | null };
+type FeedSort = "" | "newest" | "likes" | "comments" | "trending"; // "" = relevance when searching, else newest
+
+type PromptForm = PromptInput;
+
+const EMPTY_FORM: PromptForm = { title: "", content: "", tags: [], variables: {}, visibility: "public", workspace_id: null };
+
+type TagUsage = { tag: string; count: number };
+type CopyablePrompt = Pick<Prompt, "id" | "title" | "content" | "variables">;
+type TagMatch = "all" | "any";
+
+// Offline, search and tags are applied to the cached prompts locally
+function matchesFeedFilters(p: PromptRow, search: string, tags: string[], match: TagMatch) {
+  const q = search.toLowerCase();
+  if (q && !`${p.title}\n${p.content}`.toLowerCase().includes(q)) return false;
+  if (tags.length === 0) return true;
+  return match === "any" ? tags.some(t => p.tags.includes(t)) : tags.every(t => p.tags.includes(t));
+}
+
+// A post still on its way to the server: until the stored row replaces it,
+// its temporary ID means nothing to the API
+function isSaving(p: Pick<PromptRow, "id">) {
+  return p.id.startsWith("temp-");
+}
+
+// Not on the server yet: still being sent, or made offline and queued.
+// Deletes, likes and comments on a queued post are queued along with it;
+// everything else that needs its stored ID waits until it has been sent.
+function isUnsent(p: Pick<PromptRow, "id">) {
+  return isSaving(p) || isOfflineId(p.id);
+}
+
+// Validation messages shown under a form input
+const FieldError = ({ messages }: { messages?: string[] }) =>
+  messages?.length ? <p className="-mt-3 text-sm text-red-600">{messages.join(". ")}</p> : null;
 
 // --- MAIN APP ---
 export default function SocialPromptApp() {
-  const [user, setUser] = useState<any>(null); // SUPABASE USER STATE
+  const [user, setUser] = useAuthUser(); // SUPABASE USER STATE
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null); // set while showing the offline copy
   const [search, setSearch] = useState("");
-  const [activeTab, setActiveTab] = useState("All");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>("all");
+  const [popularTags, setPopularTags] = useState<TagUsage[]>([]);
+  const [sort, setSort] = useState<FeedSort>("");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [newPrompts, setNewPrompts] = useState<Prompt[]>([]); // arrived live, waiting behind the banner
+  const feedRequest = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const [showForm, setShowForm] = useState(false);
-  const [toasts, setToasts] = useState<ToastType[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [forkOf, setForkOf] = useState<Prompt | null>(null);
+  const { toasts, addToast, removeToast } = useToasts();
   
   // Form State
-  const [form, setForm] = useState({ title: "", content: "", category: "" });
+  const [form, setForm] = useState<PromptForm>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
   
   // Comment Input State
   const [commentInputs, setCommentInputs] = useState<Record<string, string>>({});
-
-  const addToast = useCallback((message: string, type: "success" | "error" = "success") => {
-    const id = Date.now();
-    setToasts((prev) => [...prev, { id, message, type }]);
-  }, []);
-
-  const removeToast = useCallback((id: number) => {
-    setToasts((prev) => prev.filter((t) => t.id !== id));
-  }, []);
+  const [openComments, setOpenComments] = useState<Record<string, boolean>>({});
+  const [openHistory, setOpenHistory] = useState<Record<string, boolean>>({});
+  const [openPlayground, setOpenPlayground] = useState<Record<string, boolean>>({});
+  const [openLineage, setOpenLineage] = useState<Record<string, boolean>>({});
+  const [templatePrompt, setTemplatePrompt] = useState<CopyablePrompt | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [myProfile, setMyProfile] = useState<(Profile & { stats: ProfileStats }) | null>(null);
+  const [mostUsed, setMostUsed] = useState<MostUsedPrompt[]>([]);
+  const [workspaceList, setWorkspaceList] = useState<WorkspaceList | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null); // feed filter; null = all prompts
+  const [showPalette, setShowPalette] = useState(false);
+  const searchRef = useRef<HTMLInputElement>(null);
 
   // --- SUPABASE AUTH ---
-  useEffect(() => {
-    // 1. Check active session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-    });
-
-    // 2. Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
   const loginWithGoogle = async () => {
     await supabase.auth.signInWithOAuth({
       provider: "google",
@@ -128,44 +182,295 @@ export default function SocialPromptApp() {
   };
 
   // --- DATA LOADING ---
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchPage = useCallback(async (cursor: string | null): Promise<FeedPage> => {
+    const params = new URLSearchParams();
+    if (debouncedSearch) params.set("q", debouncedSearch);
+    if (selectedTags.length > 0) params.set("tags", selectedTags.join(","));
+    if (selectedTags.length > 1 && tagMatch === "any") params.set("match", "any");
+    if (sort) params.set("sort", sort);
+    if (workspaceId) params.set("workspace", workspaceId);
+    if (cursor) params.set("cursor", cursor);
+
+    const res = await apiFetch(`/api/prompts?${params}`);
+    if (!res.ok) throw new Error(await readApiError(res, "Could not load prompts"));
+    const page: FeedPage = await res.json();
+    return { ...page, items: page.items.map(toPrompt) };
+  }, [debouncedSearch, selectedTags, tagMatch, sort, workspaceId]);
+
+  // The unfiltered feed is kept on the device, per user, for offline use
+  const feedCacheKey = user?.id ?? "anonymous";
+  const isDefaultFeed = !debouncedSearch && selectedTags.length === 0 && (sort === "" || sort === "newest") && !workspaceId;
+
   const loadPrompts = useCallback(async () => {
+    // Responses for an outdated query are dropped
+    const request = ++feedRequest.current;
     setLoading(true);
+    setLoadError(null);
     try {
-      const res = await fetch("/api/prompts");
-      const data = await res.json();
-      
-      const socialData = data.map((p: any) => ({
-        ...p,
-        likes: p.likes || 0,
-        liked_by_user: false,
-        comments: p.comments || [],
-        author_id: p.author_id || "other_user",
-        author_name: p.author_name || "Anonymous"
-      }));
-      setPrompts(socialData.sort((a: Prompt, b: Prompt) => 
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      ));
+      const page = await fetchPage(null);
+      if (request !== feedRequest.current) return;
+      setPrompts(page.items);
+      setNewPrompts([]);
+      setNextCursor(page.next_cursor);
+      setCachedAt(null);
+    } catch (err) {
+      if (request !== feedRequest.current) return;
+      const cached = isNetworkError(err) ? await loadCachedFeed(feedCacheKey).catch(() => null) : null;
+      if (request !== feedRequest.current) return;
+      if (cached) {
+        setPrompts(cached.prompts.filter(p => matchesFeedFilters(p, debouncedSearch, selectedTags, tagMatch)).map(toPrompt));
+        setNewPrompts([]);
+        setNextCursor(null);
+        setCachedAt(cached.saved_at);
+        return;
+      }
+      setLoadError(err instanceof Error && err.message ? err.message : "Could not load prompts");
+    } finally {
+      if (request === feedRequest.current) setLoading(false);
+    }
+  }, [fetchPage, feedCacheKey, debouncedSearch, selectedTags, tagMatch]);
+
+  // Keep the device's copy of the feed up to date, including changes made
+  // while offline. In-flight posts (temp IDs) wait until they're stored.
+  useEffect(() => {
+    if (!isDefaultFeed || loading || loadError) return;
+    const rows = prompts.filter(p => !p.id.startsWith("temp-")).map(p => ({ ...p, comments: [] }));
+    saveCachedFeed(feedCacheKey, rows, cachedAt ?? undefined).catch(() => {});
+  }, [prompts, isDefaultFeed, loading, loadError, feedCacheKey, cachedAt]);
+
+  // Reload when the user changes so liked_by_user reflects who is signed in
+  useEffect(() => { loadPrompts(); }, [loadPrompts, user?.id]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore || loading) return;
+    const request = feedRequest.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      if (request !== feedRequest.current) return;
+      setPrompts(prev => {
+        const seen = new Set(prev.map(p => p.id));
+        return [...prev, ...page.items.filter(p => !seen.has(p.id))];
+      });
+      setNextCursor(page.next_cursor);
     } catch {
-      // Mock Data Fallback
-      setPrompts([
-        {
-          id: "1", author_id: "other_user", author_name: "DesignGuru",
-          title: "Midjourney Photorealism", content: "Hyper realistic photo of...", category: "Art", created_at: new Date().toISOString(),
-          likes: 45, liked_by_user: false, comments: []
-        },
-        // We use the real user ID if logged in, otherwise a dummy ID for the demo
-        {
-          id: "2", author_id: user?.id || "demo_id", author_name: user?.user_metadata?.full_name || "You",
-          title: "Python Debugger", content: "Act as a python expert...", category: "Code", created_at: new Date().toISOString(),
-          likes: 12, liked_by_user: true, comments: []
-        }
-      ]);
+      addToast("Could not load more prompts", "error");
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, loading, fetchPage, addToast]);
+
+  // Infinite scroll: fetch the next page when the end of the feed comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const loadTags = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/tags");
+      if (res.ok) setPopularTags(await res.json());
+    } catch {
+      // The feed still works without the tag bar
+    }
+  }, []);
+
+  useEffect(() => { loadTags(); }, [loadTags]);
+
+  // Header stats cover all of the user's prompts, not just the loaded page
+  const loadMyProfile = useCallback(async () => {
+    if (!user) {
+      setMyProfile(null);
+      return;
+    }
+    try {
+      const res = await apiFetch(`/api/users/${user.id}`);
+      if (res.ok) setMyProfile(await res.json());
+    } catch {
+      // The header falls back to showing no stats
     }
   }, [user]);
 
-  useEffect(() => { loadPrompts(); }, [loadPrompts]);
+  useEffect(() => { loadMyProfile(); }, [loadMyProfile]);
+
+  const loadMostUsed = useCallback(async () => {
+    if (!user) {
+      setMostUsed([]);
+      return;
+    }
+    try {
+      const res = await apiFetch("/api/prompts/most-used");
+      if (res.ok) setMostUsed(await res.json());
+    } catch {
+      // The header just leaves the list out
+    }
+  }, [user]);
+
+  useEffect(() => { loadMostUsed(); }, [loadMostUsed]);
+
+  const loadWorkspaces = useCallback(async () => {
+    if (!user) {
+      setWorkspaceList(null);
+      setWorkspaceId(null);
+      return;
+    }
+    try {
+      const res = await apiFetch("/api/workspaces");
+      if (!res.ok) return;
+      const list: WorkspaceList = await res.json();
+      setWorkspaceList(list);
+      // Go back to all prompts after leaving the workspace being shown
+      setWorkspaceId(id => list.workspaces.some(w => w.id === id) ? id : null);
+    } catch {
+      // Without the list only the public feed is offered
+    }
+  }, [user]);
+
+  useEffect(() => { loadWorkspaces(); }, [loadWorkspaces]);
+
+  // --- REALTIME ---
+
+  // New posts only belong at the top of the unfiltered, newest-first feed;
+  // in any other view they would be out of place, so they are not announced.
+  const showsLatest = !debouncedSearch && selectedTags.length === 0 && (sort === "" || sort === "newest");
+
+  // Adds a comment unless it is already there: our own comments come back
+  // both from the POST and over the channel, in either order.
+  const addComment = (comment: Comment, countIt: boolean) => {
+    setPrompts(prev => prev.map(p =>
+      p.id !== comment.prompt_id || p.comments.some(c => c.id === comment.id) ? p
+        : { ...p, comments: [...p.comments, comment], comment_count: countIt ? p.comment_count + 1 : p.comment_count }
+    ));
+  };
+
+  // A deleted comment that still has replies stays, blanked, to hold them;
+  // a deleted root whose last reply goes is dropped too
+  const removeComment = (promptId: string, id: string) => {
+    setPrompts(prev => prev.map(p => {
+      if (p.id !== promptId) return p;
+      const rest = p.comments.filter(c => c.id !== id);
+      const comments = rest.some(c => c.parent_id === id)
+        ? p.comments.map(c => c.id === id ? { ...c, text: "", deleted_at: c.deleted_at ?? new Date().toISOString() } : c)
+        : rest;
+      return { ...p, comments: comments.filter(c => !c.deleted_at || comments.some(r => r.parent_id === c.id)) };
+    }));
+  };
+
+  const replaceComment = (comment: Comment) => {
+    setPrompts(prev => prev.map(p =>
+      p.id === comment.prompt_id ? { ...p, comments: p.comments.map(c => c.id === comment.id ? comment : c) } : p
+    ));
+  };
+
+  const handleFeedEvent = (event: FeedEvent) => {
+    switch (event.type) {
+      case "prompt_inserted": {
+        // Our own posts are already in the feed through the optimistic insert
+        if (!showsLatest || event.prompt.author_id === user?.id) return;
+        if (workspaceId && event.prompt.workspace_id !== workspaceId) return;
+        if (prompts.some(p => p.id === event.prompt.id)) return;
+        const incoming = toPrompt(event.prompt);
+        setNewPrompts(prev => prev.some(p => p.id === incoming.id) ? prev : [incoming, ...prev]);
+        return;
+      }
+      case "prompt_updated":
+        applyServerPrompt(event.prompt);
+        setNewPrompts(prev => prev.map(p => p.id === event.prompt.id ? { ...p, ...toPrompt(event.prompt), liked_by_user: p.liked_by_user } : p));
+        return;
+      case "prompt_deleted":
+        setPrompts(prev => prev.filter(p => p.id !== event.id));
+        setNewPrompts(prev => prev.filter(p => p.id !== event.id));
+        return;
+      case "like_changed":
+        // Totals arrive with the prompt update; this only syncs our own
+        // likes from other tabs
+        if (event.user_id !== user?.id) return;
+        setPrompts(prev => prev.map(p => p.id === event.prompt_id ? { ...p, liked_by_user: event.liked } : p));
+        return;
+      case "comment_inserted":
+        addComment(event.comment, false);
+        return;
+      case "comment_updated":
+        replaceComment(event.comment);
+        return;
+      case "comment_deleted":
+        removeComment(event.prompt_id, event.id);
+        return;
+    }
+  };
+
+  useFeedRealtime(handleFeedEvent);
+
+  // --- OFFLINE ---
+
+  // Back online: tell the user about queued writes that didn't go through,
+  // then reload, so the feed shows what the server kept
+  const handleSynced = ({ outcomes }: SyncResult) => {
+    const synced = outcomes.filter(o => o.status === "synced").length;
+    if (synced > 0) addToast(`Sent ${synced} change${synced === 1 ? "" : "s"} made offline`);
+
+    for (const outcome of outcomes) {
+      if (outcome.status === "synced") continue;
+      const { write } = outcome;
+      if (write.kind === "delete" && outcome.status === "conflict") {
+        addToast(outcome.message, "error", { label: "Delete anyway", onClick: () => handleDeleteAnyway(write.prompt_id) });
+      } else if (write.kind === "create") {
+        // Back into the form, to fix and share again
+        setForm(write.input);
+        setShowForm(true);
+        addToast(outcome.message, "error");
+      } else {
+        addToast(outcome.message, "error");
+      }
+    }
+
+    if (outcomes.length > 0 || cachedAt) loadPrompts();
+    if (outcomes.length > 0) loadMyProfile();
+  };
+
+  const { online, pending: pendingWrites, refreshPending } = useOfflineSync(user?.id ?? null, handleSynced);
+
+  // Queues a write made without a connection, to be sent once it's back
+  const queueOffline = async (write: QueuedWrite) => {
+    if (!user) return;
+    try {
+      await queueWrite(user.id, write);
+      refreshPending();
+    } catch {
+      addToast("Could not save the change on this device", "error");
+    }
+  };
+
+  const handleDeleteAnyway = async (id: string) => {
+    try {
+      const res = await apiFetch(`/api/prompts/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not delete prompt"));
+      setPrompts(prev => prev.filter(p => p.id !== id));
+      addToast("Prompt deleted");
+      loadMyProfile();
+    } catch (err) {
+      addToast(err instanceof Error && err.message ? err.message : "Could not delete prompt", "error");
+    }
+  };
+
+  const showNewPrompts = () => {
+    setPrompts(prev => {
+      const seen = new Set(prev.map(p => p.id));
+      return [...newPrompts.filter(p => !seen.has(p.id)), ...prev];
+    });
+    setNewPrompts([]);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
   // --- ACTIONS ---
 
@@ -175,72 +480,357 @@ export default function SocialPromptApp() {
       addToast("Please login to share prompts", "error");
       return;
     }
-    if (!form.title.trim() || !form.content.trim()) return;
+    if (editingId) return handleEditSubmit(editingId);
 
-    const newPrompt: Prompt = {
-      id: Date.now().toString(),
+    const checked = parsePromptInput(form);
+    if ("errors" in checked) {
+      setFormErrors(checked.errors);
+      return;
+    }
+    setFormErrors({});
+
+    // Show the post straight away under a temporary ID, then swap in the
+    // stored row once the server answers
+    const submitted = form;
+    const tempId = `temp-${Date.now()}`;
+    const optimistic = toPrompt({
+      id: tempId,
       author_id: user.id, // REAL USER ID
       author_name: user.user_metadata?.full_name || user.email?.split('@')[0] || "Anonymous",
-      ...form,
+      ...submitted,
       created_at: new Date().toISOString(),
-      likes: 0,
-      liked_by_user: false,
-      comments: []
-    };
+      parent: forkOf && { id: forkOf.id, title: forkOf.title, author_name: forkOf.author_name }
+    });
+    const forkedFrom = forkOf;
 
-    setPrompts([newPrompt, ...prompts]);
-    setForm({ title: "", content: "", category: "" });
+    setPrompts(prev => [optimistic, ...prev]);
+    setForm(EMPTY_FORM);
+    setForkOf(null);
     setShowForm(false);
-    addToast("Prompt Shared!");
-    
-    // await fetch("/api/prompts", { method: "POST", body: JSON.stringify(newPrompt) });
+
+    try {
+      const res = await apiFetch("/api/prompts", { method: "POST", body: JSON.stringify(submitted) });
+      if (!res.ok) throw await toApiError(res, "Could not share prompt");
+      const row = await res.json();
+      const saved = toPrompt(row);
+      // A fork also comes back with the original's new fork count
+      setPrompts(prev => prev.map(p =>
+        p.id === tempId ? saved
+          : p.id === row.parent?.id ? { ...p, fork_count: row.parent.fork_count ?? p.fork_count }
+          : p
+      ));
+      addToast("Prompt Shared!");
+      loadTags();
+      loadMyProfile();
+    } catch (err) {
+      if (isNetworkError(err)) {
+        const localId = offlineId();
+        setPrompts(prev => prev.map(p => p.id === tempId ? { ...p, id: localId } : p));
+        await queueOffline({ kind: "create", temp_id: localId, input: submitted });
+        addToast("You're offline. Your prompt will be shared when you reconnect.");
+        return;
+      }
+      setPrompts(prev => prev.filter(p => p.id !== tempId));
+      setForm(submitted);
+      setForkOf(forkedFrom);
+      // Rejected fields go back into the form rather than a toast
+      if (err instanceof ApiError && err.fields) {
+        setFormErrors(err.fields);
+        setShowForm(true);
+        return;
+      }
+      addToast(err instanceof Error && err.message ? err.message : "Could not share prompt", "error");
+    }
+  };
+
+  const openEditForm = (p: Prompt) => {
+    setEditingId(p.id);
+    setForm({ title: p.title, content: p.content, tags: p.tags, variables: p.variables, visibility: p.visibility, workspace_id: p.workspace_id });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  // New posts are shared with the workspace being viewed, if any
+  const defaultVisibility = (): Pick<PromptForm, "visibility" | "workspace_id"> =>
+    workspaceId ? { visibility: "workspace", workspace_id: workspaceId } : { visibility: "public", workspace_id: null };
+
+  const openCreateForm = () => {
+    // A draft keeps whatever it was set to
+    if (!form.title && !form.content) setForm({ ...form, ...defaultVisibility() });
+    setShowForm(true);
+  };
+
+  // Opens the create form pre-filled with a copy of `p`, linked back to it
+  const openForkForm = (p: Prompt) => {
+    if (!user) {
+      addToast("Login to fork prompts", "error");
+      return;
+    }
+    setEditingId(null);
+    setForkOf(p);
+    setForm({ title: p.title, content: p.content, tags: p.tags, variables: p.variables, forked_from: p.id, ...defaultVisibility() });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setFormErrors({});
+    if (editingId || forkOf) {
+      setEditingId(null);
+      setForkOf(null);
+      setForm(EMPTY_FORM);
+    }
   };
 
+  // Merges an updated prompt row from the server, keeping client-only state
+  const applyServerPrompt = (row: PromptRow) => {
+    setPrompts(prev => prev.map(p =>
+      p.id === row.id ? { ...toPrompt(row), parent: row.parent ?? p.parent, usage: row.usage ?? p.usage, liked_by_user: p.liked_by_user, comments: p.comments } : p
+    ));
+  };
+
+  const handleEditSubmit = async (id: string) => {
+    const checked = parsePromptUpdate(form);
+    if ("errors" in checked) {
+      setFormErrors(checked.errors);
+      return;
+    }
+
+    try {
+      const res = await apiFetch(`/api/prompts/${id}`, { method: "PATCH", body: JSON.stringify(form) });
+      if (!res.ok) throw await toApiError(res, "Could not save changes");
+      applyServerPrompt(await res.json());
+      closeForm();
+      addToast("Prompt updated");
+    } catch (err) {
+      if (err instanceof ApiError && err.fields) {
+        setFormErrors(err.fields);
+        return;
+      }
+      addToast(err instanceof Error && err.message ? err.message : "Could not save changes", "error");
+    }
+  };
+
+  const handleRestore = async (id: string, version: number) => {
+    try {
+      const res = await apiFetch(`/api/prompts/${id}/restore`, { method: "POST", body: JSON.stringify({ version }) });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not restore version"));
+      applyServerPrompt(await res.json());
+      addToast(`Restored v${version}`);
+    } catch (err) {
+      addToast(err instanceof Error && err.message ? err.message : "Could not restore version", "error");
+    }
+  };
+
+  // Deletes are soft, so instead of asking first we offer an undo
   const handleDelete = async (id: string) => {
-    if (!confirm("Delete this prompt?")) return;
+    const index = prompts.findIndex(p => p.id === id);
+    if (index === -1) return;
+    const removed = prompts[index];
+
     setPrompts((prev) => prev.filter((p) => p.id !== id));
-    addToast("Prompt deleted");
-    // await fetch(`/api/prompts/${id}`, { method: "DELETE" });
+
+    // Never sent, so there is nothing to delete on the server
+    if (isOfflineId(id)) {
+      if (user) await dropQueuedPrompt(user.id, id).catch(() => {});
+      refreshPending();
+      addToast("Prompt deleted");
+      return;
+    }
+
+    try {
+      const res = await apiFetch(`/api/prompts/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not delete prompt"));
+      addToast("Prompt deleted", "success", { label: "Undo", onClick: () => handleUndelete(removed, index) });
+      loadMyProfile();
+    } catch (err) {
+      if (isNetworkError(err)) {
+        await queueOffline({ kind: "delete", prompt_id: id, version: removed.version, title: removed.title });
+        addToast("You're offline. The prompt will be deleted when you reconnect.");
+        return;
+      }
+      // Put it back where it was
+      setPrompts(prev => [...prev.slice(0, index), removed, ...prev.slice(index)]);
+      addToast(err instanceof Error && err.message ? err.message : "Could not delete prompt", "error");
+    }
+  };
+
+  const handleUndelete = async (removed: Prompt, index: number) => {
+    try {
+      const res = await apiFetch(`/api/prompts/${removed.id}/undelete`, { method: "POST" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not restore prompt"));
+      const restored = { ...toPrompt(await res.json()), parent: removed.parent, liked_by_user: removed.liked_by_user };
+      setPrompts(prev => prev.some(p => p.id === removed.id) ? prev
+        : [...prev.slice(0, index), restored, ...prev.slice(index)]);
+      addToast("Prompt restored");
+      loadMyProfile();
+    } catch (err) {
+      addToast(err instanceof Error && err.message ? err.message : "Could not restore prompt", "error");
+    }
   };
 
-  const handleLike = (id: string) => {
+  const handleLike = async (id: string) => {
     if (!user) {
       addToast("Login to like posts", "error");
       return;
     }
-    setPrompts(prev => prev.map(p => {
-      if (p.id === id) {
-        const isLiked = !p.liked_by_user;
-        return {
-          ...p,
-          liked_by_user: isLiked,
-          likes: isLiked ? p.likes + 1 : p.likes - 1
-        };
-      }
-      return p;
-    }));
+    const target = prompts.find(p => p.id === id);
+    if (!target) return;
+    const wasLiked = target.liked_by_user;
+
+    // Optimistic toggle; the server's count wins once it answers
+    const setLiked = (liked: boolean, likes?: number) => setPrompts(prev => prev.map(p =>
+      p.id === id ? { ...p, liked_by_user: liked, likes: likes ?? (liked ? p.likes + 1 : p.likes - 1) } : p
+    ));
+    setLiked(!wasLiked);
+
+    const queueLike = () => queueOffline({ kind: "like", prompt_id: id, liked: !wasLiked, title: target.title });
+    if (isOfflineId(id)) return queueLike();
+
+    try {
+      const res = await apiFetch(`/api/prompts/${id}/like`, { method: wasLiked ? "DELETE" : "POST" });
+      if (!res.ok) throw await toApiError(res, "Could not update like");
+      const data: LikeState = await res.json();
+      setLiked(data.liked_by_user, data.likes);
+    } catch (err) {
+      if (isNetworkError(err)) return queueLike();
+      setLiked(wasLiked);
+      addToast(err instanceof Error && err.message ? err.message : "Could not update like", "error");
+    }
   };
 
-  const handleCommentSubmit = (id: string) => {
+  const loadComments = async (id: string) => {
+    try {
+      const res = await apiFetch(`/api/prompts/${id}/comments`);
+      if (!res.ok) throw new Error();
+      const comments: Comment[] = await res.json();
+      setPrompts(prev => prev.map(p =>
+        p.id === id ? { ...p, comments, comment_count: comments.filter(c => !c.deleted_at).length } : p
+      ));
+    } catch {
+      addToast("Could not load comments", "error");
+    }
+  };
+
+  const toggleComments = (id: string) => {
+    const open = !openComments[id];
+    setOpenComments(prev => ({ ...prev, [id]: open }));
+    if (open && !isOfflineId(id)) loadComments(id);
+  };
+
+  // Shows a comment made offline straight away and queues it
+  const queueOfflineComment = async (promptId: string, text: string, parentId: string | null) => {
+    if (!user) return;
+    const comment: Comment = {
+      id: offlineId(),
+      prompt_id: promptId,
+      parent_id: parentId,
+      user_id: user.id,
+      user_name: user.user_metadata?.full_name || user.email?.split('@')[0] || "Anonymous",
+      text: text.trim(),
+      created_at: new Date().toISOString(),
+      updated_at: null
+    };
+    addComment(comment, true);
+    const title = prompts.find(p => p.id === promptId)?.title ?? "";
+    await queueOffline({ kind: "comment", prompt_id: promptId, temp_id: comment.id, text: comment.text, parent_id: parentId, title });
+  };
+
+  const handleCommentSubmit = async (id: string) => {
     if (!user) {
        addToast("Login to comment", "error");
        return;
     }
-    const text = commentInputs[id];
-    if (!text?.trim()) return;
+    const text = commentInputs[id] ?? "";
+    const checked = parseCommentInput({ text });
+    if ("errors" in checked) {
+      if (text.trim()) addToast(checked.errors.text?.[0] ?? "Invalid comment", "error");
+      return;
+    }
 
-    const newComment: Comment = {
-      id: Date.now().toString(),
-      user_name: user.user_metadata?.full_name || "User",
-      text: text,
-      created_at: new Date().toISOString()
-    };
+    setCommentInputs(prev => ({ ...prev, [id]: "" }));
 
-    setPrompts(prev => prev.map(p => 
-      p.id === id ? { ...p, comments: [...p.comments, newComment] } : p
-    ));
+    if (isOfflineId(id)) return queueOfflineComment(id, text, null);
 
-    setCommentInputs(prev => ({ ...prev, [id]: "" }));
+    try {
+      const res = await apiFetch(`/api/prompts/${id}/comments`, {
+        method: "POST",
+        body: JSON.stringify({ text })
+      });
+      if (!res.ok) throw await toApiError(res, "Could not post comment");
+      const newComment: Comment = await res.json();
+
+      addComment(newComment, true);
+      setOpenComments(prev => ({ ...prev, [id]: true }));
+    } catch (err) {
+      if (isNetworkError(err)) return queueOfflineComment(id, text, null);
+      setCommentInputs(prev => ({ ...prev, [id]: text }));
+      addToast(err instanceof Error && err.message ? err.message : "Could not post comment", "error");
+    }
+  };
+
+  const handleReply = async (promptId: string, parentId: string, text: string): Promise<boolean> => {
+    const checked = parseCommentInput({ text, parent_id: parentId });
+    if ("errors" in checked) {
+      addToast(checked.errors.text?.[0] ?? "Invalid reply", "error");
+      return false;
+    }
+    if (isOfflineId(promptId) || isOfflineId(parentId)) {
+      await queueOfflineComment(promptId, text, parentId);
+      return true;
+    }
+    try {
+      const res = await apiFetch(`/api/prompts/${promptId}/comments`, {
+        method: "POST",
+        body: JSON.stringify(checked.value)
+      });
+      if (!res.ok) throw await toApiError(res, "Could not post reply");
+      addComment(await res.json(), true);
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) {
+        await queueOfflineComment(promptId, text, parentId);
+        return true;
+      }
+      addToast(err instanceof Error && err.message ? err.message : "Could not post reply", "error");
+      return false;
+    }
+  };
+
+  const handleEditComment = async (comment: Comment, text: string): Promise<boolean> => {
+    const checked = parseCommentInput({ text });
+    if ("errors" in checked) {
+      addToast(checked.errors.text?.[0] ?? "Invalid comment", "error");
+      return false;
+    }
+    try {
+      const res = await apiFetch(`/api/prompts/${comment.prompt_id}/comments/${comment.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ text: checked.value.text })
+      });
+      if (!res.ok) throw await toApiError(res, "Could not edit comment");
+      replaceComment(await res.json());
+      return true;
+    } catch (err) {
+      addToast(err instanceof Error && err.message ? err.message : "Could not edit comment", "error");
+      return false;
+    }
+  };
+
+  const handleDeleteComment = async (comment: Comment) => {
+    if (!confirm("Delete this comment?")) return;
+    const previous = prompts.find(p => p.id === comment.prompt_id);
+    removeComment(comment.prompt_id, comment.id);
+    setPrompts(prev => prev.map(p => p.id === comment.prompt_id ? { ...p, comment_count: Math.max(p.comment_count - 1, 0) } : p));
+
+    try {
+      const res = await apiFetch(`/api/prompts/${comment.prompt_id}/comments/${comment.id}`, { method: "DELETE" });
+      if (!res.ok) throw await toApiError(res, "Could not delete comment");
+    } catch (err) {
+      if (previous) setPrompts(prev => prev.map(p => p.id === previous.id ? { ...p, comments: previous.comments, comment_count: previous.comment_count } : p));
+      addToast(err instanceof Error && err.message ? err.message : "Could not delete comment", "error");
+    }
   };
 
   const handleCopy = async (text: string) => {
@@ -248,18 +838,129 @@ export default function SocialPromptApp() {
     addToast("Copied to clipboard");
   };
 
-  // Filtering
-  const categories = useMemo(() => ["All", ...Array.from(new Set(prompts.map(p => p.category).filter(Boolean)))], [prompts]);
-  const filtered = prompts.filter(p => {
-    const matchSearch = (p.title + p.content).toLowerCase().includes(search.toLowerCase());
-    const matchCat = activeTab === "All" || p.category === activeTab;
-    return matchSearch && matchCat;
+  const handleExport = async (format: PromptFormat) => {
+    setShowExportMenu(false);
+    try {
+      const res = await apiFetch(`/api/prompts/export?format=${format}`);
+      if (!res.ok) throw new Error(await readApiError(res, "Export failed"));
+      // Goes through fetch (not a plain link) so the request carries our session
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `prompts-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      addToast(err instanceof Error && err.message ? err.message : "Export failed", "error");
+    }
+  };
+
+  const handleImported = (created: number) => {
+    addToast(`Imported ${created} prompt${created === 1 ? "" : "s"}`);
+    loadPrompts();
+    loadTags();
+    loadMyProfile();
+  };
+
+  // Counts towards usage stats, the author's "most copied" list and our own
+  // most-used prompts. Today's bar of the chart goes up straight away.
+  const recordCopy = async (id: string) => {
+    if (isUnsent({ id })) return;
+    const today = new Date().toISOString().slice(0, 10);
+    const copyCount = await recordUsageEvent(id, "copy");
+    if (copyCount === null) return;
+    setPrompts(prev => prev.map(p => p.id !== id ? p : {
+      ...p,
+      copy_count: copyCount,
+      usage: p.usage?.map(d => d.day === today ? { ...d, copies: d.copies + 1 } : d),
+    }));
+    if (user) loadMostUsed();
+  };
+
+  // Views are counted once per prompt per page load
+  const trackView = useViewTracking(id => {
+    if (!isUnsent({ id })) recordUsageEvent(id, "view");
+  });
+
+  // Templated prompts ask for their {{variables}} before copying
+  const handleCopyPrompt = (p: CopyablePrompt) => {
+    if (extractVariables(p.content).length > 0) {
+      setTemplatePrompt(p);
+    } else {
+      handleCopy(p.content);
+      recordCopy(p.id);
+    }
+  };
+
+  // Filtering happens server-side; the tag bar shows popular tags plus any
+  // selected ones that aren't among them
+  const tagOptions = useMemo(() => {
+    const popular = popularTags.map(t => t.tag);
+    return [...selectedTags.filter(t => !popular.includes(t)), ...popular];
+  }, [popularTags, selectedTags]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  // Prompts the one being written shouldn't duplicate: not itself, and not
+  // the original it is forking
+  const lintExisting = useMemo(
+    () => prompts.filter(p => p.id !== editingId && p.id !== forkOf?.id && !p.id.startsWith("temp-")),
+    [prompts, editingId, forkOf]
+  );
+
+  // --- KEYBOARD ---
+
+  const startNewPrompt = () => {
+    if (!user) {
+      addToast("Please login to share prompts", "error");
+      return;
+    }
+    openCreateForm();
+  };
+
+  // Our most-used prompts first, then the feed as loaded
+  const palettePrompts = useMemo<PalettePrompt[]>(() => {
+    const seen = new Set(mostUsed.map(p => p.id));
+    return [...mostUsed, ...prompts.filter(p => !seen.has(p.id) && !p.id.startsWith("temp-"))];
+  }, [mostUsed, prompts]);
+
+  const paletteActions: PaletteAction[] = [
+    { id: "new", label: "New prompt", icon: Plus, shortcut: "N", run: startNewPrompt },
+    { id: "search", label: "Search the feed", icon: Search, shortcut: "/", run: () => searchRef.current?.focus() },
+    ...(selectedTags.length > 0 || search
+      ? [{ id: "clear", label: "Clear search and filters", icon: X, run: () => { setSearch(""); setSelectedTags([]); } }]
+      : []),
+    user
+      ? { id: "logout", label: "Log out", icon: LogOut, run: handleLogout }
+      : { id: "login", label: "Log in with Google", icon: LogIn, run: loginWithGoogle },
+    ...tagOptions.map(tag => ({ id: `tag:${tag}`, label: `Filter by #${tag}`, icon: Tag, run: () => setSelectedTags([tag]) })),
+  ];
+
+  useKeyboardShortcuts({
+    "mod+k": () => setShowPalette(open => !open),
+    "/": () => searchRef.current?.focus(),
+    n: startNewPrompt,
+    escape: () => {
+      if (showPalette) setShowPalette(false);
+      else if (showForm) closeForm();
+    },
   });
 
   return (
     <div className="min-h-screen bg-gray-50 text-slate-900 font-sans">
       <ToastContainer toasts={toasts} removeToast={removeToast} />
 
+      {showPalette && (
+        <CommandPalette
+          prompts={palettePrompts}
+          actions={paletteActions}
+          onCopy={handleCopyPrompt}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+
       {/* --- INSTAGRAM STYLE PROFILE HEADER --- */}
       <div className="bg-white border-b border-gray-200 pt-8 pb-6 mb-6">
         <div className="max-w-4xl mx-auto px-4 flex items-center gap-6">
@@ -288,15 +989,32 @@ export default function SocialPromptApp() {
               <>
                 <div className="flex items-center gap-4 mb-3">
                   <h2 className="text-xl md:text-2xl font-bold">
-                    {user.user_metadata?.full_name || user.email?.split('@')[0]}
+                    <Link href={`/u/${myProfile?.handle ?? user.id}`} className="hover:underline">
+                      {user.user_metadata?.full_name || user.email?.split('@')[0]}
+                    </Link>
                   </h2>
                   <div className="flex gap-2">
                     <button 
-                      onClick={() => setShowForm(true)}
+                      onClick={openCreateForm}
                       className="bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-800 transition"
                     >
                       Share Prompt
                     </button>
+                    <Link
+                      href="/collections"
+                      className="border border-gray-300 px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-50"
+                    >
+                      Collections
+                    </Link>
+                    {myProfile?.role === "admin" && (
+                      <Link
+                        href="/admin/reports"
+                        className="border border-gray-300 px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-50"
+                      >
+                        Reports
+                      </Link>
+                    )}
+                    <NotificationsBell />
                     <button 
                       onClick={handleLogout}
                       className="border border-gray-300 px-3 py-1.5 rounded-lg hover:bg-gray-50"
@@ -307,10 +1025,25 @@ export default function SocialPromptApp() {
                   </div>
                 </div>
                 <div className="flex gap-6 text-sm md:text-base">
-                  <div><span className="font-bold">{prompts.filter(p => p.author_id === user.id).length}</span> posts</div>
-                  <div><span className="font-bold">{prompts.reduce((acc, p) => p.author_id === user.id ? acc + p.likes : acc, 0)}</span> likes received</div>
+                  <div><span className="font-bold">{myProfile?.stats.prompt_count ?? "–"}</span> posts</div>
+                  <div><span className="font-bold">{myProfile?.stats.likes_received ?? "–"}</span> likes received</div>
                 </div>
-                <p className="mt-3 text-sm text-gray-600">{user.email}</p>
+                <p className="mt-3 text-sm text-gray-600">{myProfile?.handle ? `@${myProfile.handle}` : user.email}</p>
+                {mostUsed.length > 0 && (
+                  <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-500">Your most used:</span>
+                    {mostUsed.map(m => (
+                      <button
+                        key={m.id}
+                        onClick={() => handleCopyPrompt(m)}
+                        className="flex items-center gap-1 bg-gray-100 px-2.5 py-1 rounded-full hover:bg-gray-200 max-w-48"
+                        title={`Copy · used ${m.copies} time${m.copies === 1 ? "" : "s"}`}
+                      >
+                        <Copy className="w-3.5 h-3.5 shrink-0" /> <span className="truncate">{m.title}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </>
             ) : (
               // LOGGED OUT VIEW
@@ -334,62 +1067,199 @@ export default function SocialPromptApp() {
       {/* --- CREATE FORM MODAL --- */}
       {showForm && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-in fade-in zoom-in duration-200">
+          <div className="bg-white rounded-2xl w-full max-w-3xl max-h-full overflow-y-auto p-6 shadow-2xl animate-in fade-in zoom-in duration-200">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="font-bold text-lg">New Post</h3>
-              <button onClick={() => setShowForm(false)}><X/></button>
+              <h3 className="font-bold text-lg">{editingId ? "Edit Post" : forkOf ? "Fork Post" : "New Post"}</h3>
+              <button onClick={closeForm}><X/></button>
+            </div>
+            {forkOf && (
+              <p className="-mt-2 mb-4 flex items-center gap-1.5 text-sm text-gray-500">
+                <GitFork className="w-4 h-4" /> Forking “{forkOf.title}” by {forkOf.author_name}
+              </p>
+            )}
+            <div className="grid gap-6 md:grid-cols-[1fr_15rem]">
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <input 
+                  placeholder="Title" 
+                  className="w-full border p-2 rounded-lg"
+                  value={form.title}
+                  onChange={e => setForm({...form, title: e.target.value})}
+                />
+                <FieldError messages={formErrors.title} />
+                <TagInput
+                  tags={form.tags}
+                  onChange={tags => setForm({...form, tags})}
+                />
+                <FieldError messages={formErrors.tags} />
+                <textarea 
+                  placeholder="Prompt content..." 
+                  className="w-full border p-2 rounded-lg h-32"
+                  value={form.content}
+                  onChange={e => setForm({...form, content: e.target.value})}
+                />
+                <FieldError messages={formErrors.content} />
+                <TemplateVariablesFields
+                  content={form.content}
+                  variables={form.variables}
+                  onChange={variables => setForm({...form, variables})}
+                />
+                <FieldError messages={formErrors.variables ?? formErrors._} />
+                <select
+                  className="w-full border p-2 rounded-lg text-sm"
+                  value={form.visibility === "workspace" ? `workspace:${form.workspace_id}` : form.visibility}
+                  onChange={e => {
+                    const [visibility, id] = e.target.value.split(":");
+                    setForm({ ...form, visibility: visibility as PromptForm["visibility"], workspace_id: id ?? null });
+                  }}
+                >
+                  <option value="public">Public: everyone can see it</option>
+                  {workspaceList?.workspaces.map(w => (
+                    <option key={w.id} value={`workspace:${w.id}`}>Workspace: {w.name}</option>
+                  ))}
+                  <option value="private">Private: only you can see it</option>
+                </select>
+                <FieldError messages={formErrors.visibility ?? formErrors.workspace_id} />
+                <button className="w-full bg-blue-600 text-white py-2 rounded-lg font-bold">{editingId ? "Save changes" : "Share"}</button>
+              </form>
+              <PromptLintPanel prompt={form} existing={lintExisting} />
             </div>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <input 
-                placeholder="Title" 
-                className="w-full border p-2 rounded-lg"
-                value={form.title}
-                onChange={e => setForm({...form, title: e.target.value})}
-              />
-               <input 
-                placeholder="Category" 
-                className="w-full border p-2 rounded-lg"
-                value={form.category}
-                onChange={e => setForm({...form, category: e.target.value})}
-              />
-              <textarea 
-                placeholder="Prompt content..." 
-                className="w-full border p-2 rounded-lg h-32"
-                value={form.content}
-                onChange={e => setForm({...form, content: e.target.value})}
-              />
-              <button className="w-full bg-blue-600 text-white py-2 rounded-lg font-bold">Share</button>
-            </form>
           </div>
         </div>
       )}
 
+      {templatePrompt && (
+        <TemplateDialog
+          title={templatePrompt.title}
+          content={templatePrompt.content}
+          variables={templatePrompt.variables}
+          onClose={() => setTemplatePrompt(null)}
+          onCopy={text => { handleCopy(text); recordCopy(templatePrompt.id); }}
+        />
+      )}
+
+      {showImport && (
+        <ImportDialog onClose={() => setShowImport(false)} onImported={handleImported} />
+      )}
+
       {/* --- FEED --- */}
       <main className="max-w-2xl mx-auto p-4 space-y-6">
         
         {/* Search & Filter */}
         <div className="sticky top-4 z-30 flex flex-col gap-3 bg-gray-50/95 backdrop-blur-sm pb-2">
-          <div className="relative">
-            <Search className="absolute left-3 top-2.5 text-gray-400 w-4 h-4" />
-            <input 
-              className="w-full bg-white border border-gray-300 rounded-lg pl-9 p-2 focus:ring-2 focus:ring-black outline-none"
-              placeholder="Search prompts..."
-              value={search}
-              onChange={e => setSearch(e.target.value)}
-            />
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-2.5 text-gray-400 w-4 h-4" />
+              <input 
+                ref={searchRef}
+                className="w-full bg-white border border-gray-300 rounded-lg pl-9 p-2 focus:ring-2 focus:ring-black outline-none"
+                placeholder="Search prompts... (press /)"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                onKeyDown={e => e.key === "Escape" && e.currentTarget.blur()}
+              />
+            </div>
+            <button
+              onClick={() => setShowPalette(true)}
+              className="flex items-center gap-1 bg-white border border-gray-300 rounded-lg px-2.5 text-sm text-gray-500 hover:bg-gray-50"
+              title="Command palette (Cmd/Ctrl+K)"
+            >
+              <Command className="w-4 h-4" />K
+            </button>
+            <select
+              className="bg-white border border-gray-300 rounded-lg px-2 text-sm"
+              value={sort}
+              onChange={e => setSort(e.target.value as FeedSort)}
+              title="Sort"
+            >
+              <option value="">{debouncedSearch ? "Best match" : "Newest"}</option>
+              {(debouncedSearch || sort === "newest") && <option value="newest">Newest</option>}
+              <option value="likes">Most liked</option>
+              <option value="comments">Most commented</option>
+              <option value="trending">Trending</option>
+            </select>
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(open => !open)}
+                className="h-full bg-white border border-gray-300 rounded-lg px-2.5 hover:bg-gray-50"
+                title="Export"
+              >
+                <Download className="w-4 h-4 text-gray-600" />
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-1 w-32 bg-white border rounded-lg shadow-lg overflow-hidden z-10">
+                  {([["json", "JSON"], ["csv", "CSV"], ["md", "Markdown"]] as const).map(([format, label]) => (
+                    <button key={format} onClick={() => handleExport(format)} className="w-full text-left px-3 py-1.5 text-sm hover:bg-gray-50">
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {user && (
+              <button
+                onClick={() => setShowImport(true)}
+                className="bg-white border border-gray-300 rounded-lg px-2.5 hover:bg-gray-50"
+                title="Import"
+              >
+                <Upload className="w-4 h-4 text-gray-600" />
+              </button>
+            )}
           </div>
+          {user && workspaceList && (
+            <WorkspaceSwitcher
+              list={workspaceList}
+              selectedId={workspaceId}
+              onSelect={setWorkspaceId}
+              onChanged={loadWorkspaces}
+              onToast={addToast}
+            />
+          )}
           <div className="flex gap-2 overflow-x-auto scrollbar-hide">
-            {categories.map(cat => (
-              <button key={cat} onClick={() => setActiveTab(cat)} className={cn("px-4 py-1 rounded-full text-sm font-medium border whitespace-nowrap", activeTab === cat ? "bg-black text-white" : "bg-white text-gray-600")}>
-                {cat}
+            <button onClick={() => setSelectedTags([])} className={cn("px-4 py-1 rounded-full text-sm font-medium border whitespace-nowrap", selectedTags.length === 0 ? "bg-black text-white" : "bg-white text-gray-600")}>
+              All
+            </button>
+            {selectedTags.length > 1 && (
+              <button
+                onClick={() => setTagMatch(tagMatch === "all" ? "any" : "all")}
+                className="px-3 py-1 rounded-full text-xs font-bold border border-dashed whitespace-nowrap bg-white text-gray-600"
+                title={tagMatch === "all" ? "Showing prompts with every selected tag" : "Showing prompts with any selected tag"}
+              >
+                {tagMatch === "all" ? "AND" : "OR"}
+              </button>
+            )}
+            {tagOptions.map(tag => (
+              <button key={tag} onClick={() => toggleTag(tag)} className={cn("px-4 py-1 rounded-full text-sm font-medium border whitespace-nowrap", selectedTags.includes(tag) ? "bg-black text-white" : "bg-white text-gray-600")}>
+                #{tag}
               </button>
             ))}
           </div>
         </div>
 
+        <OfflineBanner online={online} cachedAt={cachedAt} pending={pendingWrites} />
+
+        {/* New posts from others wait here instead of shifting the feed */}
+        {newPrompts.length > 0 && !loading && (
+          <button
+            onClick={showNewPrompts}
+            className="sticky top-28 z-20 mx-auto flex items-center gap-1.5 bg-blue-600 text-white text-sm font-semibold px-4 py-1.5 rounded-full shadow-lg hover:bg-blue-700 transition"
+          >
+            <ArrowUp className="w-4 h-4" />
+            {newPrompts.length} new prompt{newPrompts.length === 1 ? "" : "s"}
+          </button>
+        )}
+
         {/* POSTS LIST */}
-        {loading ? <div className="text-center py-10">Loading feed...</div> : filtered.map(p => (
-          <div key={p.id} className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
+        {loading ? <div className="text-center py-10">Loading feed...</div> : loadError ? (
+          <div className="bg-white border border-red-200 rounded-xl p-6 text-center space-y-3">
+            <p className="text-sm text-red-700">{loadError}</p>
+            <button onClick={loadPrompts} className="bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-800 transition">
+              Try again
+            </button>
+          </div>
+        ) : prompts.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">No prompts found.</div>
+        ) : prompts.map(p => (
+          <div key={p.id} ref={trackView(p.id)} className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
             
             {/* Post Header */}
             <div className="p-3 flex items-center justify-between border-b border-gray-100">
@@ -399,75 +1269,174 @@ export default function SocialPromptApp() {
                    <span className="font-bold text-xs text-gray-500">{p.author_name[0]}</span>
                 </div>
                 <div>
-                  <div className="font-bold text-sm">{p.author_name}</div>
-                  <div className="text-xs text-gray-400" suppressHydrationWarning>{getRelativeTime(p.created_at)}</div>
+                  {p.author_id ? (
+                    <Link href={`/u/${p.author_id}`} className="font-bold text-sm hover:underline">{p.author_name}</Link>
+                  ) : (
+                    <div className="font-bold text-sm">{p.author_name}</div>
+                  )}
+                  <div className="text-xs text-gray-400 flex items-center gap-1.5" suppressHydrationWarning>
+                    {getRelativeTime(p.created_at)}
+                    {p.visibility === "private" && (
+                      <span className="flex items-center gap-0.5 text-gray-500"><Lock className="w-3 h-3" /> Private</span>
+                    )}
+                    {p.visibility === "workspace" && (
+                      <span className="flex items-center gap-0.5 text-gray-500">
+                        <Users className="w-3 h-3" /> {workspaceList?.workspaces.find(w => w.id === p.workspace_id)?.name ?? "Workspace"}
+                      </span>
+                    )}
+                  </div>
                 </div>
               </div>
               
-              {/* Only Owner can see Delete */}
-              {user && p.author_id === user.id && (
-                <button onClick={() => handleDelete(p.id)} className="text-gray-400 hover:text-red-600 p-1">
-                  <Trash2 className="w-4 h-4" />
-                </button>
+              {/* Only Owner can see Edit & Delete; everyone else can report */}
+              {user && p.author_id === user.id ? (
+                <div className="flex items-center gap-1">
+                  <button onClick={() => openEditForm(p)} disabled={isUnsent(p)} className="text-gray-400 hover:text-gray-900 p-1 disabled:opacity-30" title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(p.id)} disabled={isSaving(p)} className="text-gray-400 hover:text-red-600 p-1 disabled:opacity-30" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : user && !isUnsent(p) && (
+                <ReportMenu targetType="prompt" targetId={p.id} onToast={addToast} />
               )}
             </div>
 
             {/* Post Content */}
             <div className="p-4 bg-gray-50/50">
+               {p.parent && (
+                 <div className="mb-1 flex items-center gap-1 text-xs text-gray-500">
+                   <GitFork className="w-3.5 h-3.5" /> forked from “{p.parent.title}” by {p.parent.author_name}
+                 </div>
+               )}
                <h3 className="font-bold mb-2 text-lg">{p.title}</h3>
                <div className="font-mono text-sm text-gray-700 bg-white p-3 border rounded-md whitespace-pre-wrap">
                   {p.content}
                </div>
-               {p.category && <div className="mt-2 text-blue-600 text-sm font-medium">#{p.category}</div>}
+               {p.tags.length > 0 && (
+                 <div className="mt-2 flex flex-wrap gap-x-2 text-blue-600 text-sm font-medium">
+                   {p.tags.map(tag => (
+                     <button key={tag} onClick={() => !selectedTags.includes(tag) && toggleTag(tag)} className="hover:underline">#{tag}</button>
+                   ))}
+                 </div>
+               )}
             </div>
 
             {/* Actions Bar */}
             <div className="px-4 py-3 flex items-center gap-4">
               <button 
                 onClick={() => handleLike(p.id)}
-                className="flex items-center gap-1.5 group"
+                disabled={isSaving(p)}
+                className="flex items-center gap-1.5 group disabled:opacity-30"
+                title={p.liked_by_user ? "Unlike" : "Like"}
               >
                 <Heart className={cn("w-6 h-6 transition-all", p.liked_by_user ? "fill-red-500 text-red-500 scale-110" : "text-gray-600 group-hover:text-gray-900")} />
                 <span className="font-semibold text-sm">{p.likes}</span>
               </button>
 
-              <button className="flex items-center gap-1.5 text-gray-600 hover:text-gray-900">
+              <button onClick={() => toggleComments(p.id)} disabled={isSaving(p)} className="flex items-center gap-1.5 text-gray-600 hover:text-gray-900 disabled:opacity-30" title="Comments">
                 <MessageCircle className="w-6 h-6" />
-                <span className="font-semibold text-sm">{p.comments.length}</span>
+                <span className="font-semibold text-sm">{p.comment_count}</span>
+              </button>
+
+              {user && !isUnsent(p) && <SaveToCollectionMenu promptId={p.id} onToast={addToast} />}
+
+              {p.version > 1 && (
+                <button
+                  onClick={() => setOpenHistory(prev => ({ ...prev, [p.id]: !prev[p.id] }))}
+                  disabled={isUnsent(p)}
+                  className={cn("flex items-center gap-1.5 hover:text-gray-900 disabled:opacity-30", openHistory[p.id] ? "text-gray-900" : "text-gray-600")}
+                  title="Version history"
+                >
+                  <History className="w-5 h-5" />
+                  <span className="font-semibold text-sm">v{p.version}</span>
+                </button>
+              )}
+
+              <button
+                onClick={() => setOpenLineage(prev => ({ ...prev, [p.id]: !prev[p.id] }))}
+                disabled={isUnsent(p)}
+                className={cn("flex items-center gap-1.5 hover:text-gray-900 disabled:opacity-30", openLineage[p.id] ? "text-gray-900" : "text-gray-600")}
+                title="Forks"
+              >
+                <GitFork className="w-5 h-5" />
+                <span className="font-semibold text-sm">{p.fork_count}</span>
               </button>
 
               <div className="flex-1" />
 
-              <button onClick={() => handleCopy(p.content)} className="flex items-center gap-1 text-sm font-semibold bg-gray-100 px-3 py-1.5 rounded-full hover:bg-gray-200 transition">
+              {p.usage && p.usage.some(d => d.copies + d.views > 0) && <UsageChart usage={p.usage} />}
+
+              <button
+                onClick={() => setOpenPlayground(prev => ({ ...prev, [p.id]: !prev[p.id] }))}
+                disabled={isUnsent(p)}
+                className={cn("flex items-center gap-1 text-sm font-semibold px-3 py-1.5 rounded-full transition disabled:opacity-30", openPlayground[p.id] ? "bg-black text-white" : "bg-gray-100 hover:bg-gray-200")}
+              >
+                <Play className="w-4 h-4" /> Run
+              </button>
+
+              <button onClick={() => handleCopyPrompt(p)} className="flex items-center gap-1 text-sm font-semibold bg-gray-100 px-3 py-1.5 rounded-full hover:bg-gray-200 transition">
                 <Copy className="w-4 h-4" /> Copy
               </button>
             </div>
 
+            {/* Version History */}
+            {openHistory[p.id] && (
+              <div className="px-4 pb-4 border-t border-gray-50 pt-3">
+                <PromptHistory
+                  prompt={p}
+                  canRestore={!!user && p.author_id === user.id}
+                  onRestore={(version) => handleRestore(p.id, version)}
+                />
+              </div>
+            )}
+
+            {/* Forks */}
+            {openLineage[p.id] && (
+              <div className="px-4 pb-4 border-t border-gray-50 pt-3">
+                <PromptLineage promptId={p.id} onFork={user ? () => openForkForm(p) : undefined} />
+              </div>
+            )}
+
+            {/* Playground */}
+            {openPlayground[p.id] && (
+              <div className="px-4 pb-4 border-t border-gray-50 pt-3">
+                <PromptPlayground
+                  prompt={p}
+                  signedIn={!!user}
+                  isAuthor={!!user && p.author_id === user.id}
+                  onToast={addToast}
+                />
+              </div>
+            )}
+
             {/* Comments Section */}
             <div className="px-4 pb-4 border-t border-gray-50 pt-3">
-              {p.comments.length > 0 && (
-                <div className="space-y-2 mb-3 max-h-32 overflow-y-auto">
-                  {p.comments.map(c => (
-                    <div key={c.id} className="text-sm">
-                      <span className="font-bold mr-2">{c.user_name}</span>
-                      <span className="text-gray-700">{c.text}</span>
-                    </div>
-                  ))}
+              {openComments[p.id] && p.comments.length > 0 && (
+                <div className="mb-3">
+                  <CommentThread
+                    comments={p.comments}
+                    userId={user?.id ?? null}
+                    onReply={(parentId, text) => handleReply(p.id, parentId, text)}
+                    onEdit={handleEditComment}
+                    onDelete={handleDeleteComment}
+                    onToast={addToast}
+                  />
                 </div>
               )}
               
               <div className="flex gap-2">
-                <input 
-                  className="flex-1 text-sm outline-none placeholder:text-gray-400"
-                  placeholder={user ? "Add a comment..." : "Login to comment"}
-                  disabled={!user}
+                <MentionInput
+                  placeholder={user ? "Add a comment... (@ to mention)" : "Login to comment"}
+                  disabled={!user || isSaving(p)}
                   value={commentInputs[p.id] || ""}
-                  onChange={(e) => setCommentInputs(prev => ({ ...prev, [p.id]: e.target.value }))}
-                  onKeyDown={(e) => e.key === 'Enter' && handleCommentSubmit(p.id)}
+                  onChange={(value) => setCommentInputs(prev => ({ ...prev, [p.id]: value }))}
+                  onSubmit={() => handleCommentSubmit(p.id)}
                 />
                 <button 
                   onClick={() => handleCommentSubmit(p.id)}
-                  disabled={!user || !commentInputs[p.id]?.trim()}
+                  disabled={!user || isSaving(p) || !commentInputs[p.id]?.trim()}
                   className="text-blue-600 font-bold text-sm disabled:opacity-30 hover:text-blue-800"
                 >
                   Post
@@ -477,6 +1446,9 @@ export default function SocialPromptApp() {
 
           </div>
         ))}
+
+        <div ref={sentinelRef} />
+        {loadingMore && <div className="text-center py-4 text-sm text-gray-500">Loading more...</div>}
       </main>
     </div>
   );
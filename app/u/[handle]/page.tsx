@@ -0,0 +1,229 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Copy, Heart, MessageCircle, Pencil, User, X } from "lucide-react";
+import { ApiError, apiFetch, readApiError, recordUsageEvent, toApiError } from "@/lib/api";
+import { useAuthUser } from "@/hooks/useAuthUser";
+import { ToastContainer, useToasts } from "@/components/Toasts";
+import ApiKeysPanel from "@/components/ApiKeysPanel";
+import type { FieldErrors, Profile, ProfileStats, Prompt } from "@/lib/schemas";
+
+type ProfilePrompt = Pick<Prompt, "id" | "title" | "content" | "tags" | "likes" | "comment_count" | "copy_count" | "created_at">;
+
+type ProfileDetail = Profile & {
+  stats: ProfileStats;
+  top_prompts: ProfilePrompt[];
+};
+
+type PromptPage = { items: ProfilePrompt[]; next_cursor: string | null };
+
+const PromptCard = ({ prompt, onCopy }: { prompt: ProfilePrompt; onCopy: (prompt: ProfilePrompt) => void }) => (
+  <div className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm space-y-2">
+    <h3 className="font-bold text-lg">{prompt.title}</h3>
+    <div className="font-mono text-sm text-gray-700 bg-gray-50 p-3 border rounded-md whitespace-pre-wrap line-clamp-6">
+      {prompt.content}
+    </div>
+    <div className="flex items-center gap-3 text-sm text-gray-500">
+      <span className="flex items-center gap-1"><Heart className="w-4 h-4" /> {prompt.likes}</span>
+      <span className="flex items-center gap-1"><MessageCircle className="w-4 h-4" /> {prompt.comment_count}</span>
+      <span className="flex items-center gap-1"><Copy className="w-4 h-4" /> {prompt.copy_count}</span>
+      <div className="flex-1 flex flex-wrap gap-x-2 text-blue-600 font-medium">
+        {prompt.tags?.map(tag => <span key={tag}>#{tag}</span>)}
+      </div>
+      <button
+        onClick={() => onCopy(prompt)}
+        className="flex items-center gap-1 text-sm font-semibold bg-gray-100 text-slate-900 px-3 py-1.5 rounded-full hover:bg-gray-200 transition"
+      >
+        <Copy className="w-4 h-4" /> Copy
+      </button>
+    </div>
+  </div>
+);
+
+export default function ProfilePage() {
+  const { handle } = useParams<{ handle: string }>();
+  const router = useRouter();
+  const [user] = useAuthUser();
+  const { toasts, addToast, removeToast } = useToasts();
+  const [profile, setProfile] = useState<ProfileDetail | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [prompts, setPrompts] = useState<ProfilePrompt[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ handle: "", bio: "" });
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+
+  const isOwner = !!user && profile?.id === user.id;
+
+  const loadProfile = useCallback(async () => {
+    setLoadError(null);
+    try {
+      const res = await apiFetch(`/api/users/${handle}`);
+      if (!res.ok) throw new Error(await readApiError(res, "Could not load profile"));
+      const data: ProfileDetail = await res.json();
+      setProfile(data);
+      // Author links use the user ID; show the handle instead
+      if (data.handle !== handle) router.replace(`/u/${data.handle}`);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Could not load profile");
+    }
+  }, [handle, router]);
+
+  useEffect(() => { loadProfile(); }, [loadProfile]);
+
+  const loadPrompts = useCallback(async (authorId: string, cursor: string | null) => {
+    const params = new URLSearchParams({ author: authorId, sort: "newest" });
+    if (cursor) params.set("cursor", cursor);
+    try {
+      const res = await apiFetch(`/api/prompts?${params}`);
+      if (!res.ok) throw new Error(await readApiError(res, "Could not load prompts"));
+      const page: PromptPage = await res.json();
+      setPrompts(prev => cursor ? [...prev, ...page.items] : page.items);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : "Could not load prompts", "error");
+    }
+  }, [addToast]);
+
+  const profileId = profile?.id;
+  useEffect(() => { if (profileId) loadPrompts(profileId, null); }, [profileId, loadPrompts]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+    try {
+      const res = await apiFetch(`/api/users/${profile.id}`, { method: "PATCH", body: JSON.stringify(form) });
+      if (!res.ok) throw await toApiError(res, "Could not save profile");
+      const saved: Profile = await res.json();
+      setProfile({ ...profile, ...saved });
+      setEditing(false);
+      addToast("Profile updated");
+      if (saved.handle !== handle) router.replace(`/u/${saved.handle}`);
+    } catch (err) {
+      if (err instanceof ApiError && err.fields) {
+        setFormErrors(err.fields);
+        return;
+      }
+      addToast(err instanceof Error ? err.message : "Could not save profile", "error");
+    }
+  };
+
+  const handleCopy = async (prompt: ProfilePrompt) => {
+    await navigator.clipboard.writeText(prompt.content);
+    addToast("Copied to clipboard");
+    recordUsageEvent(prompt.id, "copy");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-slate-900 font-sans">
+      <ToastContainer toasts={toasts} removeToast={removeToast} />
+
+      <main className="max-w-2xl mx-auto p-4 space-y-6">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" /> Back to feed
+        </Link>
+
+        {loadError ? (
+          <div className="bg-white border border-red-200 rounded-xl p-6 text-center space-y-3">
+            <p className="text-sm text-red-700">{loadError}</p>
+            <button onClick={loadProfile} className="bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-800 transition">
+              Try again
+            </button>
+          </div>
+        ) : !profile ? (
+          <div className="text-center py-10">Loading profile...</div>
+        ) : (
+          <>
+            {/* Profile Header */}
+            <div className="bg-white border border-gray-200 rounded-xl p-5 shadow-sm flex items-start gap-5">
+              <div className="w-20 h-20 shrink-0 rounded-full bg-slate-100 overflow-hidden flex items-center justify-center text-slate-400">
+                {profile.avatar_url ? (
+                  // Avatars can be on any host, so they're shown as they are
+                  <Image src={profile.avatar_url} alt="Avatar" width={80} height={80} unoptimized className="w-full h-full object-cover" />
+                ) : (
+                  <User className="w-10 h-10" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <h1 className="text-2xl font-bold">{profile.display_name || profile.handle}</h1>
+                    <p className="text-sm text-gray-500">@{profile.handle}</p>
+                  </div>
+                  {isOwner && !editing && (
+                    <button
+                      onClick={() => { setForm({ handle: profile.handle, bio: profile.bio }); setFormErrors({}); setEditing(true); }}
+                      className="text-gray-400 hover:text-gray-900 p-1"
+                      title="Edit profile"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {editing ? (
+                  <form onSubmit={handleSave} className="space-y-2">
+                    <input
+                      placeholder="handle"
+                      className="w-full border p-2 rounded-lg text-sm"
+                      value={form.handle}
+                      onChange={e => setForm({ ...form, handle: e.target.value })}
+                    />
+                    {formErrors.handle && <p className="text-sm text-red-600">{formErrors.handle.join(". ")}</p>}
+                    <textarea
+                      placeholder="A few words about you"
+                      className="w-full border p-2 rounded-lg text-sm h-20"
+                      value={form.bio}
+                      onChange={e => setForm({ ...form, bio: e.target.value })}
+                    />
+                    {formErrors.bio && <p className="text-sm text-red-600">{formErrors.bio.join(". ")}</p>}
+                    <div className="flex gap-2 justify-end">
+                      <button type="button" onClick={() => setEditing(false)} className="p-1.5 text-gray-500"><X className="w-4 h-4" /></button>
+                      <button className="bg-black text-white px-4 py-1.5 rounded-lg text-sm font-semibold">Save</button>
+                    </div>
+                  </form>
+                ) : profile.bio && (
+                  <p className="text-gray-700 whitespace-pre-wrap">{profile.bio}</p>
+                )}
+
+                <div className="flex gap-5 text-sm">
+                  <div><span className="font-bold">{profile.stats.prompt_count}</span> posts</div>
+                  <div><span className="font-bold">{profile.stats.likes_received}</span> likes</div>
+                  <div><span className="font-bold">{profile.stats.comments_received}</span> comments</div>
+                  <div><span className="font-bold">{profile.stats.copies_received}</span> copies</div>
+                </div>
+              </div>
+            </div>
+
+            {isOwner && <ApiKeysPanel onToast={addToast} />}
+
+            {profile.top_prompts.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="font-bold text-lg">Most copied</h2>
+                {profile.top_prompts.map(p => <PromptCard key={p.id} prompt={p} onCopy={handleCopy} />)}
+              </section>
+            )}
+
+            <section className="space-y-3">
+              <h2 className="font-bold text-lg">Prompts</h2>
+              {prompts.length === 0 ? (
+                <p className="text-sm text-gray-500">No prompts yet.</p>
+              ) : prompts.map(p => <PromptCard key={p.id} prompt={p} onCopy={handleCopy} />)}
+              {nextCursor && (
+                <button
+                  onClick={() => loadPrompts(profile.id, nextCursor)}
+                  className="w-full border border-gray-300 bg-white py-2 rounded-lg text-sm font-semibold hover:bg-gray-50"
+                >
+                  Load more
+                </button>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { findApiKey } from "@/lib/auth";
+import { isApiKey, scopeAllows } from "@/lib/apiKeys";
+
+// A read-only API key on a request that changes something would otherwise
+// reach the route as an anonymous caller and get a 401. Answer with what is
+// actually wrong instead.
+export async function proxy(request: NextRequest) {
+  const header = request.headers.get("authorization");
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : null;
+  if (!token || !isApiKey(token) || scopeAllows("read", request.method)) return NextResponse.next();
+
+  const apiKey = await findApiKey(token);
+  if (apiKey && !scopeAllows(apiKey.scope, request.method)) {
+    return NextResponse.json(
+      { error: "This API key is read-only" },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -0,0 +1,345 @@
+// Generates public/openapi.json from the route handlers under app/api.
+//
+// Every handler is read with the TypeScript compiler:
+//   - its `// ✅ METHOD — ...` comment gives the summary and description, and
+//     each `?name=` it mentions becomes a query parameter
+//   - the request body is whatever its parse*() call from schemas.ts accepts
+//   - each NextResponse.json(...) it returns is a response, under its status,
+//     typed by the value it sends
+// Named types from src/ become shared schemas under components.
+//
+// Run `npm run openapi` after changing a route or a payload type.
+
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+
+type Schema = Record<string, unknown>;
+type Operation = Record<string, unknown>;
+
+const ROOT = process.cwd();
+const API_DIR = path.join(ROOT, "app", "api");
+const SRC_DIR = path.join(ROOT, "src");
+const OUTPUT = path.join(ROOT, "public", "openapi.json");
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const MAX_DEPTH = 8;
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  400: "Invalid request",
+  401: "Login required",
+  403: "Not allowed",
+  404: "Not found",
+  409: "Conflict",
+  410: "Gone",
+  500: "Server error",
+  502: "Upstream error",
+};
+
+function findRouteFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(full);
+    return entry.name === "route.ts" ? [full] : [];
+  });
+}
+
+// app/api/prompts/[id]/route.ts -> /api/prompts/{id}
+function routePath(file: string): string {
+  const segments = path.relative(path.join(ROOT, "app"), path.dirname(file)).split(path.sep);
+  return "/" + segments.map((s) => s.replace(/^\[(.+)\]$/, "{$1}")).join("/");
+}
+
+function loadProgram(files: string[]): ts.Program {
+  const config = ts.getParsedCommandLineOfConfigFile(path.join(ROOT, "tsconfig.json"), {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: (d) => {
+      throw new Error(ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+    },
+  });
+  if (!config) throw new Error("Could not read tsconfig.json");
+  return ts.createProgram(files, config.options);
+}
+
+function createSchemaBuilder(checker: ts.TypeChecker) {
+  const components: Record<string, Schema> = {};
+
+  // Exported, non-generic type aliases declared in src/ get their own schema
+  function componentName(type: ts.Type): string | null {
+    const alias = type.aliasSymbol;
+    if (!alias || type.aliasTypeArguments?.length) return null;
+    const file = alias.declarations?.[0]?.getSourceFile().fileName;
+    return file && path.resolve(file).startsWith(SRC_DIR) ? alias.name : null;
+  }
+
+  function withNull(schema: Schema): Schema {
+    if (typeof schema.type === "string") {
+      const nullable: Schema = { ...schema, type: [schema.type, "null"] };
+      if (Array.isArray(schema.enum)) nullable.enum = [...schema.enum, null];
+      return nullable;
+    }
+    return { anyOf: [schema, { type: "null" }] };
+  }
+
+  function unionSchema(types: ts.Type[], depth: number): Schema {
+    const present = types.filter((t) => !(t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+    const values = present.filter((t) => !(t.flags & ts.TypeFlags.Null));
+    const hasNull = values.length < present.length;
+
+    let schema: Schema;
+    if (values.length > 0 && values.every((t) => t.flags & ts.TypeFlags.BooleanLiteral)) {
+      schema = { type: "boolean" };
+    } else if (values.length > 0 && values.every((t) => t.isStringLiteral())) {
+      schema = { type: "string", enum: values.map((t) => (t as ts.StringLiteralType).value) };
+    } else if (values.length === 1) {
+      schema = toSchema(values[0], depth);
+    } else {
+      schema = { anyOf: values.map((t) => toSchema(t, depth)) };
+    }
+
+    return hasNull ? withNull(schema) : schema;
+  }
+
+  function objectSchema(type: ts.Type, depth: number): Schema {
+    const properties: Record<string, Schema> = {};
+    const required: string[] = [];
+
+    for (const prop of checker.getPropertiesOfType(type)) {
+      const propType = checker.getTypeOfSymbol(prop);
+      if (propType.getCallSignatures().length > 0) continue;
+      properties[prop.name] = toSchema(propType, depth + 1);
+      if (!(prop.flags & ts.SymbolFlags.Optional)) required.push(prop.name);
+    }
+
+    const schema: Schema = { type: "object", properties };
+    if (required.length > 0) schema.required = required;
+
+    const index = checker.getIndexInfosOfType(type).find((info) => info.keyType.flags & ts.TypeFlags.String);
+    if (index) schema.additionalProperties = toSchema(index.type, depth + 1);
+
+    return schema;
+  }
+
+  function inlineSchema(type: ts.Type, depth: number): Schema {
+    if (depth > MAX_DEPTH || type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+    if (type.flags & ts.TypeFlags.Boolean) return { type: "boolean" };
+    if (type.isUnion()) return unionSchema(type.types, depth);
+    if (type.isStringLiteral()) return { type: "string", enum: [type.value] };
+    if (type.isNumberLiteral()) return { type: "number", enum: [type.value] };
+    if (type.flags & ts.TypeFlags.StringLike) return { type: "string" };
+    if (type.flags & ts.TypeFlags.NumberLike) return { type: "number" };
+    if (type.flags & ts.TypeFlags.BooleanLike) return { type: "boolean" };
+    if (type.flags & ts.TypeFlags.Null) return { type: "null" };
+
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      const elements = checker.getTypeArguments(type as ts.TypeReference);
+      const items = checker.isArrayType(type) ? toSchema(elements[0], depth + 1) : unionSchema([...elements], depth + 1);
+      return { type: "array", items };
+    }
+
+    return objectSchema(type, depth);
+  }
+
+  function toSchema(type: ts.Type, depth = 0): Schema {
+    const name = componentName(type);
+    if (!name) return inlineSchema(type, depth);
+
+    if (!(name in components)) {
+      components[name] = {};
+      components[name] = inlineSchema(type, 0);
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  return { components, toSchema };
+}
+
+// The `// ✅ METHOD — summary` comment above a handler, and the lines after it
+function readDocComment(node: ts.Node, source: ts.SourceFile) {
+  const ranges = ts.getLeadingCommentRanges(source.text, node.getFullStart()) ?? [];
+  const lines = ranges
+    .map((r) => source.text.slice(r.pos, r.end))
+    .filter((text) => text.startsWith("//"))
+    .map((text) => text.replace(/^\/\/ ?/, ""));
+
+  const start = lines.findIndex((line) => line.startsWith("✅"));
+  if (start === -1) return { summary: undefined, description: undefined, query: [] as string[] };
+
+  const summary = lines[start].replace(/^✅\s*[A-Z]+\s*—\s*/, "");
+  const rest = lines.slice(start + 1).map((line) => line.replace(/^ {2}/, ""));
+  const query = Array.from(new Set(rest.join("\n").match(/\?[a-z_]+=/g) ?? [])).map((q) => q.slice(1, -1));
+
+  return { summary, description: rest.length > 0 ? rest.join("\n") : undefined, query };
+}
+
+function objectLiteralProperty(node: ts.Expression | undefined, name: string): ts.Expression | undefined {
+  if (!node || !ts.isObjectLiteralExpression(node)) return undefined;
+  for (const prop of node.properties) {
+    if (ts.isPropertyAssignment(prop) && prop.name.getText().replace(/"/g, "") === name) return prop.initializer;
+  }
+  return undefined;
+}
+
+function statusOf(init: ts.Expression | undefined): number {
+  const status = objectLiteralProperty(init, "status");
+  return status && ts.isNumericLiteral(status) ? Number(status.text) : 200;
+}
+
+function describeOperation(
+  fn: ts.FunctionDeclaration,
+  source: ts.SourceFile,
+  checker: ts.TypeChecker,
+  toSchema: (type: ts.Type) => Schema
+): Operation {
+  const doc = readDocComment(fn, source);
+  const responses = new Map<number, { schemas: Schema[]; messages: string[]; contentType: string }>();
+  let requestBody: Schema | undefined;
+  const visited = new Set<ts.Node>([fn]);
+
+  const addResponse = (status: number, contentType: string, schema: Schema, message?: string) => {
+    const entry = responses.get(status) ?? { schemas: [], messages: [], contentType };
+    if (!entry.schemas.some((s) => JSON.stringify(s) === JSON.stringify(schema))) entry.schemas.push(schema);
+    if (message && !entry.messages.includes(message)) entry.messages.push(message);
+    responses.set(status, entry);
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression.getText();
+
+      if (callee === "NextResponse.json") {
+        const returned = checker.getTypeAtLocation(node) as ts.TypeReference;
+        const body = checker.getTypeArguments(returned)[0];
+        const error = objectLiteralProperty(node.arguments[0], "error");
+        if (error) {
+          const message = ts.isStringLiteral(error) ? error.text : undefined;
+          addResponse(statusOf(node.arguments[1]), "application/json", { $ref: "#/components/schemas/Error" }, message);
+        } else {
+          addResponse(statusOf(node.arguments[1]), "application/json", body ? toSchema(body) : {});
+        }
+      } else if (callee === "validationError") {
+        addResponse(400, "application/json", { $ref: "#/components/schemas/ValidationError" });
+      } else if (ts.isIdentifier(node.expression)) {
+        // Our own helpers can answer for the handler too, like likeState() or
+        // checkPromptOwner(), so their responses count as the handler's
+        const symbol = checker.getSymbolAtLocation(node.expression);
+        const target = symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+        const helper = target?.declarations?.[0];
+        if (helper && ts.isFunctionDeclaration(helper) && !helper.getSourceFile().isDeclarationFile && !visited.has(helper)) {
+          visited.add(helper);
+          if (helper.body) visit(helper.body);
+        }
+      }
+
+      if (/^parse\w+$/.test(callee)) {
+        const declaration = checker.getResolvedSignature(node)?.getDeclaration();
+        if (declaration?.getSourceFile().fileName.endsWith(path.join("lib", "schemas.ts"))) {
+          const result = checker.getResolvedSignature(node)!.getReturnType();
+          const parsed = (result.isUnion() ? result.types : [result])
+            .map((t) => checker.getPropertyOfType(t, "value"))
+            .find((value) => value);
+          if (parsed) requestBody = toSchema(checker.getTypeOfSymbol(parsed));
+        }
+      }
+    } else if (ts.isNewExpression(node) && /^(Next)?Response$/.test(node.expression.getText())) {
+      const headers = objectLiteralProperty(node.arguments?.[1], "headers");
+      const contentType = objectLiteralProperty(headers, "Content-Type");
+      const type = contentType && ts.isStringLiteral(contentType) ? contentType.text.split(";")[0] : "text/plain";
+      addResponse(statusOf(node.arguments?.[1]), type, { type: "string" });
+    }
+    ts.forEachChild(node, visit);
+  };
+  if (fn.body) visit(fn.body);
+
+  const operation: Operation = {};
+  if (doc.summary) operation.summary = doc.summary;
+  if (doc.description) operation.description = doc.description;
+  if (doc.query.length > 0) {
+    operation.parameters = doc.query.map((name) => ({ name, in: "query", required: false, schema: { type: "string" } }));
+  }
+  if (requestBody) {
+    operation.requestBody = { required: true, content: { "application/json": { schema: requestBody } } };
+  }
+
+  operation.responses = Object.fromEntries(
+    Array.from(responses.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([status, { schemas, messages, contentType }]) => [
+        String(status),
+        {
+          description: messages.length > 0 ? messages.join("; ") : STATUS_DESCRIPTIONS[status] ?? "Response",
+          content: { [contentType]: { schema: schemas.length === 1 ? schemas[0] : { anyOf: schemas } } },
+        },
+      ])
+  );
+
+  return operation;
+}
+
+function generate() {
+  const files = findRouteFiles(API_DIR).sort();
+  const program = loadProgram(files);
+  const checker = program.getTypeChecker();
+  const { components, toSchema } = createSchemaBuilder(checker);
+  const paths: Record<string, Record<string, Operation>> = {};
+
+  for (const file of files) {
+    const source = program.getSourceFile(file);
+    if (!source) continue;
+
+    const route = routePath(file);
+    const parameters = Array.from(route.matchAll(/\{(\w+)\}/g), ([, name]) => ({
+      name, in: "path", required: true, schema: { type: "string" },
+    }));
+
+    for (const statement of source.statements) {
+      if (!ts.isFunctionDeclaration(statement) || !statement.name) continue;
+      const method = statement.name.text;
+      if (!METHODS.includes(method)) continue;
+
+      const operation = describeOperation(statement, source, checker, toSchema);
+      if (parameters.length > 0) operation.parameters = [...parameters, ...((operation.parameters as object[]) ?? [])];
+      (paths[route] ??= {})[method.toLowerCase()] = operation;
+    }
+  }
+
+  const spec = {
+    openapi: "3.1.0",
+    info: {
+      title: "Prompt library API",
+      version: "1.0.0",
+      description: "Authenticate with a personal API key from your profile page: `Authorization: Bearer psk_...`. "
+        + "Read-only keys can only make GET requests.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "A personal API key or a Supabase access token" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          properties: { error: { type: "string" } },
+          required: ["error"],
+        },
+        ValidationError: {
+          type: "object",
+          properties: {
+            error: { type: "string" },
+            fields: { type: "object", additionalProperties: { type: "array", items: { type: "string" } } },
+          },
+          required: ["error", "fields"],
+        },
+        ...Object.fromEntries(Object.entries(components).sort(([a], [b]) => a.localeCompare(b))),
+      },
+    },
+  };
+
+  fs.writeFileSync(OUTPUT, JSON.stringify(spec, null, 2) + "\n");
+  console.log(`Wrote ${path.relative(ROOT, OUTPUT)}: ${Object.keys(paths).length} paths, ${Object.keys(components).length} schemas`);
+}
+
+generate();
@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { ApiError, apiFetch, readApiError, toApiError } from "@/lib/api";
+import type { ApiKeyScope } from "@/lib/apiKeys";
+import type { ApiKey, CreatedApiKey, FieldErrors } from "@/lib/schemas";
+
+type ApiKeysPanelProps = {
+  onToast: (message: string, type?: "success" | "error") => void;
+};
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  read: "Read only",
+  write: "Read and write",
+};
+
+// Personal API keys, on the owner's own profile page
+export default function ApiKeysPanel({ onToast }: ApiKeysPanelProps) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<{ name: string; scope: ApiKeyScope }>({ name: "", scope: "read" });
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/keys");
+      if (!res.ok) throw new Error(await readApiError(res, "Could not load API keys"));
+      setKeys(await res.json());
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "Could not load API keys", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [onToast]);
+
+  useEffect(() => { loadKeys(); }, [loadKeys]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormErrors({});
+    try {
+      const res = await apiFetch("/api/keys", { method: "POST", body: JSON.stringify(form) });
+      if (!res.ok) throw await toApiError(res, "Could not create API key");
+      const key: CreatedApiKey = await res.json();
+      setKeys(prev => [key, ...prev]);
+      setCreated(key);
+      setForm({ name: "", scope: "read" });
+    } catch (err) {
+      if (err instanceof ApiError && err.fields) {
+        setFormErrors(err.fields);
+        return;
+      }
+      onToast(err instanceof Error ? err.message : "Could not create API key", "error");
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Anything using it stops working.`)) return;
+    const previous = keys;
+    setKeys(keys.filter(k => k.id !== key.id));
+    if (created?.id === key.id) setCreated(null);
+    try {
+      const res = await apiFetch(`/api/keys/${key.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not revoke API key"));
+      onToast("API key revoked");
+    } catch (err) {
+      setKeys(previous);
+      onToast(err instanceof Error ? err.message : "Could not revoke API key", "error");
+    }
+  };
+
+  const handleCopyKey = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.key);
+    onToast("Copied to clipboard");
+  };
+
+  return (
+    <section className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm space-y-3">
+      <h2 className="font-bold text-lg flex items-center gap-2">
+        <KeyRound className="w-5 h-5" /> API keys
+      </h2>
+      <p className="text-sm text-gray-600">
+        Use a key from scripts and editor plugins by sending it as <code className="bg-gray-100 px-1 rounded">Authorization: Bearer &lt;key&gt;</code>.
+        See <a href="/openapi.json" className="text-blue-600 hover:underline">the API description</a> for the routes.
+      </p>
+
+      {created && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+          <p className="text-sm text-amber-800">Copy your new key now. You won&apos;t be able to see it again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 font-mono text-xs bg-white border rounded px-2 py-1.5 break-all">{created.key}</code>
+            <button onClick={handleCopyKey} className="text-gray-500 hover:text-gray-900 p-1" title="Copy key">
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+          <button onClick={() => setCreated(null)} className="text-sm text-amber-800 hover:underline">Done</button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-start gap-2">
+        <div className="flex-1 min-w-40">
+          <input
+            placeholder="Name, e.g. VS Code"
+            className="w-full border p-2 rounded-lg text-sm"
+            value={form.name}
+            onChange={e => setForm({ ...form, name: e.target.value })}
+          />
+          {formErrors.name && <p className="text-sm text-red-600">{formErrors.name.join(". ")}</p>}
+        </div>
+        <select
+          className="border p-2 rounded-lg text-sm"
+          value={form.scope}
+          onChange={e => setForm({ ...form, scope: e.target.value as ApiKeyScope })}
+        >
+          {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map(scope => (
+            <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+          ))}
+        </select>
+        <button
+          disabled={!form.name.trim()}
+          className="flex items-center gap-1 bg-black text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-gray-800 transition disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" /> Create key
+        </button>
+      </form>
+
+      {loading ? <p className="text-sm text-gray-500">Loading keys...</p> : keys.length === 0 ? (
+        <p className="text-sm text-gray-500">No API keys yet.</p>
+      ) : (
+        <ul className="divide-y">
+          {keys.map(key => (
+            <li key={key.id} className="flex items-center gap-3 py-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">{key.name}</div>
+                <div className="text-xs text-gray-500">
+                  <span className="font-mono">{key.prefix}…</span> · {SCOPE_LABELS[key.scope]} ·{" "}
+                  {key.last_used_at ? `last used ${new Date(key.last_used_at).toLocaleDateString()}` : "never used"}
+                </div>
+              </div>
+              <button onClick={() => handleRevoke(key)} className="text-gray-400 hover:text-red-600 p-1" title="Revoke key">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
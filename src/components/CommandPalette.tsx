@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Copy, Search, type LucideIcon } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+import { fuzzyRank } from "@/lib/fuzzy";
+import { cn } from "@/lib/utils";
+import type { Prompt, PromptPage } from "@/lib/schemas";
+
+export type PalettePrompt = Pick<Prompt, "id" | "title" | "content" | "variables"> & { tags?: string[] };
+
+export type PaletteAction = {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  shortcut?: string; // shown on the right, e.g. "N"
+  run: () => void;
+};
+
+type CommandPaletteProps = {
+  prompts: PalettePrompt[]; // already loaded, searched instantly
+  actions: PaletteAction[];
+  onCopy: (prompt: PalettePrompt) => void;
+  onClose: () => void;
+};
+
+type Item =
+  | { kind: "prompt"; prompt: PalettePrompt }
+  | { kind: "action"; action: PaletteAction };
+
+const MAX_PROMPTS = 8;
+const MAX_ACTIONS = 6;
+
+// Cmd/Ctrl+K palette. Typing fuzzy-matches loaded prompts by title, tag and
+// content (server search results follow once they arrive) along with the
+// actions. Enter copies the selected prompt or runs the action.
+export default function CommandPalette({ prompts, actions, onCopy, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const [remote, setRemote] = useState<{ query: string; prompts: PalettePrompt[] }>({ query: "", prompts: [] });
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Prompts that aren't loaded yet come from the API
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < 2) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      apiFetch(`/api/prompts?q=${encodeURIComponent(q)}&limit=${MAX_PROMPTS}`)
+        .then(async (res) => {
+          if (!res.ok || cancelled) return;
+          const page: PromptPage = await res.json();
+          if (!cancelled) setRemote({ query: q, prompts: page.items });
+        })
+        .catch(() => {});
+    }, 200);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query]);
+
+  const items = useMemo<Item[]>(() => {
+    const q = query.trim();
+    const local = fuzzyRank(prompts, q, (p) => [
+      { text: p.title, weight: 3 },
+      ...(p.tags ?? []).map((tag) => ({ text: tag, weight: 2 })),
+      { text: p.content, weight: 1, exact: true },
+    ]);
+    const seen = new Set(local.map((p) => p.id));
+    const fromServer = remote.query === q ? remote.prompts.filter((p) => !seen.has(p.id)) : [];
+    const matchedActions = fuzzyRank(actions, q, (a) => [{ text: a.label, weight: 1 }]);
+
+    const promptItems: Item[] = [...local, ...fromServer].slice(0, MAX_PROMPTS).map((prompt) => ({ kind: "prompt", prompt }));
+    const actionItems: Item[] = matchedActions.slice(0, MAX_ACTIONS).map((action) => ({ kind: "action", action }));
+    // With nothing typed, actions come first; prompts are the usual target otherwise
+    return q ? [...promptItems, ...actionItems] : [...actionItems, ...promptItems];
+  }, [query, prompts, actions, remote]);
+
+  const selected = Math.min(active, Math.max(items.length - 1, 0));
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const choose = (item: Item) => {
+    onClose();
+    if (item.kind === "prompt") onCopy(item.prompt);
+    else item.action.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (items.length === 0) return;
+      setActive((selected + (e.key === "ArrowDown" ? 1 : -1) + items.length) % items.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (items[selected]) choose(items[selected]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-start justify-center p-4 pt-[15vh]" onMouseDown={onClose}>
+      <div
+        className="bg-white rounded-2xl w-full max-w-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-150"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 border-b px-4">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            autoFocus
+            className="flex-1 py-3 outline-none"
+            placeholder="Search prompts or type a command..."
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActive(0); }}
+          />
+          <kbd className="text-xs text-gray-400 border rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+        <ul ref={listRef} className="max-h-96 overflow-y-auto py-2">
+          {items.length === 0 && <li className="px-4 py-6 text-center text-sm text-gray-500">No matches</li>}
+          {items.map((item, i) => {
+            const Icon = item.kind === "prompt" ? Copy : item.action.icon;
+            return (
+              <li key={item.kind === "prompt" ? `p:${item.prompt.id}` : `a:${item.action.id}`} data-index={i}>
+                <button
+                  onMouseMove={() => setActive(i)}
+                  onClick={() => choose(item)}
+                  className={cn("w-full flex items-center gap-3 px-4 py-2 text-left text-sm", i === selected && "bg-gray-100")}
+                >
+                  <Icon className="w-4 h-4 shrink-0 text-gray-500" />
+                  {item.kind === "prompt" ? (
+                    <span className="flex-1 min-w-0">
+                      <span className="block font-medium truncate">{item.prompt.title}</span>
+                      <span className="block text-xs text-gray-500 truncate">{item.prompt.content}</span>
+                    </span>
+                  ) : (
+                    <span className="flex-1">{item.action.label}</span>
+                  )}
+                  {item.kind === "action" && item.action.shortcut && (
+                    <kbd className="text-xs text-gray-400 border rounded px-1.5 py-0.5">{item.action.shortcut}</kbd>
+                  )}
+                  {item.kind === "prompt" && i === selected && <span className="text-xs text-gray-400">Enter to copy</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Pencil, Reply, Trash2 } from "lucide-react";
+import ReportMenu from "@/components/ReportMenu";
+import MentionInput from "@/components/MentionInput";
+import { splitMentions } from "@/lib/mentions";
+import { isOfflineId } from "@/lib/syncQueue";
+import type { Comment } from "@/lib/schemas";
+
+type CommentThreadProps = {
+  comments: Comment[];
+  userId: string | null;
+  // Each resolves to whether it worked, so the input can be cleared
+  onReply: (parentId: string, text: string) => Promise<boolean>;
+  onEdit: (comment: Comment, text: string) => Promise<boolean>;
+  onDelete: (comment: Comment) => void;
+  onToast: (message: string, type?: "success" | "error") => void;
+};
+
+// Comment text with @mentions linked to profiles
+function CommentText({ text }: { text: string }) {
+  return (
+    <>
+      {splitMentions(text).map((part, i) => "handle" in part ? (
+        <Link key={i} href={`/u/${part.handle}`} className="text-blue-600 hover:underline">@{part.handle}</Link>
+      ) : (
+        <React.Fragment key={i}>{part.text}</React.Fragment>
+      ))}
+    </>
+  );
+}
+
+// A prompt's comments as threads: top-level comments, oldest first, each
+// followed by its replies
+export default function CommentThread({ comments, userId, onReply, onEdit, onDelete, onToast }: CommentThreadProps) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  // Replies whose comment isn't loaded (removed by a moderator) show on their own
+  const ids = new Set(comments.map(c => c.id));
+  const roots = comments.filter(c => !c.parent_id || !ids.has(c.parent_id));
+  const repliesTo = (id: string) => comments.filter(c => c.parent_id === id);
+
+  const submitReply = async (parentId: string) => {
+    if (!replyText.trim()) return;
+    if (await onReply(parentId, replyText)) {
+      setReplyText("");
+      setReplyingTo(null);
+    }
+  };
+
+  const submitEdit = async (comment: Comment) => {
+    if (!editText.trim()) return;
+    if (editText.trim() === comment.text || await onEdit(comment, editText)) setEditingId(null);
+  };
+
+  const renderComment = (c: Comment, rootId: string) => {
+    const deleted = !!c.deleted_at;
+    const own = !!userId && c.user_id === userId;
+    // Comments still queued offline can't be changed until they're sent
+    const editable = own && !isOfflineId(c.id);
+
+    return (
+      <div key={c.id} className="text-sm flex items-start gap-1 group">
+        <div className="flex-1 min-w-0">
+          {editingId === c.id ? (
+            <div className="flex gap-2 border rounded-lg px-2 py-1">
+              <MentionInput value={editText} onChange={setEditText} onSubmit={() => submitEdit(c)} autoFocus />
+              <button onClick={() => submitEdit(c)} className="text-blue-600 font-bold text-xs hover:text-blue-800">Save</button>
+              <button onClick={() => setEditingId(null)} className="text-gray-500 text-xs hover:text-gray-800">Cancel</button>
+            </div>
+          ) : deleted ? (
+            <span className="italic text-gray-400">Comment deleted</span>
+          ) : (
+            <>
+              <Link href={`/u/${c.user_id}`} className="font-bold mr-2 hover:underline">{c.user_name}</Link>
+              <span className="text-gray-700 break-words"><CommentText text={c.text} /></span>
+              {c.updated_at && <span className="ml-1 text-xs text-gray-400">(edited)</span>}
+            </>
+          )}
+        </div>
+        {!deleted && editingId !== c.id && (
+          <div className="flex items-center opacity-0 group-hover:opacity-100">
+            {userId && (
+              <button
+                onClick={() => { setReplyingTo(rootId); setReplyText(""); }}
+                className="text-gray-400 hover:text-gray-900 p-1"
+                title="Reply"
+              >
+                <Reply className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {editable ? (
+              <>
+                <button onClick={() => { setEditingId(c.id); setEditText(c.text); }} className="text-gray-400 hover:text-gray-900 p-1" title="Edit">
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => onDelete(c)} className="text-gray-400 hover:text-red-600 p-1" title="Delete">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </>
+            ) : userId && !own && (
+              <ReportMenu targetType="comment" targetId={c.id} onToast={onToast} />
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {roots.map(root => (
+        <div key={root.id} className="space-y-1.5">
+          {renderComment(root, root.id)}
+          {(repliesTo(root.id).length > 0 || replyingTo === root.id) && (
+            <div className="ml-4 pl-3 border-l border-gray-200 space-y-1.5">
+              {repliesTo(root.id).map(reply => renderComment(reply, root.id))}
+              {replyingTo === root.id && (
+                <div className="flex gap-2">
+                  <MentionInput
+                    value={replyText}
+                    onChange={setReplyText}
+                    onSubmit={() => submitReply(root.id)}
+                    placeholder={`Reply to ${root.deleted_at ? "thread" : root.user_name}...`}
+                    autoFocus
+                  />
+                  <button
+                    onClick={() => submitReply(root.id)}
+                    disabled={!replyText.trim()}
+                    className="text-blue-600 font-bold text-xs disabled:opacity-30 hover:text-blue-800"
+                  >
+                    Reply
+                  </button>
+                  <button onClick={() => setReplyingTo(null)} className="text-gray-500 text-xs hover:text-gray-800">Cancel</button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
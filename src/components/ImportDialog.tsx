@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useState } from "react";
+import { Upload, X } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+import { isPromptFormat, type PromptFormat } from "@/lib/promptFormats";
+import { cn } from "@/lib/utils";
+
+type ImportRow = {
+  row: number;
+  title: string;
+  status: "ready" | "created" | "duplicate" | "invalid";
+  error?: string;
+};
+
+type ImportReport = {
+  dry_run: boolean;
+  summary: { ready?: number; created?: number; duplicate: number; invalid: number };
+  rows: ImportRow[];
+};
+
+type ImportDialogProps = {
+  onClose: () => void;
+  onImported: (created: number) => void;
+};
+
+const STATUS_STYLES: Record<ImportRow["status"], string> = {
+  ready: "text-emerald-700",
+  created: "text-emerald-700",
+  duplicate: "text-amber-700",
+  invalid: "text-red-700",
+};
+
+// Upload or paste a prompt library, check it with a dry run, then import it.
+export default function ImportDialog({ onClose, onImported }: ImportDialogProps) {
+  const [format, setFormat] = useState<PromptFormat>("json");
+  const [data, setData] = useState("");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const extension = file.name.split(".").pop()?.toLowerCase();
+    if (extension === "markdown") setFormat("md");
+    else if (isPromptFormat(extension)) setFormat(extension);
+    setData(await file.text());
+    setReport(null);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch("/api/prompts/import", {
+        method: "POST",
+        body: JSON.stringify({ format, data, dry_run: dryRun }),
+      });
+      if (!res.ok) throw new Error(await readApiError(res, "Import failed"));
+      const result: ImportReport = await res.json();
+      setReport(result);
+      if (!dryRun) onImported(result.summary.created ?? 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const ready = report?.dry_run ? report.summary.ready ?? 0 : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">Import prompts</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <label className="flex-1 flex items-center justify-center gap-2 border border-dashed rounded-lg p-2 text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+              <Upload className="w-4 h-4" /> Choose file
+              <input
+                type="file"
+                accept=".json,.csv,.md,.markdown"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            <select
+              className="border rounded-lg px-2 text-sm"
+              value={format}
+              onChange={(e) => { setFormat(e.target.value as PromptFormat); setReport(null); }}
+            >
+              <option value="json">JSON</option>
+              <option value="csv">CSV</option>
+              <option value="md">Markdown</option>
+            </select>
+          </div>
+          <textarea
+            placeholder="...or paste the file contents here"
+            className="w-full border p-2 rounded-lg h-32 font-mono text-xs"
+            value={data}
+            onChange={(e) => { setData(e.target.value); setReport(null); }}
+          />
+
+          {error && <p className="text-sm text-red-700">{error}</p>}
+
+          {report && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                {report.dry_run
+                  ? `${ready} ready to import`
+                  : `${report.summary.created ?? 0} imported`}
+                {`, ${report.summary.duplicate} duplicate, ${report.summary.invalid} invalid`}
+              </p>
+              <div className="max-h-40 overflow-y-auto border rounded-lg divide-y text-sm">
+                {report.rows.map((r) => (
+                  <div key={r.row} className="flex gap-2 px-2 py-1">
+                    <span className="text-gray-400 w-8 shrink-0">#{r.row}</span>
+                    <span className="flex-1 truncate">{r.title || <em className="text-gray-400">untitled</em>}</span>
+                    <span className={cn("shrink-0", STATUS_STYLES[r.status])} title={r.error}>
+                      {r.error ?? r.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {report && !report.dry_run ? (
+            <button onClick={onClose} className="w-full bg-black text-white py-2 rounded-lg font-bold">Done</button>
+          ) : report?.dry_run && ready > 0 ? (
+            <button
+              onClick={() => submit(false)}
+              disabled={busy}
+              className="w-full bg-blue-600 text-white py-2 rounded-lg font-bold disabled:opacity-50"
+            >
+              Import {ready} prompt{ready === 1 ? "" : "s"}
+            </button>
+          ) : (
+            <button
+              onClick={() => submit(true)}
+              disabled={busy || !data.trim()}
+              className="w-full bg-blue-600 text-white py-2 rounded-lg font-bold disabled:opacity-50"
+            >
+              Check file
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import { mentionAtCaret } from "@/lib/mentions";
+import { cn } from "@/lib/utils";
+import type { UserSuggestion } from "@/lib/schemas";
+
+type MentionInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  className?: string;
+};
+
+// Single-line comment input that suggests people to @mention as you type.
+// Enter submits, unless it picks a suggestion.
+export default function MentionInput({ value, onChange, onSubmit, placeholder, disabled, autoFocus, className }: MentionInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<UserSuggestion[]>([]);
+  const [active, setActive] = useState(0);
+
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await apiFetch(`/api/users?q=${encodeURIComponent(query)}`);
+        if (!res.ok || cancelled) return;
+        setSuggestions(await res.json());
+        setActive(0);
+      } catch {
+        // No suggestions; plain typing still works
+      }
+    }, 150);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query]);
+
+  const updateQuery = (text: string, caret: number | null) => {
+    const next = mentionAtCaret(text.slice(0, caret ?? text.length));
+    if (!next) setSuggestions([]);
+    setQuery(next);
+  };
+
+  const pick = (suggestion: UserSuggestion) => {
+    const caret = inputRef.current?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[a-z0-9_]*$/i, `@${suggestion.handle} `);
+    onChange(before + value.slice(caret));
+    setQuery(null);
+    setSuggestions([]);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(before.length, before.length));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0 && query) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        setActive(i => (i + (e.key === "ArrowDown" ? 1 : -1) + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        pick(suggestions[active]);
+        return;
+      }
+      if (e.key === "Escape") {
+        setQuery(null);
+        return;
+      }
+    }
+    if (e.key === "Enter") onSubmit();
+  };
+
+  return (
+    <div className="relative flex-1">
+      <input
+        ref={inputRef}
+        className={cn("w-full text-sm outline-none placeholder:text-gray-400", className)}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        value={value}
+        onChange={e => { onChange(e.target.value); updateQuery(e.target.value, e.target.selectionStart); }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+      />
+      {query && suggestions.length > 0 && (
+        <ul className="absolute left-0 bottom-full mb-1 w-56 bg-white border rounded-lg shadow-lg overflow-hidden z-20">
+          {suggestions.map((s, i) => (
+            <li key={s.id}>
+              <button
+                type="button"
+                onMouseDown={e => { e.preventDefault(); pick(s); }}
+                className={cn("w-full text-left px-3 py-1.5 text-sm", i === active ? "bg-gray-100" : "hover:bg-gray-50")}
+              >
+                <span className="font-medium">@{s.handle}</span>
+                <span className="ml-1.5 text-gray-500">{s.display_name}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { Notification, NotificationList, NotificationType } from "@/lib/schemas";
+
+const POLL_MS = 60_000;
+
+const DESCRIPTIONS: Record<NotificationType, string> = {
+  comment: "commented on",
+  reply: "replied to your comment on",
+  mention: "mentioned you on",
+  like: "liked",
+  fork: "forked your prompt as",
+};
+
+function NotificationItem({ notification }: { notification: Notification }) {
+  return (
+    <li className={cn("px-3 py-2 text-sm", !notification.read_at && "bg-blue-50")}>
+      <Link href={`/u/${notification.actor_id}`} className="font-semibold hover:underline">{notification.actor_name}</Link>
+      {" "}{DESCRIPTIONS[notification.type]}{" "}
+      <span className="font-medium">“{notification.prompt_title}”</span>
+      <div className="text-xs text-gray-400">{new Date(notification.created_at).toLocaleString()}</div>
+    </li>
+  );
+}
+
+// Header bell with the unread count. Opening it shows the latest
+// notifications and marks them all read.
+export default function NotificationsBell() {
+  const [list, setList] = useState<NotificationList>({ items: [], unread_count: 0 });
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Failures keep the last list; the next poll tries again
+  const load = useCallback(() => {
+    apiFetch("/api/notifications")
+      .then(async (res) => { if (res.ok) setList(await res.json()); })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const toggle = async () => {
+    setOpen(!open);
+    if (open || list.unread_count === 0) return;
+
+    // Shown highlighted this time, read from the next load on. Only the ones
+    // shown are marked, so any that arrived since the last load stay unread.
+    const ids = list.items.filter(n => !n.read_at).map(n => n.id);
+    setList(prev => ({ ...prev, unread_count: 0 }));
+    try {
+      await apiFetch("/api/notifications/read", { method: "POST", body: JSON.stringify({ ids }) });
+    } catch {
+      // Still unread on the server; the badge comes back on the next poll
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={toggle}
+        className="relative border border-gray-300 px-3 py-1.5 rounded-lg hover:bg-gray-50"
+        title="Notifications"
+      >
+        <Bell className="w-4 h-4 text-gray-600" />
+        {list.unread_count > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold leading-4 text-center">
+            {list.unread_count > 9 ? "9+" : list.unread_count}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white border rounded-xl shadow-lg z-30">
+          {list.items.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">No notifications yet</p>
+          ) : (
+            <ul className="divide-y">
+              {list.items.map(n => <NotificationItem key={n.id} notification={n} />)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import React from "react";
+import { CloudOff, RefreshCw } from "lucide-react";
+
+type OfflineBannerProps = {
+  online: boolean;
+  cachedAt: string | null; // when the feed being shown was saved, if it is the cached one
+  pending: number; // changes queued to send
+};
+
+// Says when the feed is working from this device's copy, and what is
+// waiting to be sent. Renders nothing when all is in sync.
+export default function OfflineBanner({ online, cachedAt, pending }: OfflineBannerProps) {
+  if (online && !cachedAt && pending === 0) return null;
+
+  const changes = `${pending} change${pending === 1 ? "" : "s"}`;
+  const Icon = online ? RefreshCw : CloudOff;
+
+  return (
+    <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-900 text-sm rounded-xl px-4 py-2">
+      <Icon className="w-4 h-4 shrink-0" />
+      <span>
+        {!online && "You're offline. "}
+        {cachedAt && `Showing prompts saved on this device ${new Date(cachedAt).toLocaleString()}. `}
+        {pending > 0 && (online ? `${changes} made offline ${pending === 1 ? "hasn't" : "haven't"} been sent yet.` : `${changes} will be sent when you reconnect.`)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+import { diffText } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+import type { PromptRevision } from "@/lib/schemas";
+
+type Snapshot = Pick<PromptRevision, "version" | "title" | "content" | "tags" | "created_at">;
+
+type PromptHistoryProps = {
+  prompt: { id: string; version: number; title: string; content: string; tags: string[]; created_at: string; updated_at?: string | null };
+  canRestore: boolean;
+  onRestore: (version: number) => Promise<void>;
+};
+
+const DiffView = ({ label, before, after }: { label: string; before: string; after: string }) => {
+  if (before === after) return null;
+  return (
+    <div>
+      <div className="text-xs font-semibold text-gray-500 mb-1">{label}</div>
+      <div className="font-mono text-xs bg-white p-2 border rounded-md whitespace-pre-wrap">
+        {diffText(before, after).map((part, i) => (
+          <span
+            key={i}
+            className={cn(
+              part.type === "added" && "bg-emerald-100 text-emerald-800",
+              part.type === "removed" && "bg-red-100 text-red-800 line-through"
+            )}
+          >
+            {part.text}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Lists a prompt's revisions and shows what changed between each one and
+// the revision that replaced it.
+export default function PromptHistory({ prompt, canRestore, onRestore }: PromptHistoryProps) {
+  const [revisions, setRevisions] = useState<PromptRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await apiFetch(`/api/prompts/${prompt.id}/revisions`);
+        if (!res.ok) throw new Error(await readApiError(res, "Could not load history"));
+        const data: PromptRevision[] = await res.json();
+        if (!cancelled) setRevisions(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load history");
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [prompt.id, prompt.version]);
+
+  if (error) return <div className="text-sm text-red-600">{error}</div>;
+  if (!revisions) return <div className="text-sm text-gray-400">Loading history...</div>;
+  if (revisions.length === 0) return <div className="text-sm text-gray-400">No earlier versions yet.</div>;
+
+  // Newest first, with the live prompt on top
+  const current: Snapshot = {
+    ...prompt,
+    created_at: prompt.updated_at || prompt.created_at,
+  };
+  const timeline: Snapshot[] = [current, ...revisions];
+  const index = timeline.findIndex((r) => r.version === selected);
+  const shown = index > 0 ? timeline[index] : null;
+  const next = index > 0 ? timeline[index - 1] : null;
+
+  const handleRestore = async (version: number) => {
+    setRestoring(true);
+    try {
+      await onRestore(version);
+      setSelected(null);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+        {timeline.map((r, i) => (
+          <button
+            key={r.version}
+            onClick={() => setSelected(i === 0 ? null : r.version)}
+            className={cn(
+              "px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap",
+              (i === 0 ? selected === null : selected === r.version) ? "bg-black text-white" : "bg-white text-gray-600"
+            )}
+            title={new Date(r.created_at).toLocaleString()}
+          >
+            v{r.version}{i === 0 && " (current)"}
+          </button>
+        ))}
+      </div>
+
+      {shown && next ? (
+        <div className="space-y-2">
+          <div className="text-xs text-gray-500">
+            Changes from v{shown.version} to v{next.version}
+          </div>
+          <DiffView label="Title" before={shown.title} after={next.title} />
+          <DiffView label="Tags" before={shown.tags.map((t) => `#${t}`).join(" ")} after={next.tags.map((t) => `#${t}`).join(" ")} />
+          <DiffView label="Content" before={shown.content} after={next.content} />
+          {canRestore && (
+            <button
+              onClick={() => handleRestore(shown.version)}
+              disabled={restoring}
+              className="flex items-center gap-1 text-sm font-semibold bg-gray-100 px-3 py-1.5 rounded-full hover:bg-gray-200 transition disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4" /> Restore v{shown.version}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-400">Pick an earlier version to see what changed.</div>
+      )}
+    </div>
+  );
+}
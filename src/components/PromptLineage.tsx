@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { GitFork } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+import type { PromptFork } from "@/lib/schemas";
+
+type PromptLineageProps = {
+  promptId: string;
+  onFork?: () => void;
+};
+
+// Every fork of a prompt, forks of forks indented under their parent.
+export default function PromptLineage({ promptId, onFork }: PromptLineageProps) {
+  const [forks, setForks] = useState<PromptFork[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await apiFetch(`/api/prompts/${promptId}/forks`);
+        if (!res.ok) throw new Error(await readApiError(res, "Could not load forks"));
+        const data: PromptFork[] = await res.json();
+        if (!cancelled) setForks(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load forks");
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [promptId]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-500">Forks</span>
+        {onFork && (
+          <button
+            onClick={onFork}
+            className="flex items-center gap-1 text-sm font-semibold bg-gray-100 px-3 py-1 rounded-full hover:bg-gray-200 transition"
+          >
+            <GitFork className="w-4 h-4" /> Fork this prompt
+          </button>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !forks ? (
+        <p className="text-sm text-gray-400">Loading forks...</p>
+      ) : forks.length === 0 ? (
+        <p className="text-sm text-gray-500">No forks yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {forks.map((f) => (
+            <li key={f.id} className="text-sm flex items-center gap-1.5" style={{ paddingLeft: `${(f.depth - 1) * 1.25}rem` }}>
+              <GitFork className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+              <span className="font-semibold truncate">{f.title}</span>
+              <span className="text-gray-400">by</span>
+              {f.author_id ? (
+                <Link href={`/u/${f.author_id}`} className="text-gray-600 hover:underline">{f.author_name}</Link>
+              ) : (
+                <span className="text-gray-600">{f.author_name}</span>
+              )}
+              {f.fork_count > 0 && <span className="text-xs text-gray-400">· {f.fork_count} fork{f.fork_count === 1 ? "" : "s"}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import React, { useDeferredValue, useMemo } from "react";
+import { AlertTriangle, CheckCircle2, Info, ShieldAlert } from "lucide-react";
+import { estimateTokens, lintPrompt, TOKENIZERS, type LintInput, type LintSeverity } from "@/lib/promptLint";
+import { cn } from "@/lib/utils";
+
+type PromptLintPanelProps = {
+  prompt: LintInput;
+  existing: { id: string; title: string; content: string }[]; // other prompts, for duplicates
+};
+
+const SEVERITY_STYLES: Record<LintSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: ShieldAlert, className: "text-red-700" },
+  warning: { icon: AlertTriangle, className: "text-amber-700" },
+  info: { icon: Info, className: "text-gray-600" },
+};
+
+// Live feedback beside the prompt editor: estimated token counts and lint
+// issues. Runs entirely in the browser.
+export default function PromptLintPanel({ prompt, existing }: PromptLintPanelProps) {
+  // Typing stays responsive on long prompts
+  const deferred = useDeferredValue(prompt);
+  const issues = useMemo(() => lintPrompt(deferred, { existing }), [deferred, existing]);
+
+  return (
+    <aside className="space-y-4 text-sm">
+      <div>
+        <h4 className="font-semibold mb-1.5">Estimated tokens</h4>
+        <table className="w-full">
+          <tbody>
+            {TOKENIZERS.map(t => (
+              <tr key={t.id}>
+                <td className="text-gray-600 py-0.5">{t.label}</td>
+                <td className="text-right font-mono">~{estimateTokens(deferred.content, t).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div>
+        <h4 className="font-semibold mb-1.5">Checks</h4>
+        {issues.length === 0 ? (
+          <p className="flex items-center gap-1.5 text-emerald-700"><CheckCircle2 className="w-4 h-4" /> Looks good</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {issues.map((issue, i) => {
+              const { icon: Icon, className } = SEVERITY_STYLES[issue.severity];
+              return (
+                <li key={i} className={cn("flex gap-1.5", className)}>
+                  <Icon className="w-4 h-4 shrink-0 mt-0.5" />
+                  <span>{issue.message}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+}
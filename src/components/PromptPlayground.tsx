@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Play, Square, Trash2 } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+import { extractVariables, type TemplateVariables } from "@/lib/templates";
+import type { PromptOutput } from "@/lib/schemas";
+
+type PromptPlaygroundProps = {
+  prompt: { id: string; content: string; variables: TemplateVariables };
+  signedIn: boolean;
+  isAuthor: boolean;
+  onToast: (message: string, type?: "success" | "error") => void;
+};
+
+// Runs a prompt against the configured model and streams the reply in.
+// Authors can keep a run as an example output, listed underneath.
+export default function PromptPlayground({ prompt, signedIn, isAuthor, onToast }: PromptPlaygroundProps) {
+  const names = extractVariables(prompt.content);
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(names.map((name) => [name, prompt.variables[name]?.default ?? ""]))
+  );
+  const [save, setSave] = useState(false);
+  const [reply, setReply] = useState("");
+  const [model, setModel] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [examples, setExamples] = useState<PromptOutput[]>([]);
+  const abort = useRef<AbortController | null>(null);
+
+  const loadExamples = useCallback(async () => {
+    try {
+      const res = await apiFetch(`/api/prompts/${prompt.id}/outputs`);
+      if (res.ok) setExamples(await res.json());
+    } catch {
+      // Examples are optional; running still works
+    }
+  }, [prompt.id]);
+
+  useEffect(() => { loadExamples(); }, [loadExamples]);
+
+  // Stop streaming when the panel closes
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const controller = new AbortController();
+    abort.current = controller;
+    setRunning(true);
+    setReply("");
+    setModel(null);
+
+    try {
+      const res = await apiFetch(`/api/prompts/${prompt.id}/run`, {
+        method: "POST",
+        body: JSON.stringify({ values, save }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) throw new Error(await readApiError(res, "Run failed"));
+      setModel(res.headers.get("X-Model"));
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const text = decoder.decode(value, { stream: true });
+        setReply(prev => prev + text);
+      }
+
+      if (save) {
+        onToast("Saved as an example output");
+        loadExamples();
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        onToast(err instanceof Error && err.message ? err.message : "Run failed", "error");
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDeleteExample = async (outputId: string) => {
+    const previous = examples;
+    setExamples(prev => prev.filter(o => o.id !== outputId));
+    try {
+      const res = await apiFetch(`/api/prompts/${prompt.id}/outputs?output_id=${encodeURIComponent(outputId)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not delete example"));
+    } catch (err) {
+      setExamples(previous);
+      onToast(err instanceof Error ? err.message : "Could not delete example", "error");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {signedIn ? (
+        <form onSubmit={handleRun} className="space-y-2">
+          {names.map((name) => (
+            <label key={name} className="block">
+              <span className="text-xs font-semibold font-mono">{name}</span>
+              <input
+                className="mt-0.5 w-full border p-1.5 rounded-lg text-sm"
+                placeholder={prompt.variables[name]?.description ?? prompt.variables[name]?.default}
+                value={values[name] ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+              />
+            </label>
+          ))}
+          <div className="flex items-center gap-3">
+            {running ? (
+              <button
+                type="button"
+                onClick={() => abort.current?.abort()}
+                className="flex items-center gap-1 bg-gray-800 text-white px-3 py-1.5 rounded-lg text-sm font-semibold"
+              >
+                <Square className="w-4 h-4" /> Stop
+              </button>
+            ) : (
+              <button className="flex items-center gap-1 bg-black text-white px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-gray-800 transition">
+                <Play className="w-4 h-4" /> Run
+              </button>
+            )}
+            {isAuthor && (
+              <label className="flex items-center gap-1.5 text-sm text-gray-600">
+                <input type="checkbox" checked={save} onChange={(e) => setSave(e.target.checked)} />
+                Save as example
+              </label>
+            )}
+            {model && <span className="ml-auto text-xs text-gray-400 font-mono">{model}</span>}
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500">Login to run prompts.</p>
+      )}
+
+      {(reply || running) && (
+        <div className="font-mono text-sm text-gray-800 bg-white p-3 border rounded-md whitespace-pre-wrap min-h-12">
+          {reply}
+          {running && <span className="inline-block w-2 h-4 bg-gray-400 animate-pulse align-middle ml-0.5" />}
+        </div>
+      )}
+
+      {examples.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-semibold text-gray-500">Example outputs</div>
+          {examples.map((o) => (
+            <div key={o.id} className="bg-white border rounded-md p-2 text-sm">
+              <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+                <span className="font-mono">{o.provider}/{o.model}</span>
+                {Object.keys(o.input_values).length > 0 && (
+                  <span className="truncate">
+                    {Object.entries(o.input_values).map(([k, v]) => `${k}=${v}`).join(", ")}
+                  </span>
+                )}
+                {isAuthor && (
+                  <button onClick={() => handleDeleteExample(o.id)} className="ml-auto hover:text-red-600" title="Delete example">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <div className="font-mono whitespace-pre-wrap text-gray-700">{o.output}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
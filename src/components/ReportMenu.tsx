@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Flag, MoreHorizontal } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+import { REPORT_REASONS, type ReportReason, type ReportTarget } from "@/lib/moderation";
+import { cn } from "@/lib/utils";
+
+type ReportMenuProps = {
+  targetType: ReportTarget;
+  targetId: string;
+  onToast: (message: string, type?: "success" | "error") => void;
+  className?: string;
+};
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam",
+  abuse: "Abusive or harmful",
+  other: "Something else",
+};
+
+// "More" menu on posts and comments. Currently just reporting to moderators.
+export default function ReportMenu({ targetType, targetId, onToast, className }: ReportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const [reason, setReason] = useState<ReportReason>("spam");
+  const [details, setDetails] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const toggle = () => {
+    setOpen(!open);
+    setReporting(false);
+  };
+
+  const handleReport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setOpen(false);
+    try {
+      const res = await apiFetch("/api/reports", {
+        method: "POST",
+        body: JSON.stringify({ target_type: targetType, target_id: targetId, reason, details }),
+      });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not send report"));
+      setDetails("");
+      onToast("Thanks, a moderator will take a look");
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "Could not send report", "error");
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)} ref={menuRef}>
+      <button onClick={toggle} className="text-gray-400 hover:text-gray-900 p-1" title="More">
+        <MoreHorizontal className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-60 bg-white border rounded-lg shadow-lg z-20 overflow-hidden">
+          {!reporting ? (
+            <button onClick={() => setReporting(true)} className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-gray-50 text-left text-red-600">
+              <Flag className="w-4 h-4" /> Report {targetType}
+            </button>
+          ) : (
+            <form onSubmit={handleReport} className="p-3 space-y-2">
+              <div className="text-sm font-semibold">Why are you reporting this?</div>
+              {REPORT_REASONS.map((r) => (
+                <label key={r} className="flex items-center gap-2 text-sm">
+                  <input type="radio" name="reason" checked={reason === r} onChange={() => setReason(r)} />
+                  {REASON_LABELS[r]}
+                </label>
+              ))}
+              <textarea
+                placeholder="Details (optional)"
+                className="w-full border p-1.5 rounded-md text-sm h-16"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+              />
+              <button className="w-full bg-red-600 text-white py-1.5 rounded-md text-sm font-semibold hover:bg-red-700">
+                Send report
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
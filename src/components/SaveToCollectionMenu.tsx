@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Bookmark, Lock, Plus } from "lucide-react";
+import { apiFetch, readApiError } from "@/lib/api";
+
+type CollectionSummary = { id: string; slug: string; name: string; is_public: boolean; item_count: number };
+
+type SaveToCollectionMenuProps = {
+  promptId: string;
+  onToast: (message: string, type?: "success" | "error") => void;
+};
+
+// Bookmark button that adds a prompt to one of the caller's collections,
+// or to a new one created on the spot.
+export default function SaveToCollectionMenu({ promptId, onToast }: SaveToCollectionMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [collections, setCollections] = useState<CollectionSummary[] | null>(null);
+  const [newName, setNewName] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await apiFetch("/api/collections?mine=1");
+        if (!res.ok) throw new Error(await readApiError(res, "Could not load collections"));
+        const data: CollectionSummary[] = await res.json();
+        if (!cancelled) setCollections(data);
+      } catch (err) {
+        if (!cancelled) onToast(err instanceof Error ? err.message : "Could not load collections", "error");
+      }
+    })();
+
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("mousedown", close);
+    };
+  }, [open, onToast]);
+
+  const addTo = async (collection: Pick<CollectionSummary, "slug" | "name">) => {
+    setOpen(false);
+    try {
+      const res = await apiFetch(`/api/collections/${collection.slug}/items`, {
+        method: "POST",
+        body: JSON.stringify({ prompt_id: promptId }),
+      });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not save to collection"));
+      onToast(`Saved to ${collection.name}`);
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "Could not save to collection", "error");
+    }
+  };
+
+  const createAndAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      const res = await apiFetch("/api/collections", {
+        method: "POST",
+        body: JSON.stringify({ name: newName }),
+      });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not create collection"));
+      setNewName("");
+      await addTo(await res.json());
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "Could not create collection", "error");
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button onClick={() => setOpen(!open)} className="text-gray-600 hover:text-gray-900" title="Save to collection">
+        <Bookmark className="w-6 h-6" />
+      </button>
+      {open && (
+        <div className="absolute left-0 bottom-full mb-2 w-60 bg-white border rounded-lg shadow-lg z-20 overflow-hidden">
+          <div className="max-h-48 overflow-y-auto">
+            {collections === null ? (
+              <div className="px-3 py-2 text-sm text-gray-400">Loading...</div>
+            ) : collections.length === 0 ? (
+              <div className="px-3 py-2 text-sm text-gray-400">No collections yet</div>
+            ) : collections.map((c) => (
+              <button key={c.id} onClick={() => addTo(c)} className="w-full flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-gray-50 text-left">
+                <span className="flex-1 truncate">{c.name}</span>
+                {!c.is_public && <Lock className="w-3 h-3 text-gray-400" />}
+                <span className="text-gray-400">{c.item_count}</span>
+              </button>
+            ))}
+          </div>
+          <form onSubmit={createAndAdd} className="flex border-t">
+            <input
+              placeholder="New collection"
+              className="flex-1 min-w-0 px-3 py-1.5 text-sm outline-none"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <button className="px-2 text-blue-600 disabled:opacity-30" disabled={!newName.trim()}>
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+import { MAX_TAGS, normalizeTag } from "@/lib/tags";
+
+type TagUsage = { tag: string; count: number };
+
+type TagInputProps = {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+};
+
+// Chip-style tag editor that suggests existing tags as you type.
+export default function TagInput({ tags, onChange }: TagInputProps) {
+  const [input, setInput] = useState("");
+  const [suggestions, setSuggestions] = useState<TagUsage[]>([]);
+  const prefix = normalizeTag(input);
+
+  useEffect(() => {
+    if (!prefix) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await apiFetch(`/api/tags?q=${encodeURIComponent(prefix)}&limit=8`);
+        if (!res.ok) return;
+        const data: TagUsage[] = await res.json();
+        if (!cancelled) setSuggestions(data);
+      } catch {
+        // Suggestions are a nicety; typing still works without them
+      }
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [prefix]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setInput("");
+    setSuggestions([]);
+    if (!tag || tags.includes(tag) || tags.length >= MAX_TAGS) return;
+    onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === "Backspace" && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const visible = prefix ? suggestions.filter((s) => !tags.includes(s.tag)) : [];
+
+  return (
+    <div className="relative">
+      <div className="w-full border p-2 rounded-lg flex flex-wrap gap-1.5 items-center">
+        {tags.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 bg-blue-50 text-blue-700 text-sm px-2 py-0.5 rounded-full">
+            #{tag}
+            <button type="button" onClick={() => onChange(tags.filter((t) => t !== tag))}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          placeholder={tags.length === 0 ? "Tags (press Enter to add)" : ""}
+          className="flex-1 min-w-24 outline-none"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input && addTag(input)}
+        />
+      </div>
+      {visible.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full bg-white border rounded-lg shadow-lg overflow-hidden">
+          {visible.map((s) => (
+            <button
+              key={s.tag}
+              type="button"
+              // mousedown fires before the input's blur, which would add the typed text instead
+              onMouseDown={(e) => { e.preventDefault(); addTag(s.tag); }}
+              className="w-full flex justify-between px-3 py-1.5 text-sm hover:bg-gray-50"
+            >
+              <span>#{s.tag}</span>
+              <span className="text-gray-400">{s.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
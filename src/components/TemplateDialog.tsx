@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useState } from "react";
+import { Copy, X } from "lucide-react";
+import { extractVariables, renderTemplate, type TemplateVariables } from "@/lib/templates";
+
+type TemplateDialogProps = {
+  title: string;
+  content: string;
+  variables: TemplateVariables;
+  onClose: () => void;
+  onCopy: (text: string) => void;
+};
+
+// Fill-in form for a templated prompt: one input per {{variable}}, with a
+// live preview of the rendered text.
+export default function TemplateDialog({ title, content, variables, onClose, onCopy }: TemplateDialogProps) {
+  const names = extractVariables(content);
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(names.map((name) => [name, variables[name]?.default ?? ""]))
+  );
+  const { output, missing } = renderTemplate(content, values, variables);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (missing.length > 0) return;
+    onCopy(output);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">Fill in “{title}”</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {names.map((name, i) => (
+            <label key={name} className="block">
+              <span className="text-sm font-semibold font-mono">{name}</span>
+              {variables[name]?.description && (
+                <span className="block text-xs text-gray-500">{variables[name].description}</span>
+              )}
+              <input
+                autoFocus={i === 0}
+                className="mt-1 w-full border p-2 rounded-lg"
+                placeholder={variables[name]?.default}
+                value={values[name] ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+              />
+            </label>
+          ))}
+          <div className="font-mono text-sm text-gray-700 bg-gray-50 p-3 border rounded-md whitespace-pre-wrap max-h-48 overflow-y-auto">
+            {output}
+          </div>
+          <button
+            disabled={missing.length > 0}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white py-2 rounded-lg font-bold disabled:opacity-50"
+          >
+            <Copy className="w-4 h-4" /> Copy
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
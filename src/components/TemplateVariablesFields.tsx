@@ -0,0 +1,43 @@
+"use client";
+
+import React from "react";
+import { extractVariables, type TemplateVariable, type TemplateVariables } from "@/lib/templates";
+
+type TemplateVariablesFieldsProps = {
+  content: string;
+  variables: TemplateVariables;
+  onChange: (variables: TemplateVariables) => void;
+};
+
+// Default and description inputs for each {{variable}} found in `content`.
+export default function TemplateVariablesFields({ content, variables, onChange }: TemplateVariablesFieldsProps) {
+  const names = extractVariables(content);
+  if (names.length === 0) return null;
+
+  const update = (name: string, field: keyof TemplateVariable, value: string) => {
+    onChange({ ...variables, [name]: { ...variables[name], [field]: value } });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-semibold text-gray-600">Template variables</div>
+      {names.map((name) => (
+        <div key={name} className="flex gap-2 items-center">
+          <span className="font-mono text-sm w-28 truncate" title={name}>{`{{${name}}}`}</span>
+          <input
+            placeholder="Default"
+            className="flex-1 min-w-0 border p-1.5 rounded-lg text-sm"
+            value={variables[name]?.default ?? ""}
+            onChange={(e) => update(name, "default", e.target.value)}
+          />
+          <input
+            placeholder="Description"
+            className="flex-1 min-w-0 border p-1.5 rounded-lg text-sm"
+            value={variables[name]?.description ?? ""}
+            onChange={(e) => update(name, "description", e.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
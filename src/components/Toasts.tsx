@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { cn } from "@/lib/utils";
+
+export type ToastAction = { label: string; onClick: () => void };
+export type ToastType = { id: number; message: string; type: "success" | "error"; action?: ToastAction };
+
+// Toasts added in the same millisecond still need their own keys
+let nextToastId = 0;
+
+export function useToasts() {
+  const [toasts, setToasts] = useState<ToastType[]>([]);
+
+  const addToast = useCallback((message: string, type: "success" | "error" = "success", action?: ToastAction) => {
+    const id = ++nextToastId;
+    setToasts((prev) => [...prev, { id, message, type, action }]);
+  }, []);
+
+  const removeToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  return { toasts, addToast, removeToast };
+}
+
+export const ToastContainer = ({ toasts, removeToast }: { toasts: ToastType[], removeToast: (id: number) => void }) => (
+  <div className="fixed bottom-6 right-6 z-50 flex flex-col gap-2 pointer-events-none">
+    {toasts.map((toast) => (
+      <div
+        key={toast.id}
+        onAnimationEnd={() => setTimeout(() => removeToast(toast.id), 3000)}
+        className={cn(
+          "pointer-events-auto flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg border backdrop-blur-md animate-in slide-in-from-bottom-5 fade-in duration-300",
+          toast.type === "success" 
+            ? "bg-emerald-50/90 border-emerald-200 text-emerald-800" 
+            : "bg-red-50/90 border-red-200 text-red-800"
+        )}
+      >
+        <span className="text-sm font-medium">{toast.message}</span>
+        {toast.action && (
+          <button
+            onClick={() => { toast.action!.onClick(); removeToast(toast.id); }}
+            className="text-sm font-bold underline underline-offset-2"
+          >
+            {toast.action.label}
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import type { PromptUsageDay } from "@/lib/schemas";
+
+type UsageChartProps = {
+  usage: PromptUsageDay[];
+};
+
+const BAR_WIDTH = 4;
+const GAP = 2;
+const HEIGHT = 20;
+
+// Tiny bar chart of a prompt's daily copies (dark) and views (light)
+export default function UsageChart({ usage }: UsageChartProps) {
+  const copies = usage.reduce((sum, d) => sum + d.copies, 0);
+  const views = usage.reduce((sum, d) => sum + d.views, 0);
+  const max = Math.max(1, ...usage.map(d => d.copies + d.views));
+  const width = usage.length * (BAR_WIDTH + GAP) - GAP;
+
+  return (
+    <svg
+      width={width}
+      height={HEIGHT}
+      viewBox={`0 0 ${width} ${HEIGHT}`}
+      className="shrink-0"
+      role="img"
+      aria-label={`${copies} copies and ${views} views in the last ${usage.length} days`}
+    >
+      <title>{`${copies} copies, ${views} views in the last ${usage.length} days`}</title>
+      {usage.map((d, i) => {
+        const viewHeight = (d.views / max) * HEIGHT;
+        const copyHeight = (d.copies / max) * HEIGHT;
+        const x = i * (BAR_WIDTH + GAP);
+        return (
+          <g key={d.day}>
+            <rect x={x} y={0} width={BAR_WIDTH} height={HEIGHT} className="fill-gray-100" />
+            <rect x={x} y={HEIGHT - viewHeight - copyHeight} width={BAR_WIDTH} height={viewHeight} className="fill-blue-200" />
+            <rect x={x} y={HEIGHT - copyHeight} width={BAR_WIDTH} height={copyHeight} className="fill-blue-600" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
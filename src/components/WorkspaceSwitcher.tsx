@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, Plus, UserPlus, Users, X } from "lucide-react";
+import { ApiError, apiFetch, readApiError, toApiError } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { FieldErrors, WorkspaceList } from "@/lib/schemas";
+
+type WorkspaceSwitcherProps = {
+  list: WorkspaceList;
+  selectedId: string | null; // null = all prompts
+  onSelect: (id: string | null) => void;
+  onChanged: () => void; // reload the list after a change
+  onToast: (message: string, type?: "success" | "error") => void;
+};
+
+// Picks which workspace the feed shows, and handles creating workspaces,
+// answering invitations and inviting people
+export default function WorkspaceSwitcher({ list, selectedId, onSelect, onChanged, onToast }: WorkspaceSwitcherProps) {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [invitee, setInvitee] = useState("");
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+
+  const selected = list.workspaces.find(w => w.id === selectedId) ?? null;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormErrors({});
+    try {
+      const res = await apiFetch("/api/workspaces", { method: "POST", body: JSON.stringify({ name }) });
+      if (!res.ok) throw await toApiError(res, "Could not create workspace");
+      const workspace = await res.json();
+      setName("");
+      setCreating(false);
+      onChanged();
+      onSelect(workspace.id);
+      onToast("Workspace created");
+    } catch (err) {
+      if (err instanceof ApiError && err.fields) {
+        setFormErrors(err.fields);
+        return;
+      }
+      onToast(err instanceof Error ? err.message : "Could not create workspace", "error");
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setFormErrors({});
+    try {
+      const res = await apiFetch(`/api/workspaces/${selected.slug}/invites`, { method: "POST", body: JSON.stringify({ handle: invitee }) });
+      if (!res.ok) throw await toApiError(res, "Could not send invitation");
+      setInvitee("");
+      onToast(`Invited @${invitee.trim().replace(/^@/, "")}`);
+    } catch (err) {
+      if (err instanceof ApiError && err.fields) {
+        setFormErrors(err.fields);
+        return;
+      }
+      onToast(err instanceof Error ? err.message : "Could not send invitation", "error");
+    }
+  };
+
+  const answerInvite = async (slug: string, accept: boolean) => {
+    try {
+      const res = await apiFetch(`/api/workspaces/${slug}/${accept ? "members" : "invites"}`, { method: accept ? "POST" : "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not answer invitation"));
+      onChanged();
+      if (accept) onToast("Joined workspace");
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "Could not answer invitation", "error");
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!selected || !confirm(`Leave "${selected.name}"? You won't see its prompts any more.`)) return;
+    try {
+      const res = await apiFetch(`/api/workspaces/${selected.slug}/members`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readApiError(res, "Could not leave workspace"));
+      onSelect(null);
+      onChanged();
+      onToast("Left workspace");
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "Could not leave workspace", "error");
+    }
+  };
+
+  const pill = (active: boolean) =>
+    cn("flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium border whitespace-nowrap", active ? "bg-black text-white" : "bg-white text-gray-600");
+
+  return (
+    <div className="space-y-2">
+      {list.invites.map(invite => (
+        <div key={invite.workspace.id} className="flex items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg px-3 py-1.5 text-sm">
+          <Users className="w-4 h-4 text-blue-600" />
+          <span className="flex-1">
+            {invite.invited_by_name ?? "Someone"} invited you to <span className="font-semibold">{invite.workspace.name}</span>
+          </span>
+          <button onClick={() => answerInvite(invite.workspace.slug, true)} className="text-blue-700 hover:text-blue-900 p-1" title="Accept">
+            <Check className="w-4 h-4" />
+          </button>
+          <button onClick={() => answerInvite(invite.workspace.slug, false)} className="text-gray-400 hover:text-gray-700 p-1" title="Decline">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+        <button onClick={() => onSelect(null)} className={pill(selectedId === null)}>
+          All prompts
+        </button>
+        {list.workspaces.map(w => (
+          <button key={w.id} onClick={() => onSelect(w.id)} className={pill(w.id === selectedId)}>
+            <Users className="w-3.5 h-3.5" /> {w.name}
+          </button>
+        ))}
+        {creating ? (
+          <form onSubmit={handleCreate} className="flex items-center gap-1">
+            <input
+              autoFocus
+              placeholder="Workspace name"
+              className="border px-2 py-1 rounded-full text-sm w-40"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+            <button disabled={!name.trim()} className="text-gray-600 hover:text-black p-1 disabled:opacity-50" title="Create">
+              <Check className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => { setCreating(false); setFormErrors({}); }} className="text-gray-400 hover:text-gray-700 p-1" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+          </form>
+        ) : (
+          <button onClick={() => setCreating(true)} className={cn(pill(false), "border-dashed")}>
+            <Plus className="w-3.5 h-3.5" /> New workspace
+          </button>
+        )}
+      </div>
+      {formErrors.name && <p className="text-sm text-red-600">{formErrors.name.join(". ")}</p>}
+
+      {selected && (
+        <div className="flex items-center gap-2 text-sm">
+          {selected.role === "owner" ? (
+            <form onSubmit={handleInvite} className="flex items-center gap-1">
+              <input
+                placeholder="@handle"
+                className="border px-2 py-1 rounded-lg text-sm w-36"
+                value={invitee}
+                onChange={e => setInvitee(e.target.value)}
+              />
+              <button disabled={!invitee.trim()} className="flex items-center gap-1 border border-gray-300 bg-white px-2 py-1 rounded-lg hover:bg-gray-50 disabled:opacity-50">
+                <UserPlus className="w-4 h-4" /> Invite
+              </button>
+            </form>
+          ) : (
+            <button onClick={handleLeave} className="text-gray-500 hover:text-red-600 hover:underline">
+              Leave workspace
+            </button>
+          )}
+          {formErrors.handle && <span className="text-red-600">{formErrors.handle.join(". ")}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
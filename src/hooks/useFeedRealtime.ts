@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import type { Comment, Prompt } from "@/lib/schemas";
+
+// Row changes from other sessions, as they arrive over the realtime channel.
+// Counters (likes, comment_count) are kept on the prompt row by triggers, so
+// a prompt update always carries the current totals.
+export type FeedEvent =
+  | { type: "prompt_inserted"; prompt: Prompt }
+  | { type: "prompt_updated"; prompt: Prompt }
+  | { type: "prompt_deleted"; id: string }
+  | { type: "like_changed"; prompt_id: string; user_id: string; liked: boolean }
+  | { type: "comment_inserted"; comment: Comment }
+  | { type: "comment_updated"; comment: Comment }
+  | { type: "comment_deleted"; id: string; prompt_id: string };
+
+type LikeRow = { prompt_id: string; user_id: string };
+
+// Soft-deleted or hidden by a moderator; either way it leaves the feed
+function isRemoved(row: { deleted_at?: string | null; hidden_at?: string | null }) {
+  return !!row.deleted_at || !!row.hidden_at;
+}
+
+// Subscribes to prompt, like and comment changes for as long as the
+// component is mounted. `onEvent` may change between renders without
+// resubscribing.
+export function useFeedRealtime(onEvent: (event: FeedEvent) => void) {
+  const handler = useRef(onEvent);
+
+  useEffect(() => {
+    handler.current = onEvent;
+  });
+
+  useEffect(() => {
+    const emit = (event: FeedEvent) => handler.current(event);
+
+    const channel = supabase
+      .channel("feed")
+      .on("postgres_changes", { event: "*", schema: "public", table: "prompts" },
+        (payload: RealtimePostgresChangesPayload<Prompt>) => {
+          if (payload.eventType === "INSERT") emit({ type: "prompt_inserted", prompt: payload.new });
+          else if (payload.eventType === "UPDATE" && isRemoved(payload.new)) emit({ type: "prompt_deleted", id: payload.new.id });
+          else if (payload.eventType === "UPDATE") emit({ type: "prompt_updated", prompt: payload.new });
+          else if (payload.old.id) emit({ type: "prompt_deleted", id: payload.old.id });
+        })
+      .on("postgres_changes", { event: "*", schema: "public", table: "prompt_likes" },
+        (payload: RealtimePostgresChangesPayload<LikeRow>) => {
+          const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+          if (!row.prompt_id || !row.user_id) return;
+          emit({ type: "like_changed", prompt_id: row.prompt_id, user_id: row.user_id, liked: payload.eventType !== "DELETE" });
+        })
+      .on("postgres_changes", { event: "*", schema: "public", table: "prompt_comments" },
+        (payload: RealtimePostgresChangesPayload<Comment>) => {
+          if (payload.eventType === "INSERT") emit({ type: "comment_inserted", comment: payload.new });
+          else if (payload.eventType === "UPDATE" && isRemoved(payload.new)) {
+            emit({ type: "comment_deleted", id: payload.new.id, prompt_id: payload.new.prompt_id });
+          } else if (payload.eventType === "UPDATE") {
+            emit({ type: "comment_updated", comment: payload.new });
+          } else if (payload.eventType === "DELETE" && payload.old.id && payload.old.prompt_id) {
+            emit({ type: "comment_deleted", id: payload.old.id, prompt_id: payload.old.prompt_id });
+          }
+        })
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// Whether a key press is going into a text field
+function isTyping(target: EventTarget | null) {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+// Page-wide keyboard shortcuts, keyed by `KeyboardEvent.key` in lower case,
+// with "mod+" for Cmd (macOS) or Ctrl: { "mod+k": ..., "/": ..., escape: ... }.
+// Plain keys are ignored while typing in a field; "mod+" keys and Escape
+// work everywhere.
+export function useKeyboardShortcuts(bindings: Record<string, () => void>) {
+  const latest = useRef(bindings);
+
+  useEffect(() => {
+    latest.current = bindings;
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const mod = e.metaKey || e.ctrlKey;
+      const key = `${mod ? "mod+" : ""}${e.key.toLowerCase()}`;
+      const run = latest.current[key];
+      if (!run) return;
+      if (!mod && key !== "escape" && (e.altKey || isTyping(e.target))) return;
+      e.preventDefault();
+      run();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
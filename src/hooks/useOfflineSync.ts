@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { listQueuedWrites } from "@/lib/offlineStore";
+import { replayQueue, type SyncResult } from "@/lib/syncQueue";
+
+function subscribeToConnection(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+// Tracks the connection and replays the signed-in user's offline writes
+// whenever it comes back (and on sign-in), then hands the result to
+// `onSynced`, which also runs with no outcomes when there was nothing to
+// send. `refreshPending` recounts the queue after queueing a write.
+export function useOfflineSync(userId: string | null, onSynced: (result: SyncResult) => void) {
+  const online = useSyncExternalStore(subscribeToConnection, () => navigator.onLine, () => true);
+  const [pending, setPending] = useState(0);
+  const handler = useRef(onSynced);
+
+  useEffect(() => {
+    handler.current = onSynced;
+  });
+
+  const refreshPending = useCallback(() => {
+    if (!userId) return;
+    listQueuedWrites(userId)
+      .then((queued) => setPending(queued.length))
+      .catch(() => {});
+  }, [userId]);
+
+  useEffect(() => { refreshPending(); }, [refreshPending]);
+
+  useEffect(() => {
+    if (!online) return;
+    replayQueue(userId ?? "")
+      .then((result) => {
+        setPending(result.pending);
+        handler.current(result);
+      })
+      .catch(() => {});
+  }, [online, userId]);
+
+  return { online, pending: userId ? pending : 0, refreshPending };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+
+// Calls `onView` the first time each prompt card is at least half on screen.
+// Returns a ref callback factory: `<div ref={trackView(p.id)}>`.
+export function useViewTracking(onView: (id: string) => void) {
+  const handler = useRef(onView);
+  const seen = useRef(new Set<string>());
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  useEffect(() => {
+    handler.current = onView;
+  });
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  return useCallback((id: string) => (el: HTMLElement | null) => {
+    if (!el || seen.current.has(id)) return;
+
+    observer.current ??= new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        const viewed = (entry.target as HTMLElement).dataset.viewId;
+        if (!entry.isIntersecting || !viewed) continue;
+        observer.current?.unobserve(entry.target);
+        if (seen.current.has(viewed)) continue;
+        seen.current.add(viewed);
+        handler.current(viewed);
+      }
+    }, { threshold: 0.5 });
+
+    el.dataset.viewId = id;
+    observer.current.observe(el);
+    return () => observer.current?.unobserve(el);
+  }, []);
+}
@@ -0,0 +1,62 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { FieldErrors } from "@/lib/schemas";
+import type { UsageEvent } from "@/lib/usage";
+
+// fetch() wrapper for our own API routes: attaches the current session's
+// access token so route handlers can tell who is calling.
+export async function apiFetch(input: string, init: RequestInit = {}) {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session) headers.set("Authorization", `Bearer ${session.access_token}`);
+  if (init.body && !headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+
+  return fetch(input, { ...init, headers });
+}
+
+// Records a copy or view of a prompt for its usage stats. Resolves to the
+// prompt's new copy count, or null when the event wasn't recorded; failures
+// never matter to the caller.
+export async function recordUsageEvent(promptId: string, type: UsageEvent): Promise<number | null> {
+  try {
+    const res = await apiFetch(`/api/prompts/${promptId}/events`, { method: "POST", body: JSON.stringify({ type }) });
+    if (!res.ok) return null;
+    const { copy_count } = await res.json();
+    return copy_count;
+  } catch {
+    return null;
+  }
+}
+
+// Pulls the `{ error }` message out of a failed API response.
+export async function readApiError(res: Response, fallback: string): Promise<string> {
+  return (await toApiError(res, fallback)).message;
+}
+
+// A failed API response. `fields` carries the per-field messages of a 400
+// from a validation failure, so forms can show them next to each input.
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly fields?: FieldErrors) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export async function toApiError(res: Response, fallback: string): Promise<ApiError> {
+  // Rate-limited responses say when to try again even without a JSON body
+  const retryAfter = res.status === 429 ? Number(res.headers.get("Retry-After")) : 0;
+  const message = retryAfter > 0
+    ? `You're doing that too often. Try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.`
+    : fallback;
+
+  try {
+    const body = await res.json();
+    return new ApiError(
+      typeof body?.error === "string" ? body.error : message,
+      res.status,
+      typeof body?.fields === "object" && body.fields !== null ? body.fields : undefined
+    );
+  } catch {
+    return new ApiError(message, res.status);
+  }
+}
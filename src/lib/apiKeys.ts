@@ -0,0 +1,37 @@
+// Personal API keys: what they look like and what each scope may do.
+
+export const API_KEY_SCOPES = ["read", "write"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Every key starts with this, so a bearer token can be told apart from a
+// Supabase access token without a lookup.
+export const API_KEY_PREFIX = "psk_";
+
+// How much of a key is kept in the clear, to tell keys apart in the list
+const VISIBLE_LENGTH = API_KEY_PREFIX.length + 8;
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return API_KEY_PREFIX + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function visiblePrefix(key: string): string {
+  return key.slice(0, VISIBLE_LENGTH);
+}
+
+// Keys are stored as their SHA-256, hex-encoded
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Read-only keys can only make requests that don't change anything
+export function scopeAllows(scope: ApiKeyScope, method: string): boolean {
+  return scope === "write" || READ_METHODS.includes(method.toUpperCase());
+}
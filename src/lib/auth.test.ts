@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { checkPromptOwner, getRequestUser } from "@/lib/auth";
+import { memoryPrompt } from "@/lib/memoryPromptRepository";
+import { apiRequest, USERS, setUpMemoryBackend } from "@/test/routes";
+
+const repository = setUpMemoryBackend();
+
+function withCookie(cookie: string) {
+  const request = apiRequest("/api/prompts");
+  request.headers.set("Cookie", cookie);
+  return request;
+}
+
+function sessionCookie(session: unknown) {
+  return `base64-${Buffer.from(JSON.stringify(session)).toString("base64")}`;
+}
+
+describe("getRequestUser", () => {
+  it("resolves a bearer token to its user", async () => {
+    expect((await getRequestUser(apiRequest("/api/prompts", { as: "alice" })))?.id).toBe(USERS.alice.id);
+  });
+
+  it("treats missing and unknown tokens as anonymous", async () => {
+    expect(await getRequestUser(apiRequest("/api/prompts"))).toBeNull();
+
+    const request = apiRequest("/api/prompts");
+    request.headers.set("Authorization", "Bearer mallory");
+    expect(await getRequestUser(request)).toBeNull();
+  });
+
+  it("reads the session cookie, whole or in chunks", async () => {
+    const cookie = sessionCookie({ access_token: "bob" });
+    expect((await getRequestUser(withCookie(`sb-ref-auth-token=${cookie}`)))?.id).toBe(USERS.bob.id);
+
+    const chunks = `sb-ref-auth-token.0=${cookie.slice(0, 10)}; sb-ref-auth-token.1=${cookie.slice(10)}`;
+    expect((await getRequestUser(withCookie(chunks)))?.id).toBe(USERS.bob.id);
+  });
+
+  it("skips a malformed cookie rather than failing", async () => {
+    const cookie = `theme=%E0%A4%A; sb-ref-auth-token=${sessionCookie({ access_token: "alice" })}`;
+    expect((await getRequestUser(withCookie(cookie)))?.id).toBe(USERS.alice.id);
+    expect(await getRequestUser(withCookie("sb-ref-auth-token=%"))).toBeNull();
+  });
+
+  it("turns banned users away", async () => {
+    repository().data.bannedUserIds.push(USERS.alice.id);
+    expect(await getRequestUser(apiRequest("/api/prompts", { as: "alice" }))).toBeNull();
+  });
+});
+
+describe("checkPromptOwner", () => {
+  it("lets only the author through", async () => {
+    repository().data.prompts.push(memoryPrompt({ id: "p1", author_id: USERS.alice.id }));
+    const alice = (await getRequestUser(apiRequest("/", { as: "alice" })))!;
+    const bob = (await getRequestUser(apiRequest("/", { as: "bob" })))!;
+
+    expect(await checkPromptOwner("p1", alice)).toBeNull();
+    expect((await checkPromptOwner("p1", bob))?.status).toBe(403);
+    expect((await checkPromptOwner("p2", alice))?.status).toBe(404);
+  });
+});
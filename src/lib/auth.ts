@@ -0,0 +1,261 @@
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { hashApiKey, isApiKey, scopeAllows, type ApiKeyScope } from "@/lib/apiKeys";
+import { canViewPrompt } from "@/lib/visibility";
+import { getWorkspaceIds } from "@/lib/workspaces";
+import { getPromptRepository } from "@/lib/promptRepository";
+
+// Turns an access token into the user it belongs to, or null if the token
+// is not valid. The default asks Supabase; tests and local development can
+// swap in a stand-in with setTokenVerifier().
+export type TokenVerifier = (token: string) => Promise<User | null>;
+
+const supabaseTokenVerifier: TokenVerifier = async (token) => {
+  const { data, error } = await supabaseServer.auth.getUser(token);
+  if (error) return null;
+  return data.user;
+};
+
+let verifyToken: TokenVerifier = supabaseTokenVerifier;
+
+export function setTokenVerifier(verifier: TokenVerifier | null) {
+  verifyToken = verifier ?? supabaseTokenVerifier;
+}
+
+// Stand-in verifier that accepts a fixed set of tokens, so route handlers
+// can be exercised without a live Supabase project.
+export function createLocalTokenVerifier(users: Record<string, Pick<User, "id"> & Partial<User>>): TokenVerifier {
+  return async (token) => {
+    const user = users[token];
+    if (!user) return null;
+    return {
+      app_metadata: {},
+      user_metadata: {},
+      aud: "authenticated",
+      created_at: new Date(0).toISOString(),
+      ...user,
+    };
+  };
+}
+
+function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const part of header?.split(";") ?? []) {
+    const eq = part.indexOf("=");
+    if (eq === -1) continue;
+    try {
+      cookies.set(part.slice(0, eq).trim(), decodeURIComponent(part.slice(eq + 1).trim()));
+    } catch {
+      // A malformed cookie (e.g. a stray "%") is someone else's; skip it
+    }
+  }
+  return cookies;
+}
+
+// Supabase's SSR helpers store the session as JSON in `sb-<ref>-auth-token`,
+// optionally base64-encoded and split across `.0`, `.1`, ... chunks.
+function tokenFromCookies(header: string | null): string | null {
+  const cookies = parseCookies(header);
+
+  const legacy = cookies.get("sb-access-token");
+  if (legacy) return legacy;
+
+  const name = Array.from(cookies.keys()).find((key) => /^sb-.+-auth-token(\.0)?$/.test(key));
+  if (!name) return null;
+
+  const base = name.replace(/\.0$/, "");
+  let raw = cookies.get(base) ?? "";
+  for (let i = 0; cookies.has(`${base}.${i}`); i++) raw += cookies.get(`${base}.${i}`);
+
+  try {
+    if (raw.startsWith("base64-")) raw = Buffer.from(raw.slice(7), "base64").toString("utf8");
+    const session = JSON.parse(raw);
+    const token = Array.isArray(session) ? session[0] : session?.access_token;
+    return typeof token === "string" ? token : null;
+  } catch {
+    return null;
+  }
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  return header?.startsWith("Bearer ") ? header.slice(7) : null;
+}
+
+// True when the request authenticates with a personal API key rather than a
+// browser session.
+export function usesApiKey(request: Request): boolean {
+  const token = bearerToken(request);
+  return !!token && isApiKey(token);
+}
+
+export type ApiKeyMatch = { id: string; user_id: string; scope: ApiKeyScope; last_used_at: string | null };
+
+// Looks up a personal API key by its hash. Returns null for unknown and
+// revoked keys.
+export async function findApiKey(key: string): Promise<ApiKeyMatch | null> {
+  const { data } = await supabaseServer
+    .from("api_keys")
+    .select("id, user_id, scope, last_used_at")
+    .eq("key_hash", await hashApiKey(key))
+    .is("revoked_at", null)
+    .maybeSingle();
+  return data;
+}
+
+const LAST_USED_INTERVAL_MS = 60_000;
+
+async function verifyApiKey(key: string, method: string): Promise<User | null> {
+  const apiKey = await findApiKey(key);
+  if (!apiKey || !scopeAllows(apiKey.scope, method)) return null;
+
+  const { data, error } = await supabaseServer.auth.admin.getUserById(apiKey.user_id);
+  if (error) return null;
+
+  // Recorded at most once a minute per key, so a busy key doesn't turn
+  // every request into a write
+  const lastUsed = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed >= LAST_USED_INTERVAL_MS) {
+    await supabaseServer
+      .from("api_keys")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", apiKey.id);
+  }
+
+  return data.user;
+}
+
+// Resolves the Supabase user behind the request's bearer token (an access
+// token or a personal API key) or session cookie. Returns null for anonymous
+// callers, tokens that don't verify, read-only keys on requests that change
+// something, and banned users, so a ban takes effect on every route at once.
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const token = bearerToken(request) ?? tokenFromCookies(request.headers.get("cookie"));
+  if (!token) return null;
+
+  const user = isApiKey(token)
+    ? await verifyApiKey(token, request.method)
+    : await verifyToken(token);
+  if (!user || (await getPromptRepository().isBanned(user.id))) return null;
+  return user;
+}
+
+// Like getRequestUser, for the few routes that need a signed-in browser
+// session: managing API keys can't be done with an API key, so a leaked key
+// can't be used to mint more.
+export async function getSessionUser(request: Request): Promise<{ user: User } | { response: NextResponse }> {
+  if (usesApiKey(request)) {
+    return {
+      response: NextResponse.json(
+        { error: "API keys can't manage API keys. Sign in to the site instead." },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const user = await getRequestUser(request);
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: "Login required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+export function getDisplayName(user: User): string {
+  return user.user_metadata?.full_name || user.email?.split("@")[0] || "Anonymous";
+}
+
+// Checks that `user` wrote the prompt. Returns the error response to send
+// back when they didn't (or the prompt is missing), otherwise null.
+export async function checkPromptOwner(promptId: string, user: User): Promise<NextResponse | null> {
+  const { data, error } = await getPromptRepository().findPrompt(promptId);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: "Prompt not found" },
+      { status: 404 }
+    );
+  }
+
+  if (data.author_id !== user.id) {
+    return NextResponse.json(
+      { error: "You can only change your own prompts" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Checks that `user` (null for anonymous callers) can see the prompt.
+// Returns the error response to send back when they can't, otherwise null.
+// Prompts they can't see are reported as not found, so their existence
+// doesn't leak.
+export async function checkPromptVisible(promptId: string, user: User | null): Promise<NextResponse | null> {
+  const { data, error } = await getPromptRepository().findPrompt(promptId);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  const workspaces = data?.visibility === "workspace" ? await getWorkspaceIds(user) : { ids: [] };
+  if ("response" in workspaces) return workspaces.response;
+
+  if (!data || !canViewPrompt(data, user?.id ?? null, workspaces.ids)) {
+    return NextResponse.json(
+      { error: "Prompt not found" },
+      { status: 404 }
+    );
+  }
+
+  return null;
+}
+
+// Checks that `user` is an admin. Returns the error response to send back
+// when they aren't, otherwise null.
+export async function checkAdmin(user: User | null): Promise<NextResponse | null> {
+  if (!user) {
+    return NextResponse.json(
+      { error: "Login required" },
+      { status: 401 }
+    );
+  }
+
+  const { data, error } = await supabaseServer
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (data?.role !== "admin") {
+    return NextResponse.json(
+      { error: "Admins only" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
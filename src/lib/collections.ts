@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabaseServer } from "@/lib/supabaseServer";
+
+export type Collection = {
+  id: string;
+  owner_id: string;
+  owner_name: string;
+  name: string;
+  slug: string;
+  description: string;
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+};
+
+// Looks up a collection by slug as `user` would see it: private collections
+// of other users are reported as not found rather than forbidden, so their
+// existence doesn't leak. Deleted collections are not found either.
+export async function getVisibleCollection(
+  slug: string,
+  user: User | null
+): Promise<{ collection: Collection } | { response: NextResponse }> {
+  const { data, error } = await supabaseServer
+    .from("collections")
+    .select("*")
+    .eq("slug", slug)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    return {
+      response: NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      ),
+    };
+  }
+
+  if (!data || (!data.is_public && data.owner_id !== user?.id)) {
+    return {
+      response: NextResponse.json(
+        { error: "Collection not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { collection: data };
+}
+
+// Like getVisibleCollection, but only succeeds for the collection's owner.
+export async function getOwnedCollection(
+  slug: string,
+  user: User
+): Promise<{ collection: Collection } | { response: NextResponse }> {
+  const found = await getVisibleCollection(slug, user);
+  if ("response" in found) return found;
+
+  if (found.collection.owner_id !== user.id) {
+    return {
+      response: NextResponse.json(
+        { error: "You can only change your own collections" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return found;
+}
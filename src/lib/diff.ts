@@ -0,0 +1,56 @@
+export type DiffPart = { type: "same" | "added" | "removed"; text: string };
+
+// Above this many token pairs the LCS table gets too big for the browser,
+// so we diff line by line instead of word by word.
+const MAX_WORD_CELLS = 2_000_000;
+
+function tokenize(text: string, byLine: boolean): string[] {
+  if (!byLine) return text.split(/(\s+)/).filter(Boolean);
+  return text.split("\n").map((line, i, lines) => (i < lines.length - 1 ? `${line}\n` : line)).filter(Boolean);
+}
+
+// Word-level diff of two strings, based on their longest common subsequence.
+// Adjacent parts of the same type are merged.
+export function diffText(before: string, after: string): DiffPart[] {
+  let a = tokenize(before, false);
+  let b = tokenize(after, false);
+  if (a.length * b.length > MAX_WORD_CELLS) {
+    a = tokenize(before, true);
+    b = tokenize(after, true);
+  }
+
+  const cols = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = a[i] === b[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return parts;
+}
@@ -0,0 +1,53 @@
+// Loose matching for the command palette, where people type a few letters
+// of what they remember ("sql rv" for "SQL review checklist").
+
+const WORD_START = /[\s\-_/#.:(]/;
+
+// Scores `text` against `query` when the query's letters appear in it in
+// order. Consecutive letters and letters starting a word count extra.
+// Returns null when some letter is missing. Spaces in the query are ignored.
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const ch of q) {
+    const i = t.indexOf(ch, from);
+    if (i === -1) return null;
+    score += 1;
+    if (i === previous + 1) score += 2;
+    if (i === 0 || WORD_START.test(t[i - 1])) score += 3;
+    previous = i;
+    from = i + 1;
+  }
+  return score;
+}
+
+// One searchable piece of an item. `exact` fields (long text, like a
+// prompt's content) only match the query as written, since almost any
+// short query is a subsequence of a few paragraphs.
+export type FuzzyField = { text: string; weight: number; exact?: boolean };
+
+// The items matching `query`, best first. An item scores its best field.
+export function fuzzyRank<T>(items: T[], query: string, fieldsOf: (item: T) => FuzzyField[]): T[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return items;
+
+  const scored: { item: T; score: number }[] = [];
+  for (const item of items) {
+    let best: number | null = null;
+    for (const field of fieldsOf(item)) {
+      const score = field.exact
+        ? (field.text.toLowerCase().includes(q) ? q.length : null)
+        : fuzzyScore(q, field.text);
+      if (score !== null && (best === null || score * field.weight > best)) best = score * field.weight;
+    }
+    if (best !== null) scored.push({ item, score: best });
+  }
+
+  // Stable for equal scores, so the caller's order breaks ties
+  return scored.sort((a, b) => b.score - a.score).map((s) => s.item);
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { summarizeErrors, type FieldErrors } from "@/lib/schemas";
+
+// Reads a JSON request body. A body that doesn't parse gets its own 400
+// rather than being mistaken for a validation failure.
+export async function readJson(request: Request): Promise<{ body: unknown } | { response: NextResponse }> {
+  try {
+    return { body: await request.json() };
+  } catch {
+    return {
+      response: NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      ),
+    };
+  }
+}
+
+// 400 listing what is wrong with each field:
+//   { error: "Title is required", fields: { title: ["Title is required"] } }
+export function validationError(errors: FieldErrors) {
+  return NextResponse.json(
+    { error: summarizeErrors(errors), fields: errors },
+    { status: 400 }
+  );
+}
+
+// The ?limit= query parameter as a whole number from 1 to `max`. Missing,
+// negative or unreadable values get `fallback`.
+export function pageLimit(params: URLSearchParams, fallback: number, max: number): number {
+  const limit = Math.floor(Number(params.get("limit")));
+  return limit >= 1 ? Math.min(limit, max) : fallback;
+}
@@ -0,0 +1,126 @@
+// Language model providers for the prompt playground. A provider streams the
+// completion for a prompt as text chunks. The default talks to any
+// OpenAI-compatible chat completions endpoint configured through the
+// environment; without one, runs go to a deterministic local mock.
+
+export type LlmRequest = { prompt: string; signal?: AbortSignal };
+
+export type LlmProvider = {
+  name: string;
+  model: string;
+  stream: (request: LlmRequest) => AsyncIterable<string>;
+};
+
+// Thrown when the provider can't be reached or rejects the request.
+export class LlmError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+// Streams `/chat/completions` with the prompt as a single user message.
+export function createOpenAICompatibleProvider(options: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): LlmProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai-compatible",
+    model: options.model,
+    async *stream({ prompt, signal }) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model: options.model,
+            stream: true,
+            messages: [{ role: "user", content: prompt }],
+          }),
+          signal,
+        });
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw new LlmError("Could not reach the model provider");
+      }
+
+      if (!res.ok || !res.body) {
+        throw new LlmError(`Model provider answered ${res.status}`);
+      }
+
+      // Server-sent events: `data: {...}` lines, ending with `data: [DONE]`
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice(5).trim();
+          if (data === "[DONE]") return;
+          try {
+            const text = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (typeof text === "string" && text) yield text;
+          } catch {
+            // Skip keep-alives and anything else that isn't a chunk
+          }
+        }
+      }
+    },
+  };
+}
+
+// Answers every prompt with the same text for the same input, a few words
+// at a time, so the playground can be used and tested offline.
+export function createMockProvider(): LlmProvider {
+  return {
+    name: "mock",
+    model: "mock-echo",
+    async *stream({ prompt, signal }) {
+      const words = prompt.trim().split(/\s+/).filter(Boolean);
+      const reply = `Mock response to a ${words.length}-word prompt:\n\n${words.join(" ")}`;
+
+      for (const chunk of reply.match(/\S+\s*/g) ?? []) {
+        if (signal?.aborted) return;
+        yield chunk;
+      }
+    },
+  };
+}
+
+function providerFromEnv(): LlmProvider {
+  const baseUrl = process.env.LLM_BASE_URL;
+  if (!baseUrl) return createMockProvider();
+
+  return createOpenAICompatibleProvider({
+    baseUrl,
+    apiKey: process.env.LLM_API_KEY,
+    model: process.env.LLM_MODEL || "gpt-4o-mini",
+  });
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  provider ??= providerFromEnv();
+  return provider;
+}
+
+// Swaps the provider, e.g. for tests; null goes back to the configured one.
+export function setLlmProvider(next: LlmProvider | null) {
+  provider = next;
+}
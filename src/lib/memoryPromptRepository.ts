@@ -0,0 +1,247 @@
+import { canViewPrompt } from "@/lib/visibility";
+import type {
+  NewNotificationRow, PromptRepository, PromptRow, PromptSearch, PromptUsageRow,
+} from "@/lib/promptRepository";
+
+// In-memory stand-in for the Supabase repository, so route handlers can be
+// exercised without a live project. It mirrors what the database does for
+// them (visibility, search and paging, the version and fork count triggers)
+// closely enough for tests, not exactly: search matches words rather than
+// stems, and "trending" ranks by likes, comments and copies.
+
+export type MemoryData = {
+  prompts: PromptRow[];
+  likes: { user_id: string; prompt_id: string }[];
+  usage: PromptUsageRow[];
+  workspaceMembers: { workspace_id: string; user_id: string }[];
+  bannedUserIds: string[];
+  notifications: NewNotificationRow[];
+};
+
+export type MemoryPromptRepository = PromptRepository & {
+  data: MemoryData; // inspect or change freely
+  // Makes `method` fail with `message` from now on, as a database error
+  // would, or succeed again when `message` is null
+  fail(method: keyof PromptRepository, message?: string | null): void;
+};
+
+// A prompt with defaults for everything not given, to seed the repository
+export function memoryPrompt(fields: Partial<PromptRow> & Pick<PromptRow, "id" | "author_id">): PromptRow {
+  return {
+    author_name: "Someone",
+    title: "Untitled",
+    content: "",
+    tags: [],
+    variables: {},
+    version: 1,
+    created_at: new Date().toISOString(),
+    updated_at: null,
+    likes: 0,
+    comment_count: 0,
+    copy_count: 0,
+    forked_from: null,
+    fork_count: 0,
+    visibility: "public",
+    workspace_id: null,
+    deleted_at: null,
+    hidden_at: null,
+    ...fields,
+  };
+}
+
+function words(text: string) {
+  return text.toLowerCase().split(/\W+/).filter(Boolean);
+}
+
+function sortKey(prompt: PromptRow, search: PromptSearch): number {
+  switch (search.sort) {
+    case "relevance": {
+      const text = words([prompt.title, prompt.content, ...prompt.tags].join(" "));
+      return words(search.query ?? "").reduce((n, w) => n + text.filter((t) => t === w).length, 0);
+    }
+    case "likes": return prompt.likes;
+    case "comments": return prompt.comment_count;
+    case "trending": return prompt.likes + prompt.comment_count + prompt.copy_count;
+    default: return new Date(prompt.created_at).getTime() / 1000;
+  }
+}
+
+function matches(prompt: PromptRow, search: PromptSearch, workspaceIds: string[]): boolean {
+  if (prompt.deleted_at || prompt.hidden_at) return false;
+  if (!canViewPrompt(prompt, search.viewerId, workspaceIds)) return false;
+  if (search.workspaceId && prompt.workspace_id !== search.workspaceId) return false;
+  if (search.authorId && prompt.author_id !== search.authorId) return false;
+
+  if (search.tags.length > 0) {
+    const tagged = search.tagsMatch === "any"
+      ? search.tags.some((t) => prompt.tags.includes(t))
+      : search.tags.every((t) => prompt.tags.includes(t));
+    if (!tagged) return false;
+  }
+
+  if (search.query) {
+    const text = new Set(words([prompt.title, prompt.content, ...prompt.tags].join(" ")));
+    if (!words(search.query).every((w) => text.has(w))) return false;
+  }
+
+  return true;
+}
+
+export function createMemoryPromptRepository(seed: Partial<MemoryData> = {}): MemoryPromptRepository {
+  const data: MemoryData = {
+    prompts: [],
+    likes: [],
+    usage: [],
+    workspaceMembers: [],
+    bannedUserIds: [],
+    notifications: [],
+    ...seed,
+  };
+  const failures = new Map<keyof PromptRepository, string>();
+
+  const failure = (method: keyof PromptRepository) => {
+    const message = failures.get(method);
+    return message === undefined ? null : { data: null, error: { message } };
+  };
+
+  const live = (id: string) => data.prompts.find((p) => p.id === id && !p.deleted_at && !p.hidden_at) ?? null;
+
+  return {
+    data,
+
+    fail(method, message = "Database unavailable") {
+      if (message === null) failures.delete(method);
+      else failures.set(method, message);
+    },
+
+    async searchPromptIds(search) {
+      const failed = failure("searchPromptIds");
+      if (failed) return failed;
+
+      const workspaceIds = data.workspaceMembers
+        .filter((m) => m.user_id === search.viewerId)
+        .map((m) => m.workspace_id);
+
+      const rows = data.prompts
+        .filter((p) => matches(p, search, workspaceIds))
+        .map((p) => ({ id: p.id, sort_key: sortKey(p, search) }))
+        .filter((r) => !search.after
+          || r.sort_key < search.after[0]
+          || (r.sort_key === search.after[0] && r.id < search.after[1]))
+        .sort((a, b) => b.sort_key - a.sort_key || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+
+      return { data: rows.slice(0, search.limit), error: null };
+    },
+
+    async getPrompts(ids) {
+      const failed = failure("getPrompts");
+      if (failed) return failed;
+
+      const rows = data.prompts
+        .filter((p) => ids.includes(p.id))
+        .map((p) => {
+          const parent = data.prompts.find((o) => o.id === p.forked_from);
+          return {
+            ...p,
+            parent: parent ? { id: parent.id, title: parent.title, author_name: parent.author_name } : null,
+          };
+        });
+
+      return { data: rows, error: null };
+    },
+
+    async findPrompt(id) {
+      return failure("findPrompt") ?? { data: live(id), error: null };
+    },
+
+    async insertPrompt(prompt) {
+      const failed = failure("insertPrompt");
+      if (failed) return failed;
+
+      const row = memoryPrompt({
+        ...prompt,
+        id: crypto.randomUUID(),
+        forked_from: prompt.forked_from ?? null,
+        visibility: prompt.visibility ?? "public",
+        workspace_id: prompt.workspace_id ?? null,
+      });
+      data.prompts.push(row);
+
+      const original = data.prompts.find((p) => p.id === row.forked_from);
+      if (original) original.fork_count += 1;
+
+      return { data: row, error: null };
+    },
+
+    async updatePrompt(id, changes) {
+      const failed = failure("updatePrompt");
+      if (failed) return failed;
+
+      const index = data.prompts.findIndex((p) => p.id === id);
+      if (index === -1) return { data: null, error: { message: "Prompt not found" } };
+
+      const old = data.prompts[index];
+      const row = { ...old, ...changes };
+      if (row.title !== old.title || row.content !== old.content || row.tags.join() !== old.tags.join()) {
+        row.version = old.version + 1;
+        row.updated_at = new Date().toISOString();
+      }
+      data.prompts[index] = row;
+
+      return { data: row, error: null };
+    },
+
+    async deletePrompt(id, deletedAt, expectedVersion) {
+      const failed = failure("deletePrompt");
+      if (failed) return failed;
+
+      const row = live(id);
+      if (!row || (expectedVersion !== null && row.version !== expectedVersion)) return { data: false, error: null };
+
+      row.deleted_at = deletedAt;
+      const original = data.prompts.find((p) => p.id === row.forked_from);
+      if (original) original.fork_count = Math.max(original.fork_count - 1, 0);
+      return { data: true, error: null };
+    },
+
+    async likedPromptIds(userId, promptIds) {
+      const failed = failure("likedPromptIds");
+      if (failed) return failed;
+
+      const liked = data.likes
+        .filter((l) => l.user_id === userId && promptIds.includes(l.prompt_id))
+        .map((l) => l.prompt_id);
+      return { data: liked, error: null };
+    },
+
+    async promptUsage(promptIds, since) {
+      const failed = failure("promptUsage");
+      if (failed) return failed;
+
+      const rows = data.usage.filter((u) => promptIds.includes(u.prompt_id) && u.day >= since);
+      return { data: rows, error: null };
+    },
+
+    async workspaceIds(userId) {
+      const failed = failure("workspaceIds");
+      if (failed) return failed;
+
+      const ids = data.workspaceMembers.filter((m) => m.user_id === userId).map((m) => m.workspace_id);
+      return { data: ids, error: null };
+    },
+
+    async workspaceMemberIds(workspaceId, userIds) {
+      return data.workspaceMembers
+        .filter((m) => m.workspace_id === workspaceId && userIds.includes(m.user_id))
+        .map((m) => m.user_id);
+    },
+
+    async isBanned(userId) {
+      return data.bannedUserIds.includes(userId);
+    },
+
+    async addNotifications(rows) {
+      data.notifications.push(...rows);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+// @handle mentions in comment text. Handles follow HANDLE_PATTERN; an @ in
+// the middle of a word (an email address) isn't a mention.
+
+const MENTION_PATTERN = /(^|[^a-z0-9_@])@([a-z0-9_]{3,30})\b/gi;
+
+// The distinct handles mentioned in `text`, lowercased
+export function extractMentions(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(MENTION_PATTERN), (m) => m[2].toLowerCase())));
+}
+
+export type TextPart = { text: string } | { handle: string };
+
+// Splits text into plain runs and mentions, for rendering mentions as links
+export function splitMentions(text: string): TextPart[] {
+  const parts: TextPart[] = [];
+  let last = 0;
+
+  for (const m of text.matchAll(MENTION_PATTERN)) {
+    const start = m.index + m[1].length;
+    if (start > last) parts.push({ text: text.slice(last, start) });
+    parts.push({ handle: m[2].toLowerCase() });
+    last = start + 1 + m[2].length;
+  }
+
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+}
+
+// The partial handle being typed just before the caret, e.g. "jo" for
+// "thanks @jo|", or null when the caret isn't inside a mention
+export function mentionAtCaret(textBeforeCaret: string): string | null {
+  const m = /(^|[^a-z0-9_@])@([a-z0-9_]{0,30})$/i.exec(textBeforeCaret);
+  return m ? m[2] : null;
+}
@@ -0,0 +1,22 @@
+// Shared rules for reports and soft deletes.
+
+export const REPORT_REASONS = ["spam", "abuse", "other"] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_TARGETS = ["prompt", "comment"] as const;
+export type ReportTarget = (typeof REPORT_TARGETS)[number];
+
+export const MODERATION_ACTIONS = ["hide", "restore", "dismiss", "ban"] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+// How long deleted content can still be restored by its owner. The database
+// purges it after this (see purge_deleted_content in the migrations).
+export const RESTORE_WINDOW_DAYS = 30;
+
+export function restoreDeadline(deletedAt: string): Date {
+  return new Date(new Date(deletedAt).getTime() + RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function canStillRestore(deletedAt: string): boolean {
+  return restoreDeadline(deletedAt).getTime() > Date.now();
+}
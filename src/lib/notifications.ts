@@ -0,0 +1,92 @@
+import type { User } from "@supabase/supabase-js";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getDisplayName } from "@/lib/auth";
+import { extractMentions } from "@/lib/mentions";
+import type { NotificationType } from "@/lib/schemas";
+import { canViewPrompt, type PromptVisibility } from "@/lib/visibility";
+import { getPromptRepository } from "@/lib/promptRepository";
+
+type NewNotification = {
+  user_id: string;
+  type: NotificationType;
+  prompt_id: string;
+  comment_id?: string | null;
+};
+
+type PromptAccess = { id: string; visibility: PromptVisibility; author_id: string; workspace_id: string | null };
+
+// Saves notifications from `actor`, leaving out any addressed to the actor
+// themselves. Best effort: a notification that can't be saved never fails
+// the request that caused it.
+export async function notify(actor: User, notifications: NewNotification[]): Promise<void> {
+  const rows = notifications
+    .filter((n) => n.user_id !== actor.id)
+    .map((n) => ({ ...n, actor_id: actor.id, actor_name: getDisplayName(actor) }));
+
+  if (rows.length > 0) await getPromptRepository().addNotifications(rows);
+}
+
+// Which of `ids` can see the prompt, so nobody is told about one they can't open
+async function viewersOf(prompt: PromptAccess, ids: string[]): Promise<string[]> {
+  if (prompt.visibility !== "workspace" || ids.length === 0) {
+    return ids.filter((id) => canViewPrompt(prompt, id, []));
+  }
+
+  const memberIds = new Set(await getPromptRepository().workspaceMemberIds(prompt.workspace_id!, ids));
+  return ids.filter((id) => memberIds.has(id) || canViewPrompt(prompt, id, []));
+}
+
+// IDs of the people @mentioned in `text` who can see the prompt. Handles
+// already mentioned in `previousText` (before an edit) are left out.
+async function mentionedUserIds(text: string, prompt: PromptAccess, previousText = ""): Promise<string[]> {
+  const before = new Set(extractMentions(previousText));
+  const handles = extractMentions(text).filter((h) => !before.has(h));
+  if (handles.length === 0) return [];
+
+  const { data: profiles } = await supabaseServer
+    .from("profiles")
+    .select("id")
+    .in("handle", handles);
+
+  return viewersOf(prompt, (profiles ?? []).map((p) => p.id));
+}
+
+// A new comment notifies the prompt's author, the author of the comment it
+// replies to and anyone it mentions, each once
+export async function notifyComment(
+  actor: User,
+  comment: { id: string; text: string },
+  prompt: PromptAccess,
+  repliedTo: string | null
+): Promise<void> {
+  const notifications: NewNotification[] = [];
+  const notified = new Set<string>();
+  const add = (userId: string, type: NotificationType) => {
+    if (notified.has(userId)) return;
+    notified.add(userId);
+    notifications.push({ user_id: userId, type, prompt_id: prompt.id, comment_id: comment.id });
+  };
+
+  if (repliedTo) add(repliedTo, "reply");
+  add(prompt.author_id, "comment");
+  for (const id of await mentionedUserIds(comment.text, prompt)) add(id, "mention");
+
+  await notify(actor, notifications);
+}
+
+// An edit only notifies people it newly mentions
+export async function notifyCommentEdit(
+  actor: User,
+  comment: { id: string; text: string },
+  previousText: string,
+  prompt: PromptAccess
+): Promise<void> {
+  const ids = await mentionedUserIds(comment.text, prompt, previousText);
+  await notify(actor, ids.map((id) => ({ user_id: id, type: "mention", prompt_id: prompt.id, comment_id: comment.id })));
+}
+
+// A fork notifies the original's author, if they can see the fork
+export async function notifyFork(actor: User, fork: PromptAccess, originalAuthor: string): Promise<void> {
+  const viewers = await viewersOf(fork, [originalAuthor]);
+  await notify(actor, viewers.map((id) => ({ user_id: id, type: "fork", prompt_id: fork.id })));
+}
@@ -0,0 +1,146 @@
+import type { Prompt, PromptInput } from "@/lib/schemas";
+
+// Browser-side storage for working offline, in IndexedDB: the last feed
+// each user saw, and the writes they made while offline, waiting to be
+// sent (see syncQueue.ts).
+
+const DB_NAME = "prompt-saver";
+const DB_VERSION = 1;
+const FEEDS = "feeds";
+const QUEUE = "queue";
+
+// The cache keeps the first prompts of the feed, which is what fits on a
+// few screens; more than that is rarely scrolled to offline
+export const CACHED_PROMPTS_LIMIT = 200;
+
+export type CachedFeed = {
+  key: string;
+  prompts: Prompt[];
+  saved_at: string;
+};
+
+// A write made offline. `title` is the prompt's, for telling the user
+// about it when it can't be replayed.
+export type QueuedWrite =
+  | { kind: "create"; temp_id: string; input: PromptInput }
+  | { kind: "delete"; prompt_id: string; version: number; title: string }
+  | { kind: "like"; prompt_id: string; liked: boolean; title: string }
+  | { kind: "comment"; prompt_id: string; temp_id: string; text: string; parent_id: string | null; title: string };
+
+// Queued writes are replayed in `seq` order, each as the user who made it
+export type QueuedEntry = QueuedWrite & { seq: number; user_id: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FEEDS)) db.createObjectStore(FEEDS, { keyPath: "key" });
+      if (!db.objectStoreNames.contains(QUEUE)) db.createObjectStore(QUEUE, { keyPath: "seq", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+// Runs `work` in one transaction and resolves with its result once the
+// transaction has committed
+async function transact<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// --- FEED CACHE ---
+
+// `savedAt` is when the prompts were last fetched from the server; changes
+// made while showing the cache keep the original time
+export async function saveCachedFeed(key: string, prompts: Prompt[], savedAt = new Date().toISOString()): Promise<void> {
+  const feed: CachedFeed = { key, prompts: prompts.slice(0, CACHED_PROMPTS_LIMIT), saved_at: savedAt };
+  await transact(FEEDS, "readwrite", (store) => store.put(feed));
+}
+
+export async function loadCachedFeed(key: string): Promise<CachedFeed | null> {
+  const feed = await transact<CachedFeed | undefined>(FEEDS, "readonly", (store) => store.get(key));
+  return feed ?? null;
+}
+
+// --- WRITE QUEUE ---
+
+export async function listQueuedWrites(userId: string): Promise<QueuedEntry[]> {
+  const queued = await transact<QueuedEntry[]>(QUEUE, "readonly", (store) => store.getAll());
+  return queued.filter((entry) => entry.user_id === userId);
+}
+
+// Adds a write to the end of the queue. A like replaces any queued like of
+// the same prompt, since only the final state matters.
+export async function queueWrite(userId: string, write: QueuedWrite): Promise<void> {
+  const likedPrompt = write.kind === "like" ? write.prompt_id : null;
+  const queued = likedPrompt ? await listQueuedWrites(userId) : [];
+  await transact(QUEUE, "readwrite", (store) => {
+    for (const entry of queued) {
+      if (entry.kind === "like" && entry.prompt_id === likedPrompt) store.delete(entry.seq);
+    }
+    store.add({ ...write, user_id: userId });
+  });
+}
+
+export async function removeQueuedWrite(seq: number): Promise<void> {
+  await transact(QUEUE, "readwrite", (store) => store.delete(seq));
+}
+
+// Forgets a prompt created offline, along with everything queued against
+// it. Resolves with what was dropped.
+export async function dropQueuedPrompt(userId: string, tempId: string): Promise<QueuedEntry[]> {
+  const dropped = (await listQueuedWrites(userId))
+    .filter((entry) => (entry.kind === "create" ? entry.temp_id : entry.prompt_id) === tempId);
+  await transact(QUEUE, "readwrite", (store) => {
+    for (const entry of dropped) store.delete(entry.seq);
+  });
+  return dropped;
+}
+
+// Forgets the replies queued to a comment made offline. Resolves with what
+// was dropped.
+export async function dropQueuedReplies(userId: string, tempId: string): Promise<QueuedEntry[]> {
+  const dropped = (await listQueuedWrites(userId))
+    .filter((entry) => entry.kind === "comment" && entry.parent_id === tempId);
+  await transact(QUEUE, "readwrite", (store) => {
+    for (const entry of dropped) store.delete(entry.seq);
+  });
+  return dropped;
+}
+
+// Points queued writes at the stored ID of a prompt or comment that was
+// created offline and has now been sent
+export async function replaceQueuedId(userId: string, tempId: string, id: string): Promise<void> {
+  const queued = await listQueuedWrites(userId);
+  await transact(QUEUE, "readwrite", (store) => {
+    for (const entry of queued) {
+      if (entry.kind === "create") continue;
+      const promptMatches = entry.prompt_id === tempId;
+      const parentMatches = entry.kind === "comment" && entry.parent_id === tempId;
+      if (!promptMatches && !parentMatches) continue;
+      store.put({
+        ...entry,
+        ...(promptMatches && { prompt_id: id }),
+        ...(parentMatches && { parent_id: id }),
+      });
+    }
+  });
+}
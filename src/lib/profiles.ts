@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { isUuid, type Profile } from "@/lib/schemas";
+
+export const PROFILE_COLUMNS = "id, handle, display_name, avatar_url, bio, role, created_at";
+
+// Looks up a profile by user ID or by handle, so author links can use the
+// ID they already have while profile pages show the handle.
+export async function findProfile(
+  idOrHandle: string
+): Promise<{ profile: Profile } | { response: NextResponse }> {
+  const column = isUuid(idOrHandle) ? "id" : "handle";
+
+  const { data, error } = await supabaseServer
+    .from("profiles")
+    .select(PROFILE_COLUMNS)
+    .eq(column, column === "handle" ? idOrHandle.toLowerCase() : idOrHandle)
+    .maybeSingle();
+
+  if (error) {
+    return {
+      response: NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      ),
+    };
+  }
+
+  if (!data) {
+    return {
+      response: NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { profile: data };
+}
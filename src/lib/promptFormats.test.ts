@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parsePrompts, serializePrompts } from "@/lib/promptFormats";
+import { parsePromptInput } from "@/lib/schemas";
+
+describe("parsePrompts", () => {
+  it("reports malformed variables JSON as that CSV row's error", () => {
+    const rows = parsePrompts('title,content,variables\nGood,Hi {{name}},"{""name"":{}}"\nBad,Hi,{oops\n', "csv");
+    expect(rows).toHaveLength(2);
+    expect(parsePromptInput(rows[0])).toHaveProperty("value");
+    expect(parsePromptInput(rows[1])).toEqual({ errors: { variables: ["variables must be an object"] } });
+  });
+
+  it("reports malformed variables JSON as that Markdown section's error", () => {
+    const rows = parsePrompts("## Bad\nVariables: {oops\n\nHi\n\n## Good\n\nHello\n", "md");
+    expect(rows).toHaveLength(2);
+    expect(parsePromptInput(rows[0])).toEqual({ errors: { variables: ["variables must be an object"] } });
+    expect(parsePromptInput(rows[1])).toHaveProperty("value");
+  });
+});
+
+describe("serializePrompts", () => {
+  const prompt = { title: "Team only", content: "Hi", tags: [], variables: {}, visibility: "workspace" as const, workspace_id: "00000000-0000-4000-8000-0000000000ff" };
+
+  it.each(["json", "csv", "md"] as const)("keeps visibility through a %s round trip", (format) => {
+    const [row] = parsePrompts(serializePrompts([prompt], format), format);
+    expect(row).toMatchObject({ visibility: "workspace", workspace_id: prompt.workspace_id });
+  });
+});
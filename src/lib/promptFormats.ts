@@ -0,0 +1,248 @@
+import type { TemplateVariables } from "@/lib/templates";
+import type { PromptVisibility } from "@/lib/visibility";
+
+// Reading and writing prompt libraries as JSON, CSV or Markdown, for bulk
+// export and import.
+
+export const PROMPT_FORMATS = ["json", "csv", "md"] as const;
+export type PromptFormat = (typeof PROMPT_FORMATS)[number];
+
+export type ExportedPrompt = {
+  title: string;
+  content: string;
+  tags: string[];
+  variables: TemplateVariables;
+  visibility?: PromptVisibility;
+  workspace_id?: string | null;
+  author_name?: string;
+  created_at?: string;
+};
+
+export const FORMAT_MIME_TYPES: Record<PromptFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  md: "text/markdown",
+};
+
+export function isPromptFormat(value: unknown): value is PromptFormat {
+  return PROMPT_FORMATS.includes(value as PromptFormat);
+}
+
+// --- CSV ---
+
+const CSV_COLUMNS = ["title", "content", "tags", "variables", "visibility", "workspace_id", "author_name", "created_at"] as const;
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(prompts: ExportedPrompt[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const p of prompts) {
+    lines.push([
+      p.title,
+      p.content,
+      p.tags.join(" "),
+      Object.keys(p.variables).length > 0 ? JSON.stringify(p.variables) : "",
+      p.visibility ?? "",
+      p.workspace_id ?? "",
+      p.author_name ?? "",
+      p.created_at ?? "",
+    ].map(csvField).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes.
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (quoted) throw new Error("Unterminated quoted field");
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+// Variables are JSON inside a CSV cell or a Markdown line. JSON that doesn't
+// parse is kept as text, so only that row fails validation ("variables must
+// be an object") rather than the whole file.
+function readVariables(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function fromCsv(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRecords(text.replace(/^﻿/, ""));
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+
+  return rows.map((fields) => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = fields[i] ?? "";
+      if (column === "tags") {
+        row.tags = value.split(/[\s,]+/).filter(Boolean);
+      } else if (column === "variables") {
+        row.variables = value ? readVariables(value) : undefined;
+      } else if (column === "visibility" || column === "workspace_id") {
+        if (value) row[column] = value;
+      } else {
+        row[column] = value;
+      }
+    });
+    return row;
+  });
+}
+
+// --- Markdown ---
+//
+// One section per prompt:
+//
+//   ## Title
+//
+//   Tags: #one #two
+//
+//   Visibility: workspace 0b4d…
+//
+//   ```
+//   content
+//   ```
+//
+// Fences are made longer than any backtick run in the content, so prompts
+// containing code blocks survive the round trip.
+
+function toMarkdown(prompts: ExportedPrompt[]): string {
+  return prompts.map((p) => {
+    const longestRun = Math.max(2, ...(p.content.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(longestRun + 1);
+    const lines = [`## ${p.title.replace(/\n/g, " ")}`, ""];
+    if (p.tags.length > 0) lines.push(`Tags: ${p.tags.map((t) => `#${t}`).join(" ")}`, "");
+    if (Object.keys(p.variables).length > 0) lines.push(`Variables: ${JSON.stringify(p.variables)}`, "");
+    if (p.visibility) lines.push(`Visibility: ${[p.visibility, p.workspace_id].filter(Boolean).join(" ")}`, "");
+    lines.push(fence, p.content, fence, "");
+    return lines.join("\n");
+  }).join("\n");
+}
+
+function fromMarkdown(text: string): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let current: Record<string, unknown> | null = null;
+  let body: string[] = [];
+  let fence: string | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    if (current.content === undefined) current.content = body.join("\n").trim();
+    rows.push(current);
+  };
+
+  for (const line of lines) {
+    if (fence !== null) {
+      if (line.trim() === fence) {
+        current!.content = body.join("\n");
+        fence = null;
+      } else {
+        body.push(line);
+      }
+      continue;
+    }
+
+    const heading = line.match(/^##\s+(.*)$/);
+    if (heading) {
+      finish();
+      current = { title: heading[1].trim() };
+      body = [];
+      continue;
+    }
+    if (!current) continue;
+
+    const tags = line.match(/^Tags:\s*(.*)$/i);
+    const variables = line.match(/^Variables:\s*(.*)$/i);
+    const visibility = line.match(/^Visibility:\s*(\S+)(?:\s+(\S+))?\s*$/i);
+    const openFence = line.match(/^(`{3,})\w*\s*$/);
+
+    if (tags) {
+      current.tags = tags[1].split(/\s+/).map((t) => t.replace(/^#/, "")).filter(Boolean);
+    } else if (variables) {
+      current.variables = readVariables(variables[1]);
+    } else if (visibility) {
+      current.visibility = visibility[1].toLowerCase();
+      if (visibility[2]) current.workspace_id = visibility[2];
+    } else if (openFence && current.content === undefined) {
+      fence = openFence[1];
+      body = [];
+    } else if (current.content === undefined) {
+      body.push(line);
+    }
+  }
+
+  if (fence !== null) throw new Error("Unterminated code block");
+  finish();
+  return rows;
+}
+
+// --- Entry points ---
+
+export function serializePrompts(prompts: ExportedPrompt[], format: PromptFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(prompts, null, 2);
+    case "csv":
+      return toCsv(prompts);
+    case "md":
+      return toMarkdown(prompts);
+  }
+}
+
+// Parses a library file into raw rows. Rows are not validated here; that's
+// parsePromptInput's job. Throws if the file itself is malformed.
+export function parsePrompts(text: string, format: PromptFormat): unknown[] {
+  switch (format) {
+    case "json": {
+      const data = JSON.parse(text);
+      if (!Array.isArray(data)) throw new Error("Expected a JSON array of prompts");
+      return data;
+    }
+    case "csv":
+      return fromCsv(text);
+    case "md":
+      return fromMarkdown(text);
+  }
+}
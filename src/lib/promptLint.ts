@@ -0,0 +1,161 @@
+import { API_KEY_PREFIX } from "@/lib/apiKeys";
+import { extractVariables, type TemplateVariables } from "@/lib/templates";
+
+// Checks on a prompt being written, shown live in the editor. Everything
+// here runs locally; only secrets also block saving (see schemas.ts).
+// POST /api/prompts runs them again for its `warnings`, without `existing`:
+// duplicates are only looked for in the editor, among the prompts in the
+// feed, so the API's warnings are the editor's minus "duplicate" ones.
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintIssue = {
+  code: "secret" | "malformed_placeholder" | "unused_variable" | "similar_variables" | "no_default" | "long" | "duplicate";
+  severity: LintSeverity;
+  message: string;
+};
+
+// Past this many (estimated) tokens a prompt crowds smaller context windows
+export const LONG_PROMPT_TOKENS = 4000;
+
+// --- TOKENS ---
+
+// Average letters per token of English words for common tokenizers. Real
+// counts need each model's vocabulary; these land within ~10% on prose.
+export const TOKENIZERS = [
+  { id: "o200k", label: "GPT-4o, o-series", lettersPerToken: 4.2 },
+  { id: "cl100k", label: "GPT-4, GPT-3.5", lettersPerToken: 3.9 },
+  { id: "claude", label: "Claude", lettersPerToken: 3.5 },
+  { id: "llama3", label: "Llama 3", lettersPerToken: 4 },
+] as const;
+
+export type Tokenizer = (typeof TOKENIZERS)[number];
+
+// Estimated token count of `text`: at least one token per word, longer
+// words by the tokenizer's average length, digits in threes, and one token
+// for each other symbol or line break
+export function estimateTokens(text: string, tokenizer: Tokenizer = TOKENIZERS[0]): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/\p{L}+|\d+|\n|[^\s\p{L}\d]/gu)) {
+    if (/^\p{L}/u.test(piece)) tokens += Math.max(1, piece.length / tokenizer.lettersPerToken);
+    else if (/^\d/.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else tokens += 1;
+  }
+  return Math.ceil(tokens);
+}
+
+// --- SECRETS ---
+
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: "Anthropic API key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: "OpenAI API key", pattern: /\bsk-(?!ant-)(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/ },
+  { name: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/ },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}/ },
+  { name: "Slack token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: "Stripe secret key", pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}/ },
+  { name: "API key for this app", pattern: new RegExp(`\\b${API_KEY_PREFIX}[0-9a-f]{64}\\b`) },
+  { name: "private key", pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/ },
+  { name: "JSON Web Token", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+];
+
+export type SecretMatch = { name: string; preview: string };
+
+// Credentials that look pasted in by accident. The preview keeps only the
+// start of the match, so showing it doesn't repeat the secret.
+export function findSecrets(text: string): SecretMatch[] {
+  const found: SecretMatch[] = [];
+  for (const { name, pattern } of SECRET_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) found.push({ name, preview: `${match[0].slice(0, 8)}…` });
+  }
+  return found;
+}
+
+// Defaults and descriptions of template variables, to check for secrets
+export function variableText(variables: TemplateVariables): string {
+  return Object.values(variables).flatMap((v) => [v.default ?? "", v.description ?? ""]).join("\n");
+}
+
+export function secretMessage(secret: SecretMatch): string {
+  const article = /^[aeiou]/i.test(secret.name) ? "an" : "a";
+  return `Looks like ${article} ${secret.name} (${secret.preview}). Remove it before saving.`;
+}
+
+// --- LINT ---
+
+// Whitespace and case don't make two prompts different
+function normalize(text: string) {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export type LintInput = {
+  title: string;
+  content: string;
+  variables: TemplateVariables;
+};
+
+export type LintOptions = {
+  existing?: { id: string; title: string; content: string }[]; // to spot duplicates; none without it
+  tokenizer?: Tokenizer; // for the length check
+};
+
+export function lintPrompt(input: LintInput, { existing = [], tokenizer }: LintOptions = {}): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const { title, content, variables } = input;
+
+  for (const secret of findSecrets([title, content, variableText(variables)].join("\n"))) {
+    issues.push({ code: "secret", severity: "error", message: secretMessage(secret) });
+  }
+
+  // {{ like this }} but not a valid name, or never closed
+  for (const match of content.matchAll(/\{\{([^{}]*)\}\}/g)) {
+    if (!/^\s*[A-Za-z_][\w.-]*\s*$/.test(match[1])) {
+      issues.push({ code: "malformed_placeholder", severity: "warning", message: `“${match[0]}” isn't a valid placeholder, so it won't be filled in` });
+    }
+  }
+  const opened = content.split("{{").length - 1;
+  const closed = content.split("}}").length - 1;
+  if (opened !== closed) {
+    issues.push({ code: "malformed_placeholder", severity: "warning", message: `${opened} “{{” but ${closed} “}}”: a placeholder isn't closed` });
+  }
+
+  const names = extractVariables(content);
+  for (const name of Object.keys(variables)) {
+    if (!names.includes(name)) {
+      issues.push({ code: "unused_variable", severity: "warning", message: `{{${name}}} has settings but isn't in the content` });
+    }
+  }
+  const byLowerCase = new Map<string, string>();
+  for (const name of names) {
+    const other = byLowerCase.get(name.toLowerCase());
+    if (other) {
+      issues.push({ code: "similar_variables", severity: "warning", message: `{{${other}}} and {{${name}}} are different variables` });
+    }
+    byLowerCase.set(name.toLowerCase(), name);
+  }
+  const unfilled = names.filter((name) => !variables[name]?.default);
+  if (unfilled.length > 0) {
+    issues.push({
+      code: "no_default",
+      severity: "info",
+      message: `${unfilled.map((n) => `{{${n}}}`).join(", ")} ${unfilled.length === 1 ? "has" : "have"} no default and will be asked for when copying`,
+    });
+  }
+
+  const tokens = estimateTokens(content, tokenizer);
+  if (tokens > LONG_PROMPT_TOKENS) {
+    issues.push({ code: "long", severity: "warning", message: `About ${tokens.toLocaleString()} tokens: long enough to crowd smaller context windows` });
+  }
+
+  const key = normalize(content);
+  const duplicate = key && existing.find((p) => normalize(p.content) === key);
+  if (duplicate) {
+    issues.push({ code: "duplicate", severity: "warning", message: `Same content as “${duplicate.title}”` });
+  } else if (title.trim()) {
+    const sameTitle = existing.find((p) => normalize(p.title) === normalize(title));
+    if (sameTitle) issues.push({ code: "duplicate", severity: "info", message: `Another prompt is also called “${sameTitle.title}”` });
+  }
+
+  return issues;
+}
@@ -0,0 +1,199 @@
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { NotificationType, Prompt, PromptInput, PromptUpdate } from "@/lib/schemas";
+
+// Data access for the prompt routes and the auth checks they share. The
+// default talks to Supabase; tests swap in createMemoryPromptRepository()
+// (see memoryPromptRepository.ts) with setPromptRepository().
+//
+// Results come back as { data, error } like supabase-js's, so callers handle
+// a failure the same way whichever repository is in use.
+
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: { message: string } };
+
+export const PROMPT_SORTS = ["newest", "likes", "comments", "trending", "relevance"] as const;
+export type PromptSort = (typeof PROMPT_SORTS)[number];
+
+export type PromptSearch = {
+  query: string | null; // full-text search
+  tags: string[];
+  tagsMatch: "all" | "any";
+  authorId: string | null;
+  workspaceId: string | null;
+  sort: PromptSort;
+  after: [number, string] | null; // the previous page's last (sort_key, id)
+  asOf: string | null; // when "trending" is scored at; now when null
+  limit: number;
+  viewerId: string | null; // who is searching, for visibility
+};
+
+// A prompt as stored, without the per-viewer fields of feed responses
+export type PromptRow = Omit<Prompt, "liked_by_user" | "parent" | "usage">;
+export type PromptParent = NonNullable<Prompt["parent"]>;
+export type NewPrompt = PromptInput & Pick<Prompt, "author_id" | "author_name">;
+export type PromptUsageRow = { prompt_id: string; day: string; copies: number; views: number };
+export type NewNotificationRow = {
+  user_id: string;
+  type: NotificationType;
+  prompt_id: string;
+  comment_id?: string | null;
+  actor_id: string;
+  actor_name: string;
+};
+
+export type PromptRepository = {
+  // IDs of the prompts the viewer can see that match, in sort order
+  searchPromptIds(search: PromptSearch): Promise<RepositoryResult<{ id: string; sort_key: number }[]>>;
+  // Prompts by ID, each with the prompt it was forked from
+  getPrompts(ids: string[]): Promise<RepositoryResult<(PromptRow & { parent: PromptParent | null })[]>>;
+  // A prompt that isn't deleted or hidden, or null
+  findPrompt(id: string): Promise<RepositoryResult<PromptRow | null>>;
+  // Adds a prompt (bumping its original's fork count)
+  insertPrompt(prompt: NewPrompt): Promise<RepositoryResult<PromptRow>>;
+  // Changes a prompt; changing its title, content or tags bumps its version
+  updatePrompt(id: string, changes: PromptUpdate): Promise<RepositoryResult<PromptRow>>;
+  // Marks a prompt deleted, unless it already is or is hidden, or its version
+  // isn't `expectedVersion` (when given). Resolves with whether it was.
+  deletePrompt(id: string, deletedAt: string, expectedVersion: number | null): Promise<RepositoryResult<boolean>>;
+  // Which of `promptIds` the user has liked
+  likedPromptIds(userId: string, promptIds: string[]): Promise<RepositoryResult<string[]>>;
+  // Daily copies and views of the prompts from `since` (YYYY-MM-DD) on
+  promptUsage(promptIds: string[], since: string): Promise<RepositoryResult<PromptUsageRow[]>>;
+  // The workspaces the user belongs to
+  workspaceIds(userId: string): Promise<RepositoryResult<string[]>>;
+  // Which of `userIds` belong to the workspace
+  workspaceMemberIds(workspaceId: string, userIds: string[]): Promise<string[]>;
+  isBanned(userId: string): Promise<boolean>;
+  addNotifications(rows: NewNotificationRow[]): Promise<void>;
+};
+
+export function createSupabasePromptRepository(): PromptRepository {
+  return {
+    async searchPromptIds(search) {
+      return supabaseServer.rpc("search_prompt_ids", {
+        search_query: search.query,
+        tags_filter: search.tags.length > 0 ? search.tags : null,
+        tags_match: search.tagsMatch,
+        author_filter: search.authorId,
+        sort_by: search.sort,
+        after_key: search.after?.[0] ?? null,
+        after_id: search.after?.[1] ?? null,
+        page_size: search.limit,
+        viewer: search.viewerId,
+        workspace_filter: search.workspaceId,
+        as_of: search.asOf,
+      });
+    },
+
+    async getPrompts(ids) {
+      return supabaseServer
+        .from("prompts")
+        .select("*, parent:forked_from(id, title, author_name)")
+        .in("id", ids);
+    },
+
+    async findPrompt(id) {
+      return supabaseServer
+        .from("prompts")
+        .select("*")
+        .eq("id", id)
+        .is("deleted_at", null)
+        .is("hidden_at", null)
+        .maybeSingle();
+    },
+
+    async insertPrompt(prompt) {
+      return supabaseServer
+        .from("prompts")
+        .insert([prompt])
+        .select()
+        .single<PromptRow>();
+    },
+
+    async updatePrompt(id, changes) {
+      return supabaseServer
+        .from("prompts")
+        .update(changes)
+        .eq("id", id)
+        .select()
+        .single<PromptRow>();
+    },
+
+    async deletePrompt(id, deletedAt, expectedVersion) {
+      let query = supabaseServer
+        .from("prompts")
+        .update({ deleted_at: deletedAt })
+        .eq("id", id)
+        .is("deleted_at", null)
+        .is("hidden_at", null);
+
+      if (expectedVersion !== null) query = query.eq("version", expectedVersion);
+
+      const { data, error } = await query.select("id");
+      if (error) return { data: null, error };
+      return { data: data.length > 0, error: null };
+    },
+
+    async likedPromptIds(userId, promptIds) {
+      const { data, error } = await supabaseServer
+        .from("prompt_likes")
+        .select("prompt_id")
+        .eq("user_id", userId)
+        .in("prompt_id", promptIds);
+
+      if (error) return { data: null, error };
+      return { data: data.map((l) => l.prompt_id), error: null };
+    },
+
+    async promptUsage(promptIds, since) {
+      return supabaseServer
+        .from("prompt_usage_daily")
+        .select("prompt_id, day, copies, views")
+        .in("prompt_id", promptIds)
+        .gte("day", since);
+    },
+
+    async workspaceIds(userId) {
+      const { data, error } = await supabaseServer
+        .from("workspace_members")
+        .select("workspace_id")
+        .eq("user_id", userId);
+
+      if (error) return { data: null, error };
+      return { data: data.map((m) => m.workspace_id), error: null };
+    },
+
+    async workspaceMemberIds(workspaceId, userIds) {
+      const { data } = await supabaseServer
+        .from("workspace_members")
+        .select("user_id")
+        .eq("workspace_id", workspaceId)
+        .in("user_id", userIds);
+      return (data ?? []).map((m) => m.user_id);
+    },
+
+    async isBanned(userId) {
+      const { data } = await supabaseServer
+        .from("profiles")
+        .select("banned_at")
+        .eq("id", userId)
+        .maybeSingle();
+      return !!data?.banned_at;
+    },
+
+    async addNotifications(rows) {
+      await supabaseServer.from("notifications").insert(rows);
+    },
+  };
+}
+
+let repository: PromptRepository = createSupabasePromptRepository();
+
+export function setPromptRepository(next: PromptRepository | null) {
+  repository = next ?? createSupabasePromptRepository();
+}
+
+export function getPromptRepository(): PromptRepository {
+  return repository;
+}
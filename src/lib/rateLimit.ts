@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+
+// Per-route limits on write requests, counted separately for each user and
+// each IP address over a fixed window. An IP address gets IP_LIMIT_FACTOR
+// times the limit, since people behind one office or mobile network share it.
+export const RATE_LIMITS = {
+  "prompts:create": { limit: 10, windowMs: 60_000 },
+  "prompts:update": { limit: 30, windowMs: 60_000 },
+  "prompts:import": { limit: 5, windowMs: 10 * 60_000 },
+  "prompts:run": { limit: 20, windowMs: 60_000 },
+  "comments:create": { limit: 20, windowMs: 60_000 },
+  "comments:update": { limit: 30, windowMs: 60_000 },
+  "likes": { limit: 60, windowMs: 60_000 },
+  "events": { limit: 120, windowMs: 60_000 },
+  "reports:create": { limit: 10, windowMs: 10 * 60_000 },
+  "collections:write": { limit: 60, windowMs: 60_000 },
+  "workspaces:write": { limit: 20, windowMs: 60_000 },
+} satisfies Record<string, RateLimit>;
+
+const IP_LIMIT_FACTOR = 5;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+export type RateLimit = { limit: number; windowMs: number };
+
+// Where hit counts are kept. The default lives in this process's memory,
+// which is enough for local development and tests; a deployment running
+// several instances should swap in a shared store (e.g. Redis) with
+// setRateLimitStore().
+export type RateLimitStore = {
+  // Counts a hit against `key` and returns the total for the current
+  // window, and when that window ends (ms since epoch)
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+};
+
+// Expired windows are swept once the map grows past this many keys
+const MEMORY_SWEEP_SIZE = 10_000;
+
+export function createMemoryRateLimitStore(now: () => number = () => Date.now()): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async hit(key, windowMs) {
+      const time = now();
+
+      if (windows.size > MEMORY_SWEEP_SIZE) {
+        for (const [k, w] of windows) if (w.resetAt <= time) windows.delete(k);
+      }
+
+      const current = windows.get(key);
+      if (!current || current.resetAt <= time) {
+        const fresh = { count: 1, resetAt: time + windowMs };
+        windows.set(key, fresh);
+        return fresh;
+      }
+
+      current.count += 1;
+      return current;
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore | null) {
+  store = next ?? createMemoryRateLimitStore();
+}
+
+// The first address in X-Forwarded-For is the client's, as set by the
+// hosting proxy. Null when neither header is there.
+function clientIp(request: Request): string | null {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || request.headers.get("x-real-ip") || null;
+}
+
+// Counts this request against the named limit, for the caller and for their
+// IP (when it's known, otherwise every such request would share one count).
+// Returns the 429 to send back once either is over the limit, otherwise null.
+export async function checkRateLimit(
+  request: Request,
+  user: User | null,
+  name: RateLimitName
+): Promise<NextResponse | null> {
+  const { limit, windowMs }: RateLimit = RATE_LIMITS[name];
+  const counted: { key: string; limit: number }[] = [];
+  const ip = clientIp(request);
+  if (ip) counted.push({ key: `${name}:ip:${ip}`, limit: limit * IP_LIMIT_FACTOR });
+  if (user) counted.push({ key: `${name}:user:${user.id}`, limit });
+
+  const hits = await Promise.all(counted.map(({ key }) => store.hit(key, windowMs)));
+  const over = hits.filter((h, i) => h.count > counted[i].limit);
+  if (over.length === 0) return null;
+
+  const retryAfter = Math.max(1, Math.ceil((Math.max(...over.map((h) => h.resetAt)) - Date.now()) / 1000));
+
+  return NextResponse.json(
+    { error: `You're doing that too often. Try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.` },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
@@ -0,0 +1,641 @@
+import { parseTags } from "@/lib/tags";
+import { parseVariables, type TemplateVariables } from "@/lib/templates";
+import {
+  MODERATION_ACTIONS, REPORT_REASONS, REPORT_TARGETS,
+  type ModerationAction, type ReportReason, type ReportTarget,
+} from "@/lib/moderation";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/apiKeys";
+import { PROMPT_VISIBILITIES, type PromptVisibility } from "@/lib/visibility";
+import { USAGE_EVENTS, type UsageEvent } from "@/lib/usage";
+import { findSecrets, secretMessage, variableText, type LintIssue } from "@/lib/promptLint";
+
+// Payload types and validation shared by the API routes and the client.
+// Every parser returns either the cleaned-up value or a list of messages per
+// field, which routes send back as a 400 and forms show under each input.
+
+// --- TYPES ---
+
+export type Prompt = {
+  id: string;
+  author_id: string;
+  author_name: string;
+  title: string;
+  content: string;
+  tags: string[];
+  variables: TemplateVariables;
+  version: number;
+  created_at: string;
+  updated_at: string | null;
+  likes: number;
+  liked_by_user: boolean;
+  comment_count: number;
+  copy_count: number;
+  forked_from: string | null;
+  fork_count: number;
+  visibility: PromptVisibility;
+  workspace_id: string | null; // set when visibility is "workspace"
+  deleted_at?: string | null;
+  hidden_at?: string | null;
+  // The prompt this one was forked from, included in feed responses
+  parent?: Pick<Prompt, "id" | "title" | "author_name"> | null;
+  // Copies and views over the last USAGE_DAYS days, included in feed responses
+  usage?: PromptUsageDay[];
+};
+
+// One day of a prompt's usage, oldest first
+export type PromptUsageDay = {
+  day: string; // YYYY-MM-DD
+  copies: number;
+  views: number;
+};
+
+// One entry of GET /api/prompts/most-used: a prompt the caller copies often
+export type MostUsedPrompt = Pick<Prompt, "id" | "title" | "content" | "variables"> & {
+  copies: number;
+  last_used_at: string;
+};
+
+// A prompt just created by POST /api/prompts, with what the prompt checks
+// flagged in it (see promptLint.ts). Duplicates aren't among the warnings:
+// only the editor looks for those.
+export type CreatedPrompt = Prompt & { warnings: LintIssue[] };
+
+// One page of GET /api/prompts
+export type PromptPage = {
+  items: Prompt[];
+  next_cursor: string | null;
+};
+
+// An earlier version of a prompt, from GET /api/prompts/[id]/revisions
+export type PromptRevision = {
+  id: string;
+  prompt_id: string;
+  version: number;
+  title: string;
+  content: string;
+  tags: string[];
+  created_at: string;
+};
+
+// One entry of GET /api/prompts/[id]/forks
+export type PromptFork = Pick<Prompt, "id" | "forked_from" | "title" | "author_id" | "author_name" | "fork_count" | "created_at"> & {
+  depth: number;
+};
+
+export type Comment = {
+  id: string;
+  prompt_id: string;
+  parent_id: string | null; // the top-level comment this replies to
+  user_id: string;
+  user_name: string;
+  text: string; // empty for a deleted comment kept to hold its replies
+  created_at: string;
+  updated_at: string | null; // set once edited
+  deleted_at?: string | null;
+  hidden_at?: string | null;
+};
+
+export type NotificationType = "comment" | "reply" | "mention" | "like" | "fork";
+
+// One entry of the notifications inbox. `comment_id` is set for comments,
+// replies and mentions; for a fork, `prompt_id` is the new fork.
+export type Notification = {
+  id: string;
+  type: NotificationType;
+  actor_id: string;
+  actor_name: string;
+  prompt_id: string;
+  prompt_title: string;
+  comment_id: string | null;
+  created_at: string;
+  read_at: string | null;
+};
+
+// Response of GET /api/notifications
+export type NotificationList = {
+  items: Notification[];
+  unread_count: number;
+};
+
+// One entry of GET /api/users, for @mention suggestions
+export type UserSuggestion = Pick<Profile, "id" | "handle" | "display_name" | "avatar_url">;
+
+// Response of POST/DELETE /api/prompts/[id]/like
+export type LikeState = {
+  likes: number;
+  liked_by_user: boolean;
+};
+
+// A saved playground run, shown as an example on the prompt
+export type PromptOutput = {
+  id: string;
+  prompt_id: string;
+  user_id: string;
+  provider: string;
+  model: string;
+  input_values: Record<string, string>;
+  output: string;
+  created_at: string;
+};
+
+export type Profile = {
+  id: string;
+  handle: string;
+  display_name: string;
+  avatar_url: string | null;
+  bio: string;
+  role: "member" | "admin";
+  created_at: string;
+};
+
+export type Report = {
+  id: string;
+  target_type: ReportTarget;
+  target_id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  details: string;
+  status: "open" | "actioned" | "dismissed";
+  created_at: string;
+  resolved_at: string | null;
+};
+
+// What a report points at, as shown in the admin queue
+export type ReportedContent = {
+  type: ReportTarget;
+  id: string;
+  prompt_id: string;
+  title: string | null; // prompts only
+  text: string;
+  author_id: string | null;
+  author_name: string;
+  author_banned: boolean;
+  deleted_at: string | null;
+  hidden_at: string | null;
+};
+
+// One entry of GET /api/admin/reports
+export type ReportWithTarget = Report & {
+  target: ReportedContent | null; // null once the content is gone for good
+  target_report_count: number;
+};
+
+// A personal API key as listed on the profile. The key itself is only
+// returned once, by POST /api/keys.
+export type ApiKey = {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: ApiKeyScope;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+export type CreatedApiKey = ApiKey & { key: string };
+
+export type Workspace = {
+  id: string;
+  owner_id: string;
+  name: string;
+  slug: string;
+  created_at: string;
+};
+
+export type WorkspaceRole = "owner" | "member";
+
+export type WorkspaceMember = {
+  user_id: string;
+  role: WorkspaceRole;
+  joined_at: string;
+  handle: string;
+  display_name: string;
+};
+
+// Someone invited to a workspace who hasn't answered yet
+export type WorkspaceInvite = {
+  user_id: string;
+  handle: string;
+  display_name: string;
+  created_at: string;
+};
+
+// Response of GET /api/workspaces: the caller's workspaces and the ones
+// they have been invited to
+export type WorkspaceList = {
+  workspaces: (Workspace & { role: WorkspaceRole })[];
+  invites: { workspace: Workspace; invited_by_name: string | null; created_at: string }[];
+};
+
+// Totals across all of an author's prompts
+export type ProfileStats = {
+  prompt_count: number;
+  likes_received: number;
+  comments_received: number;
+  copies_received: number;
+};
+
+export type PromptInput = Pick<Prompt, "title" | "content" | "tags" | "variables">
+  & Partial<Pick<Prompt, "visibility" | "workspace_id">>
+  & { forked_from?: string | null };
+export type PromptUpdate = Partial<Omit<PromptInput, "forked_from">>;
+export type CommentInput = Pick<Comment, "text"> & { parent_id?: string | null };
+export type CollectionInput = { name?: string; description?: string; is_public?: boolean };
+export type ReportInput = Pick<Report, "target_type" | "target_id" | "reason" | "details">;
+export type ProfileInput = Partial<Pick<Profile, "handle" | "bio">>;
+export type ApiKeyInput = Pick<ApiKey, "name" | "scope">;
+export type WorkspaceInput = Pick<Workspace, "name">;
+export type UsageEventInput = { type: UsageEvent };
+
+export type FieldErrors = Record<string, string[]>;
+export type ParseResult<T> = { value: T } | { errors: FieldErrors };
+
+// --- LIMITS ---
+
+export const TITLE_MAX_LENGTH = 200;
+export const CONTENT_MAX_LENGTH = 20000;
+export const COMMENT_MAX_LENGTH = 2000;
+export const COLLECTION_NAME_MAX_LENGTH = 80;
+export const COLLECTION_DESCRIPTION_MAX_LENGTH = 500;
+export const HANDLE_PATTERN = /^[a-z0-9_]{3,30}$/;
+export const BIO_MAX_LENGTH = 300;
+export const REPORT_DETAILS_MAX_LENGTH = 1000;
+export const API_KEY_NAME_MAX_LENGTH = 60;
+export const WORKSPACE_NAME_MAX_LENGTH = 60;
+
+// --- HELPERS ---
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Database IDs are UUIDs; anything else would fail the query with a 500
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+export function isObject(body: unknown): body is Record<string, unknown> {
+  return typeof body === "object" && body !== null && !Array.isArray(body);
+}
+
+function addError(errors: FieldErrors, field: string, message: string) {
+  (errors[field] ??= []).push(message);
+}
+
+function checkText(
+  errors: FieldErrors,
+  field: string,
+  label: string,
+  value: unknown,
+  maxLength: number
+): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    addError(errors, field, `${label} is required`);
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    addError(errors, field, `${label} must be text`);
+    return undefined;
+  }
+  if (!value.trim()) {
+    addError(errors, field, `${label} can't be blank`);
+    return undefined;
+  }
+  if (value.length > maxLength) {
+    addError(errors, field, `${label} must be at most ${maxLength} characters`);
+    return undefined;
+  }
+  return value;
+}
+
+// Credentials pasted in by accident are refused outright, field by field
+function checkSecrets(errors: FieldErrors, fields: Record<string, string | undefined>) {
+  for (const [field, text] of Object.entries(fields)) {
+    for (const secret of findSecrets(text ?? "")) addError(errors, field, secretMessage(secret));
+  }
+}
+
+// A workspace ID goes with "workspace" visibility and nothing else
+function checkVisibility(
+  errors: FieldErrors,
+  visibility: unknown,
+  workspaceId: unknown
+): Pick<Prompt, "visibility" | "workspace_id"> | undefined {
+  if (!PROMPT_VISIBILITIES.includes(visibility as PromptVisibility)) {
+    addError(errors, "visibility", `Visibility must be one of: ${PROMPT_VISIBILITIES.join(", ")}`);
+    return undefined;
+  }
+  if (visibility === "workspace") {
+    if (typeof workspaceId !== "string" || !workspaceId) {
+      addError(errors, "workspace_id", "Pick the workspace to share it with");
+      return undefined;
+    }
+    return { visibility, workspace_id: workspaceId };
+  }
+  return { visibility: visibility as PromptVisibility, workspace_id: null };
+}
+
+function result<T>(errors: FieldErrors, value: T): ParseResult<T> {
+  return Object.keys(errors).length > 0 ? { errors } : { value };
+}
+
+// --- PARSERS ---
+
+// POST /api/prompts, and each row of a bulk import
+export function parsePromptInput(body: unknown): ParseResult<PromptInput> {
+  if (!isObject(body)) return { errors: { _: ["Expected a prompt object"] } };
+
+  const errors: FieldErrors = {};
+  const title = checkText(errors, "title", "Title", body.title, TITLE_MAX_LENGTH);
+  const content = checkText(errors, "content", "Content", body.content, CONTENT_MAX_LENGTH);
+
+  // Older clients still send a single category
+  const tags = parseTags(body.tags ?? (body.category ? [body.category] : undefined));
+  if ("error" in tags) addError(errors, "tags", tags.error);
+
+  const variables = parseVariables(body.variables, content);
+  if ("error" in variables) addError(errors, "variables", variables.error);
+
+  const forkedFrom = body.forked_from ?? null;
+  if (forkedFrom !== null && !isUuid(forkedFrom)) {
+    addError(errors, "forked_from", "forked_from must be a prompt ID");
+  }
+
+  const visibility = checkVisibility(errors, body.visibility ?? "public", body.workspace_id);
+
+  checkSecrets(errors, {
+    title,
+    content,
+    tags: "tags" in tags ? tags.tags.join(" ") : undefined,
+    variables: "variables" in variables ? variableText(variables.variables) : undefined,
+  });
+
+  return result(errors, {
+    title: title!,
+    content: content!,
+    tags: "tags" in tags ? tags.tags : [],
+    variables: "variables" in variables ? variables.variables : {},
+    forked_from: forkedFrom as string | null,
+    ...visibility,
+  });
+}
+
+// PATCH /api/prompts/[id]. Variables are only checked for shape here; the
+// route drops the ones the (possibly unchanged) content doesn't use.
+export function parsePromptUpdate(body: unknown): ParseResult<PromptUpdate> {
+  if (!isObject(body)) return { errors: { _: ["Expected a prompt object"] } };
+
+  const errors: FieldErrors = {};
+  const value: PromptUpdate = {};
+
+  if (body.title !== undefined) value.title = checkText(errors, "title", "Title", body.title, TITLE_MAX_LENGTH);
+  if (body.content !== undefined) value.content = checkText(errors, "content", "Content", body.content, CONTENT_MAX_LENGTH);
+
+  if (body.tags !== undefined) {
+    const tags = parseTags(body.tags);
+    if ("error" in tags) addError(errors, "tags", tags.error);
+    else value.tags = tags.tags;
+  }
+
+  if (body.variables !== undefined) {
+    const variables = parseVariables(body.variables);
+    if ("error" in variables) addError(errors, "variables", variables.error);
+    else value.variables = variables.variables;
+  }
+
+  checkSecrets(errors, {
+    title: value.title,
+    content: value.content,
+    tags: value.tags?.join(" "),
+    variables: value.variables && variableText(value.variables),
+  });
+
+  if (body.visibility !== undefined) {
+    Object.assign(value, checkVisibility(errors, body.visibility, body.workspace_id));
+  } else if (body.workspace_id !== undefined) {
+    addError(errors, "visibility", "Set visibility along with workspace_id");
+  }
+
+  if (Object.keys(body).every((key) => !["title", "content", "tags", "variables", "visibility"].includes(key))) {
+    addError(errors, "_", "Nothing to update");
+  }
+
+  return result(errors, value);
+}
+
+// POST /api/prompts/[id]/comments
+export function parseCommentInput(body: unknown): ParseResult<CommentInput> {
+  if (!isObject(body)) return { errors: { _: ["Expected a comment object"] } };
+
+  const errors: FieldErrors = {};
+  const text = checkText(errors, "text", "Comment", body.text, COMMENT_MAX_LENGTH);
+
+  const parentId = body.parent_id ?? null;
+  if (parentId !== null && !isUuid(parentId)) {
+    addError(errors, "parent_id", "parent_id must be a comment ID");
+  }
+
+  return result(errors, { text: text?.trim() ?? "", parent_id: parentId as string | null });
+}
+
+// POST /api/prompts/[id]/render
+export function parseRenderInput(body: unknown): ParseResult<{ values: Record<string, string> }> {
+  if (!isObject(body)) return { errors: { _: ["Expected an object"] } };
+
+  const values = body.values ?? {};
+  if (!isObject(values) || Object.values(values).some((v) => typeof v !== "string")) {
+    return { errors: { values: ["values must map variable names to text"] } };
+  }
+
+  return { value: { values: values as Record<string, string> } };
+}
+
+// POST /api/prompts/[id]/run
+export function parseRunInput(body: unknown): ParseResult<{ values: Record<string, string>; save: boolean }> {
+  const parsed = parseRenderInput(body);
+  if ("errors" in parsed) return parsed;
+
+  const save = (body as Record<string, unknown>).save ?? false;
+  if (typeof save !== "boolean") return { errors: { save: ["save must be true or false"] } };
+
+  return { value: { ...parsed.value, save } };
+}
+
+// POST /api/prompts/[id]/restore
+export function parseRestoreInput(body: unknown): ParseResult<{ version: number }> {
+  if (!isObject(body) || !Number.isInteger(body.version)) {
+    return { errors: { version: ["Version required"] } };
+  }
+
+  return { value: { version: body.version as number } };
+}
+
+// POST /api/collections (partial = false) and PATCH /api/collections/[slug]
+export function parseCollectionInput(body: unknown, partial: boolean): ParseResult<CollectionInput> {
+  if (!isObject(body)) return { errors: { _: ["Expected a collection object"] } };
+
+  const errors: FieldErrors = {};
+  const value: CollectionInput = {};
+
+  if (body.name !== undefined || !partial) {
+    value.name = checkText(errors, "name", "Name", body.name, COLLECTION_NAME_MAX_LENGTH)?.trim();
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== "string") addError(errors, "description", "Description must be text");
+    else if (body.description.length > COLLECTION_DESCRIPTION_MAX_LENGTH) {
+      addError(errors, "description", `Description must be at most ${COLLECTION_DESCRIPTION_MAX_LENGTH} characters`);
+    } else value.description = body.description.trim();
+  }
+
+  if (body.is_public !== undefined) {
+    if (typeof body.is_public !== "boolean") addError(errors, "is_public", "is_public must be true or false");
+    else value.is_public = body.is_public;
+  }
+
+  return result(errors, value);
+}
+
+// POST /api/collections/[slug]/items
+export function parseCollectionItemInput(body: unknown): ParseResult<{ prompt_id: string }> {
+  if (!isObject(body) || typeof body.prompt_id !== "string" || !body.prompt_id) {
+    return { errors: { prompt_id: ["prompt_id required"] } };
+  }
+  if (!isUuid(body.prompt_id)) {
+    return { errors: { prompt_id: ["prompt_id must be a prompt ID"] } };
+  }
+
+  return { value: { prompt_id: body.prompt_id } };
+}
+
+// PUT /api/collections/[slug]/items
+export function parseCollectionOrderInput(body: unknown): ParseResult<{ prompt_ids: string[] }> {
+  if (!isObject(body) || !Array.isArray(body.prompt_ids) || !body.prompt_ids.every(isUuid)) {
+    return { errors: { prompt_ids: ["prompt_ids must be a list of prompt IDs"] } };
+  }
+
+  return { value: { prompt_ids: body.prompt_ids } };
+}
+
+// PATCH /api/users/[id]. Handles are stored lowercase.
+export function parseProfileInput(body: unknown): ParseResult<ProfileInput> {
+  if (!isObject(body)) return { errors: { _: ["Expected a profile object"] } };
+
+  const errors: FieldErrors = {};
+  const value: ProfileInput = {};
+
+  if (body.handle !== undefined) {
+    const handle = typeof body.handle === "string" ? body.handle.trim().toLowerCase() : "";
+    if (!HANDLE_PATTERN.test(handle)) {
+      addError(errors, "handle", "Handle must be 3-30 letters, numbers or underscores");
+    } else value.handle = handle;
+  }
+
+  if (body.bio !== undefined) {
+    if (typeof body.bio !== "string") addError(errors, "bio", "Bio must be text");
+    else if (body.bio.length > BIO_MAX_LENGTH) addError(errors, "bio", `Bio must be at most ${BIO_MAX_LENGTH} characters`);
+    else value.bio = body.bio.trim();
+  }
+
+  if (value.handle === undefined && value.bio === undefined && Object.keys(errors).length === 0) {
+    addError(errors, "_", "Nothing to update");
+  }
+
+  return result(errors, value);
+}
+
+// POST /api/reports
+export function parseReportInput(body: unknown): ParseResult<ReportInput> {
+  if (!isObject(body)) return { errors: { _: ["Expected a report object"] } };
+
+  const errors: FieldErrors = {};
+
+  if (!REPORT_TARGETS.includes(body.target_type as ReportTarget)) {
+    addError(errors, "target_type", `target_type must be one of: ${REPORT_TARGETS.join(", ")}`);
+  }
+  if (typeof body.target_id !== "string" || !body.target_id) {
+    addError(errors, "target_id", "target_id required");
+  } else if (!isUuid(body.target_id)) {
+    addError(errors, "target_id", "target_id must be an ID");
+  }
+  if (!REPORT_REASONS.includes(body.reason as ReportReason)) {
+    addError(errors, "reason", `Reason must be one of: ${REPORT_REASONS.join(", ")}`);
+  }
+
+  const details = body.details ?? "";
+  if (typeof details !== "string") addError(errors, "details", "Details must be text");
+  else if (details.length > REPORT_DETAILS_MAX_LENGTH) {
+    addError(errors, "details", `Details must be at most ${REPORT_DETAILS_MAX_LENGTH} characters`);
+  }
+
+  return result(errors, {
+    target_type: body.target_type as ReportTarget,
+    target_id: body.target_id as string,
+    reason: body.reason as ReportReason,
+    details: typeof details === "string" ? details.trim() : "",
+  });
+}
+
+// POST /api/admin/reports/[id]
+export function parseModerationInput(body: unknown): ParseResult<{ action: ModerationAction }> {
+  if (!isObject(body) || !MODERATION_ACTIONS.includes(body.action as ModerationAction)) {
+    return { errors: { action: [`action must be one of: ${MODERATION_ACTIONS.join(", ")}`] } };
+  }
+
+  return { value: { action: body.action as ModerationAction } };
+}
+
+// POST /api/keys
+export function parseApiKeyInput(body: unknown): ParseResult<ApiKeyInput> {
+  if (!isObject(body)) return { errors: { _: ["Expected an API key object"] } };
+
+  const errors: FieldErrors = {};
+  const name = checkText(errors, "name", "Name", body.name, API_KEY_NAME_MAX_LENGTH);
+
+  if (!API_KEY_SCOPES.includes(body.scope as ApiKeyScope)) {
+    addError(errors, "scope", `Scope must be one of: ${API_KEY_SCOPES.join(", ")}`);
+  }
+
+  return result(errors, { name: name?.trim() ?? "", scope: body.scope as ApiKeyScope });
+}
+
+// POST /api/workspaces
+export function parseWorkspaceInput(body: unknown): ParseResult<WorkspaceInput> {
+  if (!isObject(body)) return { errors: { _: ["Expected a workspace object"] } };
+
+  const errors: FieldErrors = {};
+  const name = checkText(errors, "name", "Name", body.name, WORKSPACE_NAME_MAX_LENGTH);
+
+  return result(errors, { name: name?.trim() ?? "" });
+}
+
+// POST /api/workspaces/[slug]/invites
+export function parseInviteInput(body: unknown): ParseResult<{ handle: string }> {
+  const handle = isObject(body) && typeof body.handle === "string" ? body.handle.trim().replace(/^@/, "").toLowerCase() : "";
+  if (!HANDLE_PATTERN.test(handle)) return { errors: { handle: ["Enter the handle of the person to invite"] } };
+
+  return { value: { handle } };
+}
+
+// POST /api/prompts/[id]/events
+export function parseUsageEventInput(body: unknown): ParseResult<UsageEventInput> {
+  const type = isObject(body) ? body.type : undefined;
+  if (!USAGE_EVENTS.includes(type as UsageEvent)) {
+    return { errors: { type: [`type must be one of: ${USAGE_EVENTS.join(", ")}`] } };
+  }
+
+  return { value: { type: type as UsageEvent } };
+}
+
+// POST /api/notifications/read: the notifications to mark read, or all of
+// them when `ids` is left out
+export function parseMarkReadInput(body: unknown): ParseResult<{ ids: string[] | null }> {
+  const ids = isObject(body) ? body.ids ?? null : null;
+  if (ids !== null && (!Array.isArray(ids) || !ids.every(isUuid))) {
+    return { errors: { ids: ["ids must be a list of notification IDs"] } };
+  }
+
+  return { value: { ids } };
+}
+
+// Flattens field errors into one line, for toasts and the `error` message.
+export function summarizeErrors(errors: FieldErrors): string {
+  return Object.values(errors).flat().join(". ");
+}
@@ -1,6 +1,17 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
-export const supabaseServer = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
+let client: SupabaseClient | null = null;
+
+// Created on first use rather than on import, so modules that import it can
+// be loaded (e.g. by tests using the in-memory repository) without Supabase's
+// environment variables.
+export const supabaseServer = new Proxy({} as SupabaseClient, {
+  get(_target, prop) {
+    client ??= createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+    const value = Reflect.get(client, prop, client);
+    return typeof value === "function" ? value.bind(client) : value;
+  },
+});
@@ -0,0 +1,133 @@
+import { apiFetch, toApiError } from "@/lib/api";
+import {
+  dropQueuedPrompt, dropQueuedReplies, listQueuedWrites, removeQueuedWrite, replaceQueuedId, type QueuedWrite,
+} from "@/lib/offlineStore";
+
+// Prompts and comments made offline go by a local ID until they are sent
+const OFFLINE_ID_PREFIX = "offline-";
+
+export function offlineId(): string {
+  return `${OFFLINE_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isOfflineId(id: string): boolean {
+  return id.startsWith(OFFLINE_ID_PREFIX);
+}
+
+// Whether a request failed because it never reached the server, as opposed
+// to the server turning it down. fetch() rejects with a TypeError then.
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+}
+
+// What happened to one queued write. A conflict is a write the server's
+// current state made pointless (its prompt was deleted, or changed before a
+// queued delete, or was made offline and turned down); a rejected write
+// failed for any other reason.
+export type SyncOutcome =
+  | { write: QueuedWrite; status: "synced" }
+  | { write: QueuedWrite; status: "conflict" | "rejected"; message: string };
+
+export type SyncResult = {
+  outcomes: SyncOutcome[];
+  pending: number; // still queued, to retry later
+};
+
+function send(write: QueuedWrite): Promise<Response> {
+  switch (write.kind) {
+    case "create":
+      return apiFetch("/api/prompts", { method: "POST", body: JSON.stringify(write.input) });
+    case "delete":
+      return apiFetch(`/api/prompts/${write.prompt_id}?version=${write.version}`, { method: "DELETE" });
+    case "like":
+      return apiFetch(`/api/prompts/${write.prompt_id}/like`, { method: write.liked ? "POST" : "DELETE" });
+    case "comment":
+      return apiFetch(`/api/prompts/${write.prompt_id}/comments`, {
+        method: "POST",
+        body: JSON.stringify({ text: write.text, parent_id: write.parent_id }),
+      });
+  }
+}
+
+function conflictMessage(write: QueuedWrite, res: Response): string | null {
+  if (write.kind === "delete" && res.status === 409) {
+    return `“${write.title}” was edited since you deleted it offline, so it was kept`;
+  }
+  if (res.status !== 404) return null;
+  if (write.kind === "like") return `“${write.title}” was deleted, so your like wasn't saved`;
+  if (write.kind === "comment") return `“${write.title}” was deleted, so your comment wasn't posted`;
+  return null;
+}
+
+// Why a write queued against a prompt or comment made offline was dropped,
+// when the server turned that prompt or comment down
+function droppedMessage(write: QueuedWrite): string {
+  if (write.kind === "comment" && write.parent_id) {
+    return `Your reply on “${write.title}” wasn't posted, since the comment it answers wasn't`;
+  }
+  if (write.kind === "comment") return `“${write.title}” wasn't shared, so your comment wasn't posted`;
+  if (write.kind === "like") return `“${write.title}” wasn't shared, so your like wasn't saved`;
+  return "A change made offline was dropped, since what it changed was never saved";
+}
+
+async function replay(userId: string): Promise<SyncResult> {
+  const outcomes: SyncOutcome[] = [];
+
+  // Read the queue afresh each time: sending a create rewrites the
+  // writes queued against its local ID
+  for (;;) {
+    const [write] = await listQueuedWrites(userId);
+    if (!write) break;
+
+    let res: Response;
+    try {
+      res = await send(write);
+    } catch (err) {
+      if (isNetworkError(err)) break;
+      throw err;
+    }
+
+    // Signed out, rate limited or a server problem: keep it for next time
+    if (res.status === 401 || res.status === 429 || res.status >= 500) break;
+
+    if (res.ok) {
+      if (write.kind === "create" || write.kind === "comment") {
+        const { id } = await res.json();
+        await replaceQueuedId(userId, write.temp_id, id);
+      }
+      outcomes.push({ write, status: "synced" });
+    } else if (write.kind === "delete" && res.status === 404) {
+      // Already gone, which is what was asked for
+      outcomes.push({ write, status: "synced" });
+    } else {
+      const conflict = conflictMessage(write, res);
+      outcomes.push(conflict
+        ? { write, status: "conflict", message: conflict }
+        : { write, status: "rejected", message: (await toApiError(res, "Could not sync a change made offline")).message });
+
+      // Whatever was queued against it can't be sent now either
+      if (write.kind === "create" || write.kind === "comment") {
+        const dropped = write.kind === "create"
+          ? await dropQueuedPrompt(userId, write.temp_id)
+          : await dropQueuedReplies(userId, write.temp_id);
+        for (const d of dropped) {
+          if (d.seq !== write.seq) outcomes.push({ write: d, status: "conflict", message: droppedMessage(d) });
+        }
+      }
+    }
+
+    await removeQueuedWrite(write.seq);
+  }
+
+  return { outcomes, pending: (await listQueuedWrites(userId)).length };
+}
+
+let running: Promise<SyncResult> | null = null;
+
+// Sends `userId`'s writes queued offline, oldest first, until there are
+// none left or the connection drops again. Calls made while a replay is
+// running share its result.
+export function replayQueue(userId: string): Promise<SyncResult> {
+  running ??= replay(userId).finally(() => { running = null; });
+  return running;
+}
@@ -0,0 +1,36 @@
+// Tags replace the old free-text category. They are stored normalized, so
+// "Code", " code " and "CODE" all end up as the same tag.
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+
+// Lowercase, hyphen-separated, limited to characters that read well in a
+// URL. Keep in sync with normalize_tag() in the tags migration.
+export function normalizeTag(raw: string): string {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^a-z0-9+#.-]/g, "")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Normalizes and de-duplicates a list of tags, dropping empty ones.
+export function normalizeTags(raw: string[]): string[] {
+  return Array.from(new Set(raw.map(normalizeTag).filter(Boolean)));
+}
+
+// Checks a `tags` payload from a request.
+export function parseTags(input: unknown): { tags: string[] } | { error: string } {
+  if (input === undefined || input === null) return { tags: [] };
+  if (!Array.isArray(input) || input.some((t) => typeof t !== "string")) {
+    return { error: "tags must be an array of strings" };
+  }
+  const tags = normalizeTags(input);
+  if (tags.length > MAX_TAGS) {
+    return { error: `A prompt can have at most ${MAX_TAGS} tags` };
+  }
+  return { tags };
+}
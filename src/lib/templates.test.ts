@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { renderTemplate } from "@/lib/templates";
+
+describe("renderTemplate", () => {
+  it("fills placeholders from values, then defaults", () => {
+    const result = renderTemplate("Translate {{text}} into {{ language }}", { text: "hello" }, { language: { default: "French" } });
+    expect(result).toEqual({ output: "Translate hello into French", missing: [] });
+  });
+
+  it("falls back to the default for an empty value", () => {
+    const result = renderTemplate("Into {{language}}", { language: "" }, { language: { default: "French" } });
+    expect(result).toEqual({ output: "Into French", missing: [] });
+  });
+
+  it("reports placeholders with neither a value nor a default", () => {
+    const result = renderTemplate("{{a}} and {{b}} and {{a}}", { b: "" });
+    expect(result).toEqual({ output: "{{a}} and {{b}} and {{a}}", missing: ["a", "b"] });
+  });
+
+  it("doesn't fill placeholders from Object.prototype", () => {
+    const result = renderTemplate("{{constructor}} {{toString}}", {});
+    expect(result).toEqual({ output: "{{constructor}} {{toString}}", missing: ["constructor", "toString"] });
+  });
+});
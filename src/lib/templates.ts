@@ -0,0 +1,75 @@
+// Prompt templates: `{{name}}` placeholders in a prompt's content, with
+// optional per-variable defaults and descriptions stored on the prompt.
+
+export type TemplateVariable = { default?: string; description?: string };
+export type TemplateVariables = Record<string, TemplateVariable>;
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+// Variable names in order of first appearance.
+export function extractVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  return Array.from(names);
+}
+
+// Substitutes each placeholder with its value, falling back to the stored
+// default when the value is missing or empty. Placeholders with neither are
+// left in place and reported. Only own keys count, so `{{constructor}}` is
+// missing rather than filled from Object.prototype.
+export function renderTemplate(
+  content: string,
+  values: Record<string, string>,
+  variables: TemplateVariables = {}
+): { output: string; missing: string[] } {
+  const missing = new Set<string>();
+  const output = content.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const given = Object.hasOwn(values, name) ? values[name] : "";
+    const value = given || (Object.hasOwn(variables, name) ? variables[name].default : "");
+    if (!value) {
+      missing.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+  return { output, missing: Array.from(missing) };
+}
+
+// Keeps only the entries for placeholders that actually appear in `content`.
+export function pickVariables(variables: TemplateVariables, content: string): TemplateVariables {
+  const present = new Set(extractVariables(content));
+  return Object.fromEntries(Object.entries(variables).filter(([name]) => present.has(name)));
+}
+
+// Checks a `variables` payload from a request. When `content` is given,
+// entries for placeholders it doesn't contain are dropped.
+export function parseVariables(
+  input: unknown,
+  content?: string
+): { variables: TemplateVariables } | { error: string } {
+  if (input === undefined || input === null) return { variables: {} };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "variables must be an object" };
+  }
+
+  const variables: TemplateVariables = {};
+
+  for (const [name, spec] of Object.entries(input)) {
+    if (typeof spec !== "object" || spec === null) {
+      return { error: `variables.${name} must be an object` };
+    }
+    const { default: fallback, description } = spec as Record<string, unknown>;
+    if (fallback !== undefined && typeof fallback !== "string") {
+      return { error: `variables.${name}.default must be a string` };
+    }
+    if (description !== undefined && typeof description !== "string") {
+      return { error: `variables.${name}.description must be a string` };
+    }
+    const entry: TemplateVariable = {};
+    if (fallback) entry.default = fallback;
+    if (description) entry.description = description;
+    variables[name] = entry;
+  }
+
+  return { variables: content === undefined ? variables : pickVariables(variables, content) };
+}
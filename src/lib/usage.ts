@@ -0,0 +1,27 @@
+// Usage analytics: the events the client sends and how they are charted.
+
+export const USAGE_EVENTS = ["copy", "view"] as const;
+export type UsageEvent = (typeof USAGE_EVENTS)[number];
+
+// How many days of usage each prompt card charts
+export const USAGE_DAYS = 14;
+
+type UsageRow = { day: string; copies: number; views: number };
+
+// The last `days` days up to `today` (YYYY-MM-DD), oldest first, with zeros
+// for days without any events
+export function fillUsageDays(rows: UsageRow[], today: string, days = USAGE_DAYS): UsageRow[] {
+  const byDay = new Map(rows.map((r) => [r.day, r]));
+  const end = new Date(`${today}T00:00:00Z`).getTime();
+
+  return Array.from({ length: days }, (_, i) => {
+    const day = new Date(end - (days - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const row = byDay.get(day);
+    return { day, copies: row?.copies ?? 0, views: row?.views ?? 0 };
+  });
+}
+
+// First day of the charted range, for queries
+export function usageSince(today: string, days = USAGE_DAYS): string {
+  return new Date(new Date(`${today}T00:00:00Z`).getTime() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
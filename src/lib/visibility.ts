@@ -0,0 +1,24 @@
+// Who can see a prompt: its author only, the members of its workspace, or
+// everyone. Mirrors can_view_prompt() in the database.
+
+export const PROMPT_VISIBILITIES = ["private", "workspace", "public"] as const;
+export type PromptVisibility = (typeof PROMPT_VISIBILITIES)[number];
+
+type VisibilityFields = { visibility: PromptVisibility; author_id: string | null; workspace_id: string | null };
+
+// `workspaceIds` are the workspaces the viewer belongs to
+export function canViewPrompt(prompt: VisibilityFields, viewerId: string | null, workspaceIds: string[]): boolean {
+  if (prompt.visibility === "public") return true;
+  if (!viewerId) return false;
+  if (prompt.author_id === viewerId) return true;
+  return prompt.visibility === "workspace" && !!prompt.workspace_id && workspaceIds.includes(prompt.workspace_id);
+}
+
+// PostgREST `or` filter for the prompts a viewer can see, for list queries
+// that don't go through search_prompt_ids()
+export function visiblePromptsFilter(viewerId: string | null, workspaceIds: string[]): string {
+  const filters = ["visibility.eq.public"];
+  if (viewerId) filters.push(`author_id.eq.${viewerId}`);
+  if (workspaceIds.length > 0) filters.push(`and(visibility.eq.workspace,workspace_id.in.(${workspaceIds.join(",")}))`);
+  return filters.join(",");
+}
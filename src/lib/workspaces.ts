@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { Workspace, WorkspaceRole } from "@/lib/schemas";
+import { validationError } from "@/lib/http";
+import { getPromptRepository } from "@/lib/promptRepository";
+
+// IDs of the workspaces `user` belongs to; none for anonymous callers.
+export async function getWorkspaceIds(
+  user: User | null
+): Promise<{ ids: string[] } | { response: NextResponse }> {
+  if (!user) return { ids: [] };
+
+  const { data, error } = await getPromptRepository().workspaceIds(user.id);
+
+  if (error) {
+    return {
+      response: NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      ),
+    };
+  }
+
+  return { ids: data };
+}
+
+// Looks up a workspace by slug for one of its members. Anyone else gets a
+// 404, so workspace names don't leak.
+export async function getMemberWorkspace(
+  slug: string,
+  user: User
+): Promise<{ workspace: Workspace; role: WorkspaceRole } | { response: NextResponse }> {
+  const { data, error } = await supabaseServer
+    .from("workspaces")
+    .select("*, workspace_members!inner(role)")
+    .eq("slug", slug)
+    .eq("workspace_members.user_id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    return {
+      response: NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      ),
+    };
+  }
+
+  if (!data) {
+    return {
+      response: NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const { workspace_members: membership, ...workspace } = data;
+  return { workspace, role: membership[0].role };
+}
+
+// Looks up a workspace by slug for someone it has invited. Anyone else gets
+// a 404, as with getMemberWorkspace().
+export async function getInvitedWorkspace(
+  slug: string,
+  user: User
+): Promise<{ workspace: Workspace } | { response: NextResponse }> {
+  const { data, error } = await supabaseServer
+    .from("workspaces")
+    .select("id, owner_id, name, slug, created_at, workspace_invites!inner(user_id)")
+    .eq("slug", slug)
+    .eq("workspace_invites.user_id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    return {
+      response: NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      ),
+    };
+  }
+
+  if (!data) {
+    return {
+      response: NextResponse.json(
+        { error: "Invitation not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const { id, owner_id, name, created_at } = data;
+  return { workspace: { id, owner_id, name, slug: data.slug, created_at } };
+}
+
+// Checks that `user` can share prompts into the workspace. Returns the
+// error response to send back when they can't, otherwise null.
+export async function checkWorkspaceMember(workspaceId: string, user: User): Promise<NextResponse | null> {
+  const workspaces = await getWorkspaceIds(user);
+  if ("response" in workspaces) return workspaces.response;
+
+  if (!workspaces.ids.includes(workspaceId)) {
+    return validationError({ workspace_id: ["You aren't a member of that workspace"] });
+  }
+
+  return null;
+}
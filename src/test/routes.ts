@@ -0,0 +1,59 @@
+import { afterEach, beforeEach } from "vitest";
+import { createLocalTokenVerifier, setTokenVerifier } from "@/lib/auth";
+import { setPromptRepository } from "@/lib/promptRepository";
+import { createMemoryPromptRepository, type MemoryPromptRepository } from "@/lib/memoryPromptRepository";
+import { setRateLimitStore } from "@/lib/rateLimit";
+
+// Helpers for calling route handlers directly, against the in-memory
+// repository instead of Supabase.
+
+// Signed-in callers, by the bearer token they send
+export const USERS = {
+  alice: { id: "00000000-0000-4000-8000-00000000000a", email: "alice@example.com" },
+  bob: { id: "00000000-0000-4000-8000-00000000000b", email: "bob@example.com" },
+};
+
+export type TestUser = keyof typeof USERS;
+
+// Gives each test a fresh, empty repository and rate limit counts. Returns
+// a getter for the current test's repository, to seed and inspect.
+export function setUpMemoryBackend(): () => MemoryPromptRepository {
+  let repository = createMemoryPromptRepository();
+
+  beforeEach(() => {
+    repository = createMemoryPromptRepository();
+    setPromptRepository(repository);
+    setTokenVerifier(createLocalTokenVerifier(USERS));
+    setRateLimitStore(null);
+  });
+
+  afterEach(() => {
+    setPromptRepository(null);
+    setTokenVerifier(null);
+  });
+
+  return () => repository;
+}
+
+type RequestOptions = {
+  method?: string;
+  as?: TestUser; // anonymous when left out
+  body?: unknown; // sent as JSON; a string is sent as is
+};
+
+export function apiRequest(path: string, { method = "GET", as, body }: RequestOptions = {}): Request {
+  const headers = new Headers();
+  if (as) headers.set("Authorization", `Bearer ${as}`);
+  if (body !== undefined) headers.set("Content-Type", "application/json");
+
+  return new Request(`http://localhost${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+// Route context for handlers under a dynamic segment such as [id]
+export function routeParams<T extends Record<string, string>>(params: T) {
+  return { params: Promise.resolve(params) };
+}
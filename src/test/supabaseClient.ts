@@ -0,0 +1,38 @@
+import type { Session, User } from "@supabase/supabase-js";
+
+// Stand-in for the browser Supabase client (src/lib/supabaseClient.ts), for
+// component tests: a session you set with signInAs(), and a realtime
+// channel that never delivers anything. Use with
+//   vi.mock("@/lib/supabaseClient", () => import("@/test/supabaseClient"));
+
+let session: Session | null = null;
+
+// Signs in as `user`, sending `token` as the API bearer token; null signs out
+export function signInAs(user: Pick<User, "id" | "email"> | null, token = "") {
+  session = user && ({
+    access_token: token,
+    user: { app_metadata: {}, user_metadata: {}, aud: "authenticated", created_at: new Date(0).toISOString(), ...user },
+  } as Session);
+}
+
+const channel = {
+  on() { return channel; },
+  subscribe() { return channel; },
+};
+
+export const supabase = {
+  auth: {
+    async getSession() {
+      return { data: { session }, error: null };
+    },
+    onAuthStateChange() {
+      return { data: { subscription: { unsubscribe() {} } } };
+    },
+    async signOut() {
+      session = null;
+      return { error: null };
+    },
+  },
+  channel: () => channel,
+  removeChannel: async () => "ok",
+};
@@ -0,0 +1,71 @@
+-- Likes and comments on prompts.
+-- Counters are denormalized onto `prompts` so the feed can read them without
+-- aggregating, and kept in sync by the triggers below.
+
+alter table prompts add column if not exists likes integer not null default 0;
+alter table prompts add column if not exists comment_count integer not null default 0;
+
+create table if not exists prompt_likes (
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (prompt_id, user_id)
+);
+
+create index if not exists prompt_likes_user_id_idx on prompt_likes (user_id);
+
+create table if not exists prompt_comments (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  user_name text not null,
+  text text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists prompt_comments_prompt_id_idx on prompt_comments (prompt_id, created_at);
+
+create or replace function sync_prompt_likes() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    update prompts set likes = likes + 1 where id = new.prompt_id;
+  else
+    update prompts set likes = greatest(likes - 1, 0) where id = old.prompt_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists prompt_likes_sync on prompt_likes;
+create trigger prompt_likes_sync
+  after insert or delete on prompt_likes
+  for each row execute function sync_prompt_likes();
+
+create or replace function sync_prompt_comment_count() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    update prompts set comment_count = comment_count + 1 where id = new.prompt_id;
+  else
+    update prompts set comment_count = greatest(comment_count - 1, 0) where id = old.prompt_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists prompt_comments_sync on prompt_comments;
+create trigger prompt_comments_sync
+  after insert or delete on prompt_comments
+  for each row execute function sync_prompt_comment_count();
+
+-- Writes go through the API routes with the service role; the browser client
+-- only ever reads.
+alter table prompt_likes enable row level security;
+alter table prompt_comments enable row level security;
+
+create policy "Likes are readable by everyone"
+  on prompt_likes for select using (true);
+
+create policy "Comments are readable by everyone"
+  on prompt_comments for select using (true);
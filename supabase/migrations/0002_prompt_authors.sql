@@ -0,0 +1,7 @@
+-- Record who wrote each prompt. The API stamps these from the caller's
+-- verified session; ownership checks compare against author_id.
+
+alter table prompts add column if not exists author_id uuid references auth.users (id) on delete set null;
+alter table prompts add column if not exists author_name text not null default 'Anonymous';
+
+create index if not exists prompts_author_id_idx on prompts (author_id);
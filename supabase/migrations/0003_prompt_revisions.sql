@@ -0,0 +1,43 @@
+-- Version history for prompts. Every change to title, content or category
+-- snapshots the previous state into prompt_revisions and bumps `version`,
+-- so edits never lose earlier wording.
+
+alter table prompts add column if not exists version integer not null default 1;
+alter table prompts add column if not exists updated_at timestamptz;
+
+create table if not exists prompt_revisions (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  version integer not null,
+  title text not null,
+  content text not null,
+  category text,
+  -- when this revision became current
+  created_at timestamptz not null,
+  unique (prompt_id, version)
+);
+
+create or replace function snapshot_prompt_revision() returns trigger
+language plpgsql as $$
+begin
+  if (new.title, new.content, coalesce(new.category, ''))
+     is distinct from (old.title, old.content, coalesce(old.category, '')) then
+    insert into prompt_revisions (prompt_id, version, title, content, category, created_at)
+    values (old.id, old.version, old.title, old.content, old.category, coalesce(old.updated_at, old.created_at));
+
+    new.version := old.version + 1;
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prompts_snapshot_revision on prompts;
+create trigger prompts_snapshot_revision
+  before update on prompts
+  for each row execute function snapshot_prompt_revision();
+
+alter table prompt_revisions enable row level security;
+
+create policy "Revisions are readable by everyone"
+  on prompt_revisions for select using (true);
@@ -0,0 +1,4 @@
+-- Optional defaults and descriptions for a prompt's {{variables}}, keyed by
+-- variable name: { "tone": { "default": "friendly", "description": "..." } }
+
+alter table prompts add column if not exists variables jsonb not null default '{}'::jsonb;
@@ -0,0 +1,48 @@
+-- Ranked full-text search and keyset pagination for the feed.
+
+alter table prompts add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C')
+  ) stored;
+
+create index if not exists prompts_search_vector_idx on prompts using gin (search_vector);
+create index if not exists prompts_created_at_idx on prompts (created_at desc, id desc);
+
+-- Returns one page of matching prompt IDs, ordered by `sort_key` then `id`,
+-- both descending. Pass the last row's (sort_key, id) as (after_key, after_id)
+-- to get the next page. The API loads the full rows separately, so this
+-- doesn't need to change whenever a column is added to prompts.
+create or replace function search_prompt_ids(
+  search_query text default null,
+  category_filter text default null,
+  author_filter uuid default null,
+  sort_by text default 'newest',
+  after_key double precision default null,
+  after_id uuid default null,
+  page_size integer default 20
+) returns table (id uuid, sort_key double precision)
+language sql stable as $$
+  with matches as (
+    select
+      p.id,
+      case sort_by
+        when 'relevance' then ts_rank(p.search_vector, websearch_to_tsquery('english', search_query))::double precision
+        when 'likes' then p.likes::double precision
+        when 'comments' then p.comment_count::double precision
+        else extract(epoch from p.created_at)::double precision
+      end as sort_key
+    from prompts p
+    where (search_query is null or p.search_vector @@ websearch_to_tsquery('english', search_query))
+      and (category_filter is null or p.category = category_filter)
+      and (author_filter is null or p.author_id = author_filter)
+  )
+  select m.id, m.sort_key
+  from matches m
+  where after_key is null
+     or m.sort_key < after_key
+     or (m.sort_key = after_key and m.id < after_id)
+  order by m.sort_key desc, m.id desc
+  limit page_size;
+$$;
@@ -0,0 +1,109 @@
+-- Many normalized tags per prompt, replacing the single free-text category.
+-- `category` is kept for now so older clients don't break, but nothing
+-- reads it any more.
+
+-- Keep in sync with normalizeTag() in src/lib/tags.ts
+create or replace function normalize_tag(raw text) returns text
+language sql immutable as $$
+  select left(
+    trim(both '-' from regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(trim(raw)), '[\s_]+', '-', 'g'),
+        '[^a-z0-9+#.-]', '', 'g'),
+      '-{2,}', '-', 'g')),
+    32);
+$$;
+
+alter table prompts add column if not exists tags text[] not null default '{}';
+
+update prompts
+set tags = array[normalize_tag(category)]
+where tags = '{}' and normalize_tag(coalesce(category, '')) <> '';
+
+create index if not exists prompts_tags_idx on prompts using gin (tags);
+
+-- Revisions track tags instead of category from here on
+alter table prompt_revisions add column if not exists tags text[] not null default '{}';
+
+update prompt_revisions
+set tags = array[normalize_tag(category)]
+where tags = '{}' and normalize_tag(coalesce(category, '')) <> '';
+
+create or replace function snapshot_prompt_revision() returns trigger
+language plpgsql as $$
+begin
+  if (new.title, new.content, new.tags)
+     is distinct from (old.title, old.content, old.tags) then
+    insert into prompt_revisions (prompt_id, version, title, content, category, tags, created_at)
+    values (old.id, old.version, old.title, old.content, old.category, old.tags, coalesce(old.updated_at, old.created_at));
+
+    new.version := old.version + 1;
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+-- Search over tags instead of category
+create or replace function tags_to_text(tags text[]) returns text
+language sql immutable as $$
+  select coalesce(array_to_string(tags, ' '), '');
+$$;
+
+alter table prompts drop column if exists search_vector;
+alter table prompts add column search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', tags_to_text(tags)), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C')
+  ) stored;
+
+create index if not exists prompts_search_vector_idx on prompts using gin (search_vector);
+
+-- Usage counts for GET /api/tags
+create or replace view tag_usage as
+  select tag, count(*)::integer as count
+  from prompts, unnest(tags) as tag
+  group by tag;
+
+drop function if exists search_prompt_ids(text, text, uuid, text, double precision, uuid, integer);
+
+-- Same as before, but filtering on tags: with tags_match = 'all' a prompt
+-- must carry every tag in tags_filter, with 'any' at least one of them.
+create or replace function search_prompt_ids(
+  search_query text default null,
+  tags_filter text[] default null,
+  tags_match text default 'all',
+  author_filter uuid default null,
+  sort_by text default 'newest',
+  after_key double precision default null,
+  after_id uuid default null,
+  page_size integer default 20
+) returns table (id uuid, sort_key double precision)
+language sql stable as $$
+  with matches as (
+    select
+      p.id,
+      case sort_by
+        when 'relevance' then ts_rank(p.search_vector, websearch_to_tsquery('english', search_query))::double precision
+        when 'likes' then p.likes::double precision
+        when 'comments' then p.comment_count::double precision
+        else extract(epoch from p.created_at)::double precision
+      end as sort_key
+    from prompts p
+    where (search_query is null or p.search_vector @@ websearch_to_tsquery('english', search_query))
+      and (
+        tags_filter is null
+        or (tags_match = 'any' and p.tags && tags_filter)
+        or (tags_match <> 'any' and p.tags @> tags_filter)
+      )
+      and (author_filter is null or p.author_id = author_filter)
+  )
+  select m.id, m.sort_key
+  from matches m
+  where after_key is null
+     or m.sort_key < after_key
+     or (m.sort_key = after_key and m.id < after_id)
+  order by m.sort_key desc, m.id desc
+  limit page_size;
+$$;
@@ -0,0 +1,41 @@
+-- Collections: named, ordered sets of prompts curated by a user. Public
+-- collections can be shared by link; private ones are visible to their
+-- owner only.
+
+create table if not exists collections (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  owner_name text not null,
+  name text not null,
+  slug text not null unique,
+  description text not null default '',
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists collections_owner_id_idx on collections (owner_id);
+
+create table if not exists collection_items (
+  collection_id uuid not null references collections (id) on delete cascade,
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  position integer not null,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, prompt_id)
+);
+
+create index if not exists collection_items_position_idx on collection_items (collection_id, position);
+
+alter table collections enable row level security;
+alter table collection_items enable row level security;
+
+create policy "Public collections are readable by everyone"
+  on collections for select using (is_public or owner_id = auth.uid());
+
+create policy "Items follow their collection's visibility"
+  on collection_items for select using (
+    exists (
+      select 1 from collections c
+      where c.id = collection_id and (c.is_public or c.owner_id = auth.uid())
+    )
+  );
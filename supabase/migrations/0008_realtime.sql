@@ -0,0 +1,12 @@
+-- Realtime feed updates: the browser subscribes to changes on prompts, likes
+-- and comments through Supabase's `supabase_realtime` publication. Events
+-- are filtered by the select policies, so clients only see rows they could
+-- read anyway.
+
+alter publication supabase_realtime add table prompts;
+alter publication supabase_realtime add table prompt_likes;
+alter publication supabase_realtime add table prompt_comments;
+
+-- Deletes only carry the primary key by default; comments need prompt_id too
+-- so the client knows which thread to remove them from.
+alter table prompt_comments replica identity full;
@@ -0,0 +1,96 @@
+-- Public user profiles: a unique handle for /u/[handle], a short bio, and the
+-- name and avatar from the sign-in provider. Every user gets a profile when
+-- they sign up; the handle starts out derived from their email.
+
+create table if not exists profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  handle text not null unique check (handle ~ '^[a-z0-9_]{3,30}$'),
+  display_name text not null default '',
+  avatar_url text,
+  bio text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- `base` cleaned up to fit the handle format, with a number appended if it
+-- is already taken.
+create or replace function available_handle(base text) returns text
+language plpgsql as $$
+declare
+  stem text := left(regexp_replace(lower(coalesce(base, '')), '[^a-z0-9_]', '', 'g'), 24);
+  candidate text;
+  n integer := 1;
+begin
+  if length(stem) < 3 then stem := 'user' || stem; end if;
+  candidate := stem;
+  while exists (select 1 from profiles where handle = candidate) loop
+    n := n + 1;
+    candidate := stem || n;
+  end loop;
+  return candidate;
+end;
+$$;
+
+create or replace function create_profile_for_user() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into profiles (id, handle, display_name, avatar_url)
+  values (
+    new.id,
+    available_handle(split_part(new.email, '@', 1)),
+    coalesce(new.raw_user_meta_data ->> 'full_name', split_part(new.email, '@', 1), ''),
+    new.raw_user_meta_data ->> 'avatar_url'
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function create_profile_for_user();
+
+-- Profiles for everyone who signed up before this migration
+do $$
+declare
+  u record;
+begin
+  for u in select * from auth.users where id not in (select id from profiles) order by created_at loop
+    insert into profiles (id, handle, display_name, avatar_url)
+    values (
+      u.id,
+      available_handle(split_part(u.email, '@', 1)),
+      coalesce(u.raw_user_meta_data ->> 'full_name', split_part(u.email, '@', 1), ''),
+      u.raw_user_meta_data ->> 'avatar_url'
+    );
+  end loop;
+end;
+$$;
+
+-- How often each prompt has been copied, for "most copied" lists
+alter table prompts add column if not exists copy_count integer not null default 0;
+
+create or replace function record_prompt_copy(target uuid) returns integer
+language sql as $$
+  update prompts set copy_count = copy_count + 1 where id = target returning copy_count;
+$$;
+
+-- Totals across everything an author has posted
+create or replace function author_stats(author uuid)
+returns table (prompt_count bigint, likes_received bigint, comments_received bigint, copies_received bigint)
+language sql stable as $$
+  select
+    count(*),
+    coalesce(sum(likes), 0),
+    coalesce(sum(comment_count), 0),
+    coalesce(sum(copy_count), 0)
+  from prompts
+  where author_id = author;
+$$;
+
+-- Edits go through the API with the service role
+alter table profiles enable row level security;
+
+create policy "Profiles are readable by everyone"
+  on profiles for select using (true);
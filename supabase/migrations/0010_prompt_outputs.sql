@@ -0,0 +1,20 @@
+-- Example outputs: results of running a prompt in the playground that its
+-- author chose to keep, shown alongside the prompt.
+
+create table if not exists prompt_outputs (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  provider text not null,
+  model text not null,
+  input_values jsonb not null default '{}'::jsonb,
+  output text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists prompt_outputs_prompt_id_idx on prompt_outputs (prompt_id, created_at desc);
+
+alter table prompt_outputs enable row level security;
+
+create policy "Example outputs are readable by everyone"
+  on prompt_outputs for select using (true);
@@ -0,0 +1,64 @@
+-- Forks: a prompt created from another one keeps a link to it. Deleting the
+-- original leaves its forks in place, just without the link.
+
+alter table prompts add column if not exists forked_from uuid references prompts (id) on delete set null;
+alter table prompts add column if not exists fork_count integer not null default 0;
+
+create index if not exists prompts_forked_from_idx on prompts (forked_from);
+
+create or replace function sync_prompt_fork_count() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    update prompts set fork_count = fork_count + 1 where id = new.forked_from;
+  else
+    update prompts set fork_count = greatest(fork_count - 1, 0) where id = old.forked_from;
+  end if;
+  return null;
+end;
+$$;
+
+-- Two triggers, since an insert trigger's WHEN can't mention OLD nor a
+-- delete trigger's NEW
+drop trigger if exists prompt_forks_sync on prompts;
+drop trigger if exists prompt_forks_insert_sync on prompts;
+create trigger prompt_forks_insert_sync
+  after insert on prompts
+  for each row when (new.forked_from is not null)
+  execute function sync_prompt_fork_count();
+
+drop trigger if exists prompt_forks_delete_sync on prompts;
+create trigger prompt_forks_delete_sync
+  after delete on prompts
+  for each row when (old.forked_from is not null)
+  execute function sync_prompt_fork_count();
+
+-- Every prompt descended from `root`, depth-first: each fork comes right
+-- after its parent, siblings oldest first. `depth` is 1 for direct forks.
+create or replace function prompt_descendants(root uuid)
+returns table (
+  id uuid,
+  forked_from uuid,
+  title text,
+  author_id uuid,
+  author_name text,
+  fork_count integer,
+  created_at timestamptz,
+  depth integer
+)
+language sql stable as $$
+  with recursive tree as (
+    select p.id, p.forked_from, p.title, p.author_id, p.author_name, p.fork_count, p.created_at,
+           1 as depth, array[p.created_at::text || p.id::text] as path
+    from prompts p
+    where p.forked_from = root
+    union all
+    select p.id, p.forked_from, p.title, p.author_id, p.author_name, p.fork_count, p.created_at,
+           t.depth + 1, t.path || (p.created_at::text || p.id::text)
+    from prompts p
+    join tree t on p.forked_from = t.id
+  )
+  select id, forked_from, title, author_id, author_name, fork_count, created_at, depth
+  from tree
+  order by path;
+$$;
@@ -0,0 +1,203 @@
+-- Moderation: reports on prompts and comments, an admin role, bans, and soft
+-- deletes.
+--
+-- Content is never removed straight away. `deleted_at` marks what its owner
+-- deleted, which can be restored until purge_deleted_content() clears it out
+-- after the restore window. `hidden_at` marks what a moderator took down;
+-- it stays until a moderator restores it.
+
+alter table profiles add column if not exists role text not null default 'member'
+  check (role in ('member', 'admin'));
+alter table profiles add column if not exists banned_at timestamptz;
+
+alter table prompts add column if not exists deleted_at timestamptz;
+alter table prompts add column if not exists hidden_at timestamptz;
+alter table prompt_comments add column if not exists deleted_at timestamptz;
+alter table prompt_comments add column if not exists hidden_at timestamptz;
+alter table collections add column if not exists deleted_at timestamptz;
+
+create index if not exists prompts_deleted_at_idx on prompts (deleted_at) where deleted_at is not null;
+create index if not exists prompt_comments_deleted_at_idx on prompt_comments (deleted_at) where deleted_at is not null;
+create index if not exists collections_deleted_at_idx on collections (deleted_at) where deleted_at is not null;
+
+-- comment_count only counts comments that are still shown
+create or replace function sync_prompt_comment_count() returns trigger
+language plpgsql as $$
+declare
+  was_visible boolean := tg_op <> 'INSERT' and old.deleted_at is null and old.hidden_at is null;
+  is_visible boolean := tg_op <> 'DELETE' and new.deleted_at is null and new.hidden_at is null;
+begin
+  if is_visible and not was_visible then
+    update prompts set comment_count = comment_count + 1 where id = new.prompt_id;
+  elsif was_visible and not is_visible then
+    update prompts set comment_count = greatest(comment_count - 1, 0) where id = old.prompt_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists prompt_comments_sync on prompt_comments;
+create trigger prompt_comments_sync
+  after insert or delete or update of deleted_at, hidden_at on prompt_comments
+  for each row execute function sync_prompt_comment_count();
+
+-- Likewise fork_count only counts forks that are still shown. This replaces
+-- the insert and delete triggers from 0011.
+create or replace function sync_prompt_fork_count() returns trigger
+language plpgsql as $$
+declare
+  was_visible boolean := tg_op <> 'INSERT' and old.deleted_at is null and old.hidden_at is null;
+  is_visible boolean := tg_op <> 'DELETE' and new.deleted_at is null and new.hidden_at is null;
+begin
+  if is_visible and not was_visible and new.forked_from is not null then
+    update prompts set fork_count = fork_count + 1 where id = new.forked_from;
+  elsif was_visible and not is_visible and old.forked_from is not null then
+    update prompts set fork_count = greatest(fork_count - 1, 0) where id = old.forked_from;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists prompt_forks_insert_sync on prompts;
+drop trigger if exists prompt_forks_delete_sync on prompts;
+drop trigger if exists prompt_forks_sync on prompts;
+create trigger prompt_forks_sync
+  after insert or delete or update of deleted_at, hidden_at on prompts
+  for each row execute function sync_prompt_fork_count();
+
+create table if not exists reports (
+  id uuid primary key default gen_random_uuid(),
+  target_type text not null check (target_type in ('prompt', 'comment')),
+  target_id uuid not null,
+  reporter_id uuid not null references auth.users (id) on delete cascade,
+  reason text not null check (reason in ('spam', 'abuse', 'other')),
+  details text not null default '',
+  status text not null default 'open' check (status in ('open', 'actioned', 'dismissed')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users (id) on delete set null,
+  unique (target_type, target_id, reporter_id)
+);
+
+create index if not exists reports_status_idx on reports (status, created_at desc);
+create index if not exists reports_target_idx on reports (target_type, target_id);
+
+-- Reports are only ever read through the admin API
+alter table reports enable row level security;
+
+-- Removed prompts drop out of search, tag counts and author stats
+create or replace function search_prompt_ids(
+  search_query text default null,
+  tags_filter text[] default null,
+  tags_match text default 'all',
+  author_filter uuid default null,
+  sort_by text default 'newest',
+  after_key double precision default null,
+  after_id uuid default null,
+  page_size integer default 20
+) returns table (id uuid, sort_key double precision)
+language sql stable as $$
+  with matches as (
+    select
+      p.id,
+      case sort_by
+        when 'relevance' then ts_rank(p.search_vector, websearch_to_tsquery('english', search_query))::double precision
+        when 'likes' then p.likes::double precision
+        when 'comments' then p.comment_count::double precision
+        else extract(epoch from p.created_at)::double precision
+      end as sort_key
+    from prompts p
+    where p.deleted_at is null
+      and p.hidden_at is null
+      and (search_query is null or p.search_vector @@ websearch_to_tsquery('english', search_query))
+      and (
+        tags_filter is null
+        or (tags_match = 'any' and p.tags && tags_filter)
+        or (tags_match <> 'any' and p.tags @> tags_filter)
+      )
+      and (author_filter is null or p.author_id = author_filter)
+  )
+  select m.id, m.sort_key
+  from matches m
+  where after_key is null
+     or m.sort_key < after_key
+     or (m.sort_key = after_key and m.id < after_id)
+  order by m.sort_key desc, m.id desc
+  limit page_size;
+$$;
+
+create or replace view tag_usage as
+  select tag, count(*)::integer as count
+  from prompts, unnest(tags) as tag
+  where deleted_at is null and hidden_at is null
+  group by tag;
+
+create or replace function author_stats(author uuid)
+returns table (prompt_count bigint, likes_received bigint, comments_received bigint, copies_received bigint)
+language sql stable as $$
+  select
+    count(*),
+    coalesce(sum(likes), 0),
+    coalesce(sum(comment_count), 0),
+    coalesce(sum(copy_count), 0)
+  from prompts
+  where author_id = author and deleted_at is null and hidden_at is null;
+$$;
+
+-- Removed forks are left out of the lineage; their own forks still show
+create or replace function prompt_descendants(root uuid)
+returns table (
+  id uuid,
+  forked_from uuid,
+  title text,
+  author_id uuid,
+  author_name text,
+  fork_count integer,
+  created_at timestamptz,
+  depth integer
+)
+language sql stable as $$
+  with recursive tree as (
+    select p.id, p.forked_from, p.title, p.author_id, p.author_name, p.fork_count, p.created_at,
+           p.deleted_at is null and p.hidden_at is null as visible,
+           1 as depth, array[p.created_at::text || p.id::text] as path
+    from prompts p
+    where p.forked_from = root
+    union all
+    select p.id, p.forked_from, p.title, p.author_id, p.author_name, p.fork_count, p.created_at,
+           p.deleted_at is null and p.hidden_at is null,
+           t.depth + 1, t.path || (p.created_at::text || p.id::text)
+    from prompts p
+    join tree t on p.forked_from = t.id
+  )
+  select id, forked_from, title, author_id, author_name, fork_count, created_at, depth
+  from tree
+  where visible
+  order by path;
+$$;
+
+-- Permanently removes what was deleted longer ago than the restore window.
+-- Run it on a schedule, e.g. daily with pg_cron:
+--   select cron.schedule('purge-deleted', '0 3 * * *', $$select purge_deleted_content()$$);
+create or replace function purge_deleted_content(restore_window interval default interval '30 days')
+returns integer
+language plpgsql as $$
+declare
+  removed integer := 0;
+  n integer;
+begin
+  delete from prompt_comments where deleted_at < now() - restore_window;
+  get diagnostics n = row_count;
+  removed := removed + n;
+
+  delete from prompts where deleted_at < now() - restore_window;
+  get diagnostics n = row_count;
+  removed := removed + n;
+
+  delete from collections where deleted_at < now() - restore_window;
+  get diagnostics n = row_count;
+  removed := removed + n;
+
+  return removed;
+end;
+$$;
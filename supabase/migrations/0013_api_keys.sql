@@ -0,0 +1,20 @@
+-- Personal API keys for scripts and editor plugins. Only a SHA-256 hash of
+-- each key is stored; the key itself is shown once, when it is created.
+-- `prefix` is the start of the key, kept so people can tell their keys apart.
+
+create table if not exists api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  prefix text not null,
+  key_hash text not null unique,
+  scope text not null check (scope in ('read', 'write')),
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_keys_user_idx on api_keys (user_id, created_at desc);
+
+-- Keys are only ever read through the API, with the service role
+alter table api_keys enable row level security;
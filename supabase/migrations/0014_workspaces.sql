@@ -0,0 +1,204 @@
+-- Workspaces and prompt visibility. A prompt is one of:
+--   public     visible to everyone (what every prompt was before)
+--   workspace  visible to the members of its workspace
+--   private    visible to its author only
+-- Workspaces are joined by invitation from their owner.
+
+create table if not exists workspaces (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  slug text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists workspace_members (
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  joined_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx on workspace_members (user_id);
+
+create table if not exists workspace_invites (
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_invites_user_idx on workspace_invites (user_id);
+
+-- Workspaces are only ever read through the API, with the service role
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+alter table workspace_invites enable row level security;
+
+alter table prompts add column if not exists visibility text not null default 'public'
+  check (visibility in ('private', 'workspace', 'public'));
+alter table prompts add column if not exists workspace_id uuid references workspaces (id);
+alter table prompts drop constraint if exists prompts_workspace_visibility;
+alter table prompts add constraint prompts_workspace_visibility
+  check ((visibility = 'workspace') = (workspace_id is not null));
+
+create index if not exists prompts_workspace_idx on prompts (workspace_id) where workspace_id is not null;
+
+-- Whether `viewer` (null for anonymous callers) may see a prompt. Security
+-- definer so that row policies can check membership without their own
+-- access to workspace_members.
+create or replace function can_view_prompt(visibility text, author uuid, workspace uuid, viewer uuid)
+returns boolean
+language sql stable security definer set search_path = public as $$
+  select visibility = 'public'
+      or (viewer is not null and author = viewer)
+      or (
+        visibility = 'workspace'
+        and viewer is not null
+        and exists (select 1 from workspace_members m where m.workspace_id = workspace and m.user_id = viewer)
+      );
+$$;
+
+-- The browser's realtime channel only gets rows its user could read
+alter table prompts enable row level security;
+
+drop policy if exists "Prompts are readable by whoever they are shared with" on prompts;
+create policy "Prompts are readable by whoever they are shared with"
+  on prompts for select using (can_view_prompt(visibility, author_id, workspace_id, auth.uid()));
+
+-- What hangs off a prompt follows it. The subqueries are themselves filtered
+-- by the prompts policy above.
+drop policy if exists "Likes are readable by everyone" on prompt_likes;
+create policy "Likes follow their prompt's visibility"
+  on prompt_likes for select using (
+    exists (select 1 from prompts p where p.id = prompt_id)
+  );
+
+drop policy if exists "Comments are readable by everyone" on prompt_comments;
+create policy "Comments follow their prompt's visibility"
+  on prompt_comments for select using (
+    exists (select 1 from prompts p where p.id = prompt_id)
+  );
+
+drop policy if exists "Example outputs are readable by everyone" on prompt_outputs;
+create policy "Example outputs follow their prompt's visibility"
+  on prompt_outputs for select using (
+    exists (select 1 from prompts p where p.id = prompt_id)
+  );
+
+drop policy if exists "Revisions are readable by everyone" on prompt_revisions;
+create policy "Revisions follow their prompt's visibility"
+  on prompt_revisions for select using (
+    exists (select 1 from prompts p where p.id = prompt_id)
+  );
+
+-- Search only returns what the viewer may see, optionally narrowed to one
+-- workspace
+drop function if exists search_prompt_ids(text, text[], text, uuid, text, double precision, uuid, integer);
+
+create or replace function search_prompt_ids(
+  search_query text default null,
+  tags_filter text[] default null,
+  tags_match text default 'all',
+  author_filter uuid default null,
+  sort_by text default 'newest',
+  after_key double precision default null,
+  after_id uuid default null,
+  page_size integer default 20,
+  viewer uuid default null,
+  workspace_filter uuid default null
+) returns table (id uuid, sort_key double precision)
+language sql stable as $$
+  with matches as (
+    select
+      p.id,
+      case sort_by
+        when 'relevance' then ts_rank(p.search_vector, websearch_to_tsquery('english', search_query))::double precision
+        when 'likes' then p.likes::double precision
+        when 'comments' then p.comment_count::double precision
+        else extract(epoch from p.created_at)::double precision
+      end as sort_key
+    from prompts p
+    where p.deleted_at is null
+      and p.hidden_at is null
+      and can_view_prompt(p.visibility, p.author_id, p.workspace_id, viewer)
+      and (workspace_filter is null or p.workspace_id = workspace_filter)
+      and (search_query is null or p.search_vector @@ websearch_to_tsquery('english', search_query))
+      and (
+        tags_filter is null
+        or (tags_match = 'any' and p.tags && tags_filter)
+        or (tags_match <> 'any' and p.tags @> tags_filter)
+      )
+      and (author_filter is null or p.author_id = author_filter)
+  )
+  select m.id, m.sort_key
+  from matches m
+  where after_key is null
+     or m.sort_key < after_key
+     or (m.sort_key = after_key and m.id < after_id)
+  order by m.sort_key desc, m.id desc
+  limit page_size;
+$$;
+
+-- Tag counts are shown to everyone, so they only count public prompts
+create or replace view tag_usage as
+  select tag, count(*)::integer as count
+  from prompts, unnest(tags) as tag
+  where deleted_at is null and hidden_at is null and visibility = 'public'
+  group by tag;
+
+-- Stats cover the prompts the viewer can see: all of them on your own profile
+drop function if exists author_stats(uuid);
+
+create or replace function author_stats(author uuid, viewer uuid default null)
+returns table (prompt_count bigint, likes_received bigint, comments_received bigint, copies_received bigint)
+language sql stable as $$
+  select
+    count(*),
+    coalesce(sum(likes), 0),
+    coalesce(sum(comment_count), 0),
+    coalesce(sum(copy_count), 0)
+  from prompts
+  where author_id = author
+    and deleted_at is null
+    and hidden_at is null
+    and can_view_prompt(visibility, author_id, workspace_id, viewer);
+$$;
+
+-- Forks the viewer can't see are left out of the lineage, like removed ones
+drop function if exists prompt_descendants(uuid);
+
+create or replace function prompt_descendants(root uuid, viewer uuid default null)
+returns table (
+  id uuid,
+  forked_from uuid,
+  title text,
+  author_id uuid,
+  author_name text,
+  fork_count integer,
+  created_at timestamptz,
+  depth integer
+)
+language sql stable as $$
+  with recursive tree as (
+    select p.id, p.forked_from, p.title, p.author_id, p.author_name, p.fork_count, p.created_at,
+           p.deleted_at is null and p.hidden_at is null
+             and can_view_prompt(p.visibility, p.author_id, p.workspace_id, viewer) as visible,
+           1 as depth, array[p.created_at::text || p.id::text] as path
+    from prompts p
+    where p.forked_from = root
+    union all
+    select p.id, p.forked_from, p.title, p.author_id, p.author_name, p.fork_count, p.created_at,
+           p.deleted_at is null and p.hidden_at is null
+             and can_view_prompt(p.visibility, p.author_id, p.workspace_id, viewer),
+           t.depth + 1, t.path || (p.created_at::text || p.id::text)
+    from prompts p
+    join tree t on p.forked_from = t.id
+  )
+  select id, forked_from, title, author_id, author_name, fork_count, created_at, depth
+  from tree
+  where visible
+  order by path;
+$$;
@@ -0,0 +1,138 @@
+-- Usage analytics: copy and view events, counted per prompt per day, plus
+-- how often each user has copied each prompt. Replaces record_prompt_copy().
+
+create table if not exists prompt_usage_daily (
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  day date not null,
+  copies integer not null default 0,
+  views integer not null default 0,
+  primary key (prompt_id, day)
+);
+
+create index if not exists prompt_usage_daily_day_idx on prompt_usage_daily (day);
+
+create table if not exists prompt_user_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  copies integer not null default 0,
+  last_used_at timestamptz not null default now(),
+  primary key (user_id, prompt_id)
+);
+
+create index if not exists prompt_user_usage_top_idx on prompt_user_usage (user_id, copies desc);
+
+-- Only read through the API, with the service role
+alter table prompt_usage_daily enable row level security;
+alter table prompt_user_usage enable row level security;
+
+-- Records one event. Copies also bump prompts.copy_count and, when `actor`
+-- is known, that user's own usage. Returns the prompt's copy_count, or null
+-- if there is no such prompt.
+create or replace function record_prompt_event(target uuid, kind text, actor uuid default null)
+returns integer
+language plpgsql as $$
+declare
+  copy_total integer;
+begin
+  select copy_count into copy_total from prompts where id = target;
+  if not found then
+    return null;
+  end if;
+
+  insert into prompt_usage_daily as u (prompt_id, day, copies, views)
+  values (target, current_date, (kind = 'copy')::integer, (kind = 'view')::integer)
+  on conflict (prompt_id, day) do update
+    set copies = u.copies + excluded.copies,
+        views = u.views + excluded.views;
+
+  if kind = 'copy' then
+    update prompts set copy_count = copy_count + 1 where id = target returning copy_count into copy_total;
+
+    if actor is not null then
+      insert into prompt_user_usage as u (user_id, prompt_id, copies)
+      values (actor, target, 1)
+      on conflict (user_id, prompt_id) do update
+        set copies = u.copies + 1,
+            last_used_at = now();
+    end if;
+  end if;
+
+  return copy_total;
+end;
+$$;
+
+drop function if exists record_prompt_copy(uuid);
+
+-- How much a prompt was being used at `as_of`. Copies, likes and comments
+-- from the two weeks before it count, each halving in weight every three
+-- days. Paging through the trending sort passes the first page's time, so
+-- scores don't drift between pages as the clock moves on.
+create or replace function trending_score(target uuid, as_of timestamptz default now())
+returns double precision
+language sql stable as $$
+  select
+    coalesce((
+      select sum(3 * u.copies * power(0.5, (as_of::date - u.day) / 3.0))
+      from prompt_usage_daily u
+      where u.prompt_id = target and u.day > as_of::date - 14 and u.day <= as_of::date
+    ), 0)
+    + coalesce((
+      select sum(2 * power(0.5, extract(epoch from as_of - l.created_at) / (3 * 86400)))
+      from prompt_likes l
+      where l.prompt_id = target and l.created_at > as_of - interval '14 days' and l.created_at <= as_of
+    ), 0)
+    + coalesce((
+      select sum(2 * power(0.5, extract(epoch from as_of - c.created_at) / (3 * 86400)))
+      from prompt_comments c
+      where c.prompt_id = target and c.deleted_at is null
+        and c.created_at > as_of - interval '14 days' and c.created_at <= as_of
+    ), 0);
+$$;
+
+-- Adds the "trending" sort, scored as of `as_of` (default now)
+drop function if exists search_prompt_ids(text, text[], text, uuid, text, double precision, uuid, integer, uuid, uuid);
+create or replace function search_prompt_ids(
+  search_query text default null,
+  tags_filter text[] default null,
+  tags_match text default 'all',
+  author_filter uuid default null,
+  sort_by text default 'newest',
+  after_key double precision default null,
+  after_id uuid default null,
+  page_size integer default 20,
+  viewer uuid default null,
+  workspace_filter uuid default null,
+  as_of timestamptz default null
+) returns table (id uuid, sort_key double precision)
+language sql stable as $$
+  with matches as (
+    select
+      p.id,
+      case sort_by
+        when 'relevance' then ts_rank(p.search_vector, websearch_to_tsquery('english', search_query))::double precision
+        when 'likes' then p.likes::double precision
+        when 'comments' then p.comment_count::double precision
+        when 'trending' then trending_score(p.id, coalesce(as_of, now()))
+        else extract(epoch from p.created_at)::double precision
+      end as sort_key
+    from prompts p
+    where p.deleted_at is null
+      and p.hidden_at is null
+      and can_view_prompt(p.visibility, p.author_id, p.workspace_id, viewer)
+      and (workspace_filter is null or p.workspace_id = workspace_filter)
+      and (search_query is null or p.search_vector @@ websearch_to_tsquery('english', search_query))
+      and (
+        tags_filter is null
+        or (tags_match = 'any' and p.tags && tags_filter)
+        or (tags_match <> 'any' and p.tags @> tags_filter)
+      )
+      and (author_filter is null or p.author_id = author_filter)
+  )
+  select m.id, m.sort_key
+  from matches m
+  where after_key is null
+     or m.sort_key < after_key
+     or (m.sort_key = after_key and m.id < after_id)
+  order by m.sort_key desc, m.id desc
+  limit page_size;
+$$;
@@ -0,0 +1,32 @@
+-- Comment replies and edits, and a notifications inbox.
+
+-- Replies hang off a top-level comment; threads are one level deep
+alter table prompt_comments add column if not exists parent_id uuid references prompt_comments (id) on delete cascade;
+alter table prompt_comments add column if not exists updated_at timestamptz;
+
+create index if not exists prompt_comments_parent_id_idx on prompt_comments (parent_id) where parent_id is not null;
+
+create table if not exists notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null check (type in ('comment', 'reply', 'mention', 'like', 'fork')),
+  actor_id uuid not null references auth.users (id) on delete cascade,
+  actor_name text not null,
+  prompt_id uuid not null references prompts (id) on delete cascade,
+  comment_id uuid references prompt_comments (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists notifications_user_idx on notifications (user_id, created_at desc);
+create index if not exists notifications_unread_idx on notifications (user_id) where read_at is null;
+
+-- Liking, unliking and liking again only notifies once
+create unique index if not exists notifications_like_once_idx on notifications (user_id, actor_id, prompt_id) where type = 'like';
+
+-- Written with the service role; people can only read their own
+alter table notifications enable row level security;
+
+drop policy if exists "Notifications are readable by their recipient" on notifications;
+create policy "Notifications are readable by their recipient"
+  on notifications for select using (auth.uid() = user_id);